@@ -10,9 +10,12 @@ export class Analyser {
   private bufferLength = 0;
   private dataArray: Uint8Array;
 
-  constructor(node: AudioNode) {
+  constructor(
+    private node: AudioNode,
+    fftSize = 32,
+  ) {
     this.analyser = node.context.createAnalyser();
-    this.analyser.fftSize = 32;
+    this.analyser.fftSize = fftSize;
     this.bufferLength = this.analyser.frequencyBinCount;
     this.dataArray = new Uint8Array(this.bufferLength);
     node.connect(this.analyser);
@@ -25,4 +28,8 @@ export class Analyser {
   get data() {
     return this.dataArray;
   }
+
+  disconnect() {
+    this.node.disconnect(this.analyser);
+  }
 }
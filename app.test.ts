@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @vitest-environment happy-dom
+
+import * as THREE from 'three';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import './index';
+import {AxeeInterface} from './index';
+import {AxeeVisuals3D} from './visual-3d';
+
+// happy-dom has no WebGL, so the scene renders into a renderer that only
+// reports a viewport; everything else it is asked to do is a no-op.
+vi.mock('three', async (importOriginal) => {
+  const three = await importOriginal<typeof import('three')>();
+  class WebGLRenderer {
+    domElement: HTMLCanvasElement;
+    info = {autoReset: true, reset() {}, render: {calls: 0, triangles: 0}};
+    private pixelRatio = 1;
+
+    constructor({canvas}: {canvas?: HTMLCanvasElement} = {}) {
+      this.domElement = canvas ?? document.createElement('canvas');
+      return new Proxy(this, {
+        get: (target, key) => (key in target ? target[key] : () => {}),
+      });
+    }
+
+    getContext() {
+      return {drawingBufferWidth: 800, drawingBufferHeight: 600};
+    }
+
+    setPixelRatio(ratio: number) {
+      this.pixelRatio = ratio;
+    }
+
+    getPixelRatio() {
+      return this.pixelRatio;
+    }
+
+    getSize(target: THREE.Vector2) {
+      return target.set(800, 600);
+    }
+  }
+  return {...three, WebGLRenderer};
+});
+
+// Nor does it draw 2D canvases; a context that accepts any call stands in.
+function fakeContext2d(): CanvasRenderingContext2D {
+  const context = new Proxy(
+    {},
+    {get: (target, key) => target[key] ?? (() => context)},
+  );
+  return context as CanvasRenderingContext2D;
+}
+
+// Nor run workers; period searches simply never finish.
+class SilentWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  postMessage() {}
+  terminate() {}
+}
+
+function visualsOf(app: AxeeInterface) {
+  return app.shadowRoot!.querySelector<AxeeVisuals3D>('axee-visuals-3d')!;
+}
+
+// Planet groups the scene has drawn, by planet ID.
+function scenePlanets(visuals: AxeeVisuals3D) {
+  const planets = new Map<string, THREE.Object3D>();
+  visuals['scene'].traverse((object) => {
+    if (object.userData.id) planets.set(object.userData.id, object);
+  });
+  return planets;
+}
+
+async function submitPrompt(app: AxeeInterface, prompt: string) {
+  const input =
+    app.shadowRoot!.querySelector<HTMLInputElement>('.command-bar input')!;
+  input.value = prompt;
+  input.dispatchEvent(new Event('input'));
+  await app.updateComplete;
+  input.dispatchEvent(new KeyboardEvent('keydown', {key: 'Enter'}));
+}
+
+describe('the app', () => {
+  let app: AxeeInterface;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      fakeContext2d,
+    );
+    vi.stubGlobal('Worker', SilentWorker);
+    // Synthesize with the offline generator even when an API key is set.
+    history.replaceState(null, '', '/?offline');
+    app = document.createElement('axee-interface') as AxeeInterface;
+    document.body.append(app);
+    await app.updateComplete;
+  });
+
+  afterEach(async () => {
+    app.remove();
+    // Panels the last render opened may still draw; keep the fakes until then.
+    await new Promise((resolve) => setTimeout(resolve));
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('draws every synthesized planet as a group in the scene', async () => {
+    const visuals = visualsOf(app);
+    expect(scenePlanets(visuals).size).toBe(0);
+
+    await submitPrompt(app, 'an ocean world');
+    await vi.waitFor(() => expect(app['discoveredPlanets'].size).toBe(1));
+    await submitPrompt(app, 'a ringed gas giant');
+    await vi.waitFor(() => expect(app['discoveredPlanets'].size).toBe(2));
+    await app.updateComplete;
+    await visuals.updateComplete;
+
+    const drawn = scenePlanets(visuals);
+    const catalog = app['catalogPlanets'];
+    expect([...drawn.keys()].sort()).toEqual(
+      catalog.map((planet) => planet.celestial_body_id).sort(),
+    );
+    for (const planet of catalog) {
+      const group = drawn.get(planet.celestial_body_id)!;
+      expect(group).toBeInstanceOf(THREE.Group);
+      expect(group.name).toBe(planet.planetName);
+      // Each planet hangs off the group of its star system.
+      expect(group.parent!.name).toBe(planet.starSystem);
+    }
+  });
+
+  it('hides the meshes and orbits of planets drawn as impostors', async () => {
+    const visuals = visualsOf(app);
+    await submitPrompt(app, 'a lava world');
+    await vi.waitFor(() => expect(app['discoveredPlanets'].size).toBe(1));
+    await visuals.updateComplete;
+    const [id] = app['discoveredPlanets'].keys();
+    const group = scenePlanets(visuals).get(id)!;
+    const orbitLine = visuals['orbitLines'].get(id)!;
+
+    visuals['camera'].position.set(0, 0, 5000);
+    visuals['updateLevelsOfDetail']();
+    expect(visuals['detailCounts'].get('impostor')).toBe(1);
+    expect(group.visible).toBe(false);
+    expect(orbitLine.visible).toBe(false);
+
+    visuals['camera'].position.copy(
+      group.getWorldPosition(new THREE.Vector3()),
+    );
+    visuals['camera'].position.z += 10;
+    visuals['updateLevelsOfDetail']();
+    expect(visuals['detailCounts'].get('impostor')).toBe(0);
+    expect(group.visible).toBe(true);
+    expect(orbitLine.visible).toBe(true);
+  });
+});
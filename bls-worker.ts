@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BlsRequest, boxLeastSquares} from './box-least-squares';
+
+// Runs a box least squares search off the main thread; a year-long orbit
+// takes seconds to search. One request is answered with one BlsResult.
+self.onmessage = (event: MessageEvent<BlsRequest>) => {
+  const {times, flux, options} = event.data;
+  const result = boxLeastSquares(times, flux, options);
+  self.postMessage(result, {
+    transfer: [result.periods.buffer, result.power.buffer],
+  });
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {boxLeastSquares} from './box-least-squares';
+import {TransitSystem, simulateLightCurve} from './light-curve';
+import {periodFromSemiMajorAxis} from './orbital-mechanics';
+
+// The light curve is viewed along the scene's +z axis, so a face-on orbit in
+// the scene is an edge-on one from Earth and always transits.
+function sunLikeSystem(
+  semiMajorAxisAU: number,
+  radiusEarth: number,
+): TransitSystem {
+  return {
+    radiusEarth,
+    starRadiusSolar: 1,
+    spectralClass: 'G',
+    elements: {
+      semiMajorAxisAU,
+      eccentricity: 0,
+      inclinationDeg: 0,
+      periodDays: periodFromSemiMajorAxis(semiMajorAxisAU, 1),
+      argumentOfPeriapsisDeg: 0,
+      longitudeOfAscendingNodeDeg: 0,
+      meanAnomalyAtEpochDeg: 0,
+    },
+  };
+}
+
+// The details panel calls a period recovered within this tolerance.
+const TOLERANCE = 0.01;
+
+describe('boxLeastSquares on simulated light curves', () => {
+  it('recovers a hot Jupiter on a three-day orbit', () => {
+    const curve = simulateLightCurve(sunLikeSystem(0.04, 11), 7);
+    expect(curve.transitTimes.length).toBeGreaterThan(2);
+    const detection = boxLeastSquares(curve.times, curve.flux);
+    expect(detection.periodDays).toBeCloseTo(2.92, 2);
+    expect(Math.abs(detection.periodDays / curve.periodDays - 1)).toBeLessThan(
+      TOLERANCE,
+    );
+    expect(detection.depthPpm / curve.depthPpm).toBeGreaterThan(0.7);
+    expect(detection.depthPpm / curve.depthPpm).toBeLessThan(1.3);
+    expect(detection.snr).toBeGreaterThan(20);
+  });
+
+  it('recovers a Neptune on a one-year orbit', {timeout: 30000}, () => {
+    const curve = simulateLightCurve(sunLikeSystem(1, 4), 11);
+    expect(curve.transitTimes.length).toBeGreaterThanOrEqual(2);
+    const detection = boxLeastSquares(curve.times, curve.flux);
+    expect(Math.abs(detection.periodDays / curve.periodDays - 1)).toBeLessThan(
+      TOLERANCE,
+    );
+    expect(detection.snr).toBeGreaterThan(7);
+  });
+
+  it('is deterministic for a seed', () => {
+    const system = sunLikeSystem(0.1, 3);
+    const first = simulateLightCurve(system, 3);
+    expect(simulateLightCurve(system, 3).flux).toEqual(first.flux);
+    expect(simulateLightCurve(system, 4).flux).not.toEqual(first.flux);
+  });
+
+  it('finds no transits for an orbit seen face-on from Earth', () => {
+    const system = sunLikeSystem(0.04, 11);
+    system.elements.inclinationDeg = 90;
+    expect(simulateLightCurve(system, 7).transitTimes).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A Sun-like star's central transit lasts about 13 hours at one year, and
+// scales with P^⅓ at fixed stellar density.
+const SOLAR_TRANSIT_HOURS_AT_ONE_YEAR = 13;
+const DAYS_PER_YEAR = 365.25;
+// Trial durations span this factor either side of the Sun-like duration,
+// wide enough for grazing transits and for dense M dwarfs or bloated F stars.
+const DURATION_RANGE = 3;
+const MAX_PHASE_BINS = 1000;
+const TRIAL_DURATIONS = 8;
+// Finer frequency steps tried around the coarse peak.
+const REFINE_STEPS = 40;
+
+export interface BlsOptions {
+  // Defaults to 1% of the baseline, but no shorter than half a day; the grid
+  // grows steeply towards short periods, and this keeps a four-year light
+  // curve searchable in well under a second.
+  minPeriodDays?: number;
+  // Defaults to half the baseline, so that at least two transits are seen.
+  maxPeriodDays?: number;
+}
+
+/** A search for bls-worker.ts to run off the main thread. */
+export interface BlsRequest {
+  times: Float64Array;
+  flux: Float64Array;
+  options?: BlsOptions;
+}
+
+export interface BlsResult {
+  periodDays: number;
+  // Mid-transit time of the detected box, in the light curve's time units.
+  epochDays: number;
+  durationHours: number;
+  depthPpm: number;
+  // Depth over its uncertainty, from the out-of-box scatter.
+  snr: number;
+  // The periodogram, ascending in period, for plotting.
+  periods: Float64Array;
+  power: Float64Array;
+}
+
+function typicalDutyCycle(frequency: number) {
+  const periodDays = 1 / frequency;
+  const durationDays =
+    (SOLAR_TRANSIT_HOURS_AT_ONE_YEAR / 24) *
+    Math.cbrt(periodDays / DAYS_PER_YEAR);
+  return Math.min(durationDays * frequency, 0.25);
+}
+
+interface BoxFit {
+  power: number;
+  // Phase of the box start and its width, both in cycles.
+  phase: number;
+  width: number;
+  depth: number;
+  inCount: number;
+}
+
+/**
+ * Folds the mean-subtracted flux at `frequency` and slides boxes of several
+ * widths over the phase bins, returning the box with the greatest signal
+ * residue s² / (r (1 - r)) (Kovács, Zucker & Mazeh 2002).
+ */
+function bestBox(
+  times: Float64Array,
+  residuals: Float64Array,
+  frequency: number,
+  sums: Float64Array,
+  counts: Int32Array,
+): BoxFit {
+  const duty = typicalDutyCycle(frequency);
+  const bins = Math.min(
+    MAX_PHASE_BINS,
+    Math.max(50, Math.ceil(3 / (duty / DURATION_RANGE))),
+  );
+  sums.fill(0, 0, bins);
+  counts.fill(0, 0, bins);
+  const t0 = times[0];
+  for (let i = 0; i < times.length; i++) {
+    const phase = ((times[i] - t0) * frequency) % 1;
+    const bin = Math.floor(phase * bins);
+    sums[bin] += residuals[i];
+    counts[bin]++;
+  }
+
+  const total = times.length;
+  const minWidth = Math.max(1, Math.floor((duty / DURATION_RANGE) * bins));
+  const maxWidth = Math.max(
+    minWidth,
+    Math.min(bins / 2, Math.ceil(duty * DURATION_RANGE * bins)),
+  );
+  const ratio = (maxWidth / minWidth) ** (1 / (TRIAL_DURATIONS - 1));
+  const best: BoxFit = {power: 0, phase: 0, width: 0, depth: 0, inCount: 0};
+  let previousWidth = 0;
+  for (let trial = 0; trial < TRIAL_DURATIONS; trial++) {
+    const width = Math.round(minWidth * ratio ** trial);
+    if (width === previousWidth) continue;
+    previousWidth = width;
+
+    let s = 0;
+    let n = 0;
+    for (let j = 0; j < width; j++) {
+      s += sums[j];
+      n += counts[j];
+    }
+    for (let start = 0; start < bins; start++) {
+      // Only dips count; a box of positive residuals is not a transit.
+      if (n > 0 && n < total && s < 0) {
+        const r = n / total;
+        const power = (s / total) ** 2 / (r * (1 - r));
+        if (power > best.power) {
+          best.power = power;
+          best.phase = start / bins;
+          best.width = width / bins;
+          // The residuals are zero-mean, so the out-of-box mean is -s/(N-n).
+          best.depth = -s / n - s / (total - n);
+          best.inCount = n;
+        }
+      }
+      const leaving = start;
+      const entering = (start + width) % bins;
+      s += sums[entering] - sums[leaving];
+      n += counts[entering] - counts[leaving];
+    }
+  }
+  return best;
+}
+
+/**
+ * Box least squares period search: for each trial period the light curve
+ * is phase-folded and fit with a rectangular dip, and the period with the
+ * strongest dip wins. The frequency grid is spaced so that a box drifts by
+ * less than a typical transit duration over the whole baseline, and trial
+ * durations follow the period the way transit durations do.
+ */
+export function boxLeastSquares(
+  times: Float64Array,
+  flux: Float64Array,
+  options: BlsOptions = {},
+): BlsResult {
+  const count = times.length;
+  const baseline = times[count - 1] - times[0];
+  const minPeriod = options.minPeriodDays ?? Math.max(0.5, baseline / 100);
+  const maxPeriod = options.maxPeriodDays ?? baseline / 2;
+
+  let mean = 0;
+  for (let i = 0; i < count; i++) mean += flux[i];
+  mean /= count;
+  const residuals = new Float64Array(count);
+  for (let i = 0; i < count; i++) residuals[i] = flux[i] - mean;
+
+  const sums = new Float64Array(MAX_PHASE_BINS);
+  const counts = new Int32Array(MAX_PHASE_BINS);
+  const frequencies: number[] = [];
+  const powers: number[] = [];
+  let peak = -1;
+  let peakFit: BoxFit | null = null;
+  for (let f = 1 / maxPeriod; f <= 1 / minPeriod;) {
+    const fit = bestBox(times, residuals, f, sums, counts);
+    frequencies.push(f);
+    powers.push(fit.power);
+    if (!peakFit || fit.power > peakFit.power) {
+      peak = f;
+      peakFit = fit;
+    }
+    f += typicalDutyCycle(f) / baseline;
+  }
+
+  // Search finely either side of the coarse peak.
+  const step = typicalDutyCycle(peak) / baseline;
+  let bestFrequency = peak;
+  for (let k = -REFINE_STEPS; k <= REFINE_STEPS; k++) {
+    const f = peak + (k / REFINE_STEPS) * step;
+    if (f <= 0) continue;
+    const fit = bestBox(times, residuals, f, sums, counts);
+    if (fit.power > peakFit.power) {
+      bestFrequency = f;
+      peakFit = fit;
+    }
+  }
+
+  let outVariance = 0;
+  let outCount = 0;
+  const t0 = times[0];
+  for (let i = 0; i < count; i++) {
+    const phase = ((times[i] - t0) * bestFrequency) % 1;
+    const offset = (phase - peakFit.phase + 1) % 1;
+    if (offset >= peakFit.width) {
+      outVariance += residuals[i] ** 2;
+      outCount++;
+    }
+  }
+  const sigma = Math.sqrt(outVariance / Math.max(1, outCount - 1));
+
+  const period = 1 / bestFrequency;
+  const periods = new Float64Array(frequencies.length);
+  const power = new Float64Array(frequencies.length);
+  for (let i = 0; i < frequencies.length; i++) {
+    const j = frequencies.length - 1 - i;
+    periods[i] = 1 / frequencies[j];
+    power[i] = powers[j];
+  }
+  return {
+    periodDays: period,
+    epochDays: t0 + (peakFit.phase + peakFit.width / 2) * period,
+    durationHours: peakFit.width * period * 24,
+    depthPpm: peakFit.depth * 1e6,
+    snr: sigma > 0 ? peakFit.depth / (sigma / Math.sqrt(peakFit.inCount)) : 0,
+    periods,
+    power,
+  };
+}
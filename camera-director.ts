@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from 'three';
+import {OrbitControls} from 'three/addons/controls/OrbitControls.js';
+
+/** Where the camera should end up and what it should look at. */
+export type CameraShot =
+  | {kind: 'static'; position: THREE.Vector3; lookAt: THREE.Vector3}
+  // Keeps `offset` from a moving object, such as a planet on its orbit.
+  | {kind: 'follow'; target: THREE.Object3D; offset: THREE.Vector3};
+
+// Scene units per second the camera covers on a default-length flight.
+const FLIGHT_SPEED = 80;
+const MIN_FLIGHT_SECONDS = 1.2;
+const MAX_FLIGHT_SECONDS = 5;
+
+interface Flight {
+  shot: CameraShot;
+  curve: THREE.CatmullRomCurve3;
+  fromLookAt: THREE.Vector3;
+  // Where the shot's subject was at take-off. A followed subject keeps
+  // moving, so its drift since is blended into the path.
+  anchor: THREE.Vector3;
+  elapsed: number;
+  duration: number;
+}
+
+function smoothstep(t: number) {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Moves the camera between shots along Catmull-Rom splines and keeps it on
+ * moving subjects once there. Between flights the user orbits freely: a
+ * follow shot only carries the camera along with its subject, preserving
+ * whatever angle and distance the user picked.
+ */
+export class CameraDirector {
+  private shot: CameraShot | null = null;
+  private flight: Flight | null = null;
+  private subjectPosition = new THREE.Vector3();
+
+  /** Called each time a flight reaches its shot. */
+  onArrive: (() => void) | null = null;
+
+  constructor(
+    private camera: THREE.PerspectiveCamera,
+    private controls: OrbitControls,
+  ) {}
+
+  get isFlying() {
+    return this.flight !== null;
+  }
+
+  /** Flies a gentle arc to `shot`, rising above the straight line. */
+  flyTo(shot: CameraShot, durationSeconds?: number) {
+    const start = this.camera.position;
+    const end = this.shotPosition(shot, new THREE.Vector3());
+    const lift = start.distanceTo(end) * 0.25;
+    const midpoint = start
+      .clone()
+      .lerp(end, 0.5)
+      .add(new THREE.Vector3(0, lift, 0));
+    this.flyThrough([midpoint], shot, durationSeconds);
+  }
+
+  /**
+   * Flies through `waypoints` in order and finishes on `shot`. The duration
+   * defaults to one that keeps the speed comfortable for the path's length.
+   */
+  flyThrough(
+    waypoints: THREE.Vector3[],
+    shot: CameraShot,
+    durationSeconds?: number,
+  ) {
+    const end = this.shotPosition(shot, new THREE.Vector3());
+    const curve = new THREE.CatmullRomCurve3([
+      this.camera.position.clone(),
+      ...waypoints,
+      end,
+    ]);
+    this.shot = shot;
+    this.flight = {
+      shot,
+      curve,
+      fromLookAt: this.controls.target.clone(),
+      anchor: this.shotLookAt(shot, new THREE.Vector3()),
+      elapsed: 0,
+      duration:
+        durationSeconds ??
+        THREE.MathUtils.clamp(
+          curve.getLength() / FLIGHT_SPEED,
+          MIN_FLIGHT_SECONDS,
+          MAX_FLIGHT_SECONDS,
+        ),
+    };
+  }
+
+  /**
+   * Abandons any flight where it is, for when the user grabs the camera. A
+   * follow shot keeps tracking its subject from the new vantage point.
+   */
+  interrupt() {
+    if (!this.flight) return;
+    this.flight = null;
+    this.shotLookAt(this.shot, this.subjectPosition);
+  }
+
+  /**
+   * Puts the camera at `offset` from `lookAt` at once, abandoning any flight.
+   * A follow shot keeps its subject and only takes the offset, since the
+   * subject has moved on since `lookAt` was recorded.
+   */
+  jumpTo(lookAt: THREE.Vector3, offset: THREE.Vector3) {
+    this.flight = null;
+    const target =
+      this.shot?.kind === 'follow'
+        ? this.shotLookAt(this.shot, new THREE.Vector3())
+        : lookAt;
+    this.controls.target.copy(target);
+    this.camera.position.copy(target).add(offset);
+    this.subjectPosition.copy(target);
+  }
+
+  /** Advances the camera; call once per frame before `controls.update()`. */
+  update(delta: number) {
+    if (!this.shot) return;
+    const lookAt = this.shotLookAt(this.shot, new THREE.Vector3());
+    const flight = this.flight;
+    if (flight) {
+      flight.elapsed += delta;
+      const t = smoothstep(Math.min(flight.elapsed / flight.duration, 1));
+      const drift = lookAt.clone().sub(flight.anchor).multiplyScalar(t);
+      this.camera.position.copy(flight.curve.getPointAt(t)).add(drift);
+      this.controls.target.lerpVectors(flight.fromLookAt, lookAt, t);
+      if (flight.elapsed >= flight.duration) {
+        this.flight = null;
+        this.subjectPosition.copy(lookAt);
+        this.onArrive?.();
+      }
+    } else if (this.shot.kind === 'follow') {
+      const moved = lookAt.clone().sub(this.subjectPosition);
+      this.camera.position.add(moved);
+      this.controls.target.add(moved);
+      this.subjectPosition.copy(lookAt);
+    }
+  }
+
+  private shotLookAt(shot: CameraShot, out: THREE.Vector3) {
+    return shot.kind === 'follow'
+      ? shot.target.getWorldPosition(out)
+      : out.copy(shot.lookAt);
+  }
+
+  private shotPosition(shot: CameraShot, out: THREE.Vector3) {
+    return shot.kind === 'follow'
+      ? this.shotLookAt(shot, out).add(shot.offset)
+      : out.copy(shot.position);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {
+  CatalogImportError,
+  exportCatalogJson,
+  parseCatalogBundle,
+} from './catalog-export';
+import {CatalogEntry, createCatalogEntry} from './catalog-store';
+import {citeText} from './grounding';
+import {PlanetGrounding} from './planet-model';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+
+const planet = new ProceduralSynthesisProvider(11).generate('a carbon world');
+
+const grounding: PlanetGrounding = {
+  chunks: [
+    {web: {uri: 'https://exoplanets.nasa.gov/', title: 'NASA Exoplanets'}},
+    {web: {uri: 'http://example.org/kepler', title: 'Kepler'}},
+  ],
+  webSearchQueries: ['carbon planets'],
+  supports: [
+    {
+      segment: {text: planet.surfaceFeatures},
+      groundingChunkIndices: [0, 1],
+    },
+  ],
+};
+
+// An exported bundle, edited by hand the way a hostile file could be.
+function bundleWith(changes: Partial<PlanetGrounding>) {
+  const entry = createCatalogEntry(planet, 'a carbon world', grounding);
+  const bundle = JSON.parse(exportCatalogJson([entry]));
+  Object.assign(bundle.entries[0].grounding, changes);
+  return JSON.stringify(bundle);
+}
+
+function importError(changes: Record<string, unknown>) {
+  try {
+    parseCatalogBundle(bundleWith(changes as Partial<PlanetGrounding>));
+  } catch (e) {
+    expect(e).toBeInstanceOf(CatalogImportError);
+    return (e as Error).message;
+  }
+  return null;
+}
+
+describe('exportCatalogJson and parseCatalogBundle', () => {
+  it('round-trip entries with their grounding', () => {
+    const entry: CatalogEntry = createCatalogEntry(
+      planet,
+      'a carbon world',
+      grounding,
+    );
+    expect(parseCatalogBundle(exportCatalogJson([entry]))).toEqual([entry]);
+  });
+
+  it('keeps only http and https sources as links', () => {
+    const [entry] = parseCatalogBundle(
+      bundleWith({
+        chunks: [
+          {web: {uri: 'javascript:alert(1)', title: 'Click me'}},
+          {web: {uri: ' JaVaScRiPt:alert(1)'}},
+          {web: {uri: 'data:text/html,<script>alert(1)</script>'}},
+          {web: {uri: 'not a url', title: 'Broken'}},
+          {},
+          grounding.chunks[0],
+        ],
+      }),
+    );
+    expect(entry.grounding.chunks.map((chunk) => chunk.web?.uri)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      'https://exoplanets.nasa.gov/',
+    ]);
+    expect(entry.grounding.chunks[0].web?.title).toBe('Click me');
+    // Citations to the dropped links disappear; the rest still render.
+    const spans = citeText(planet.surfaceFeatures, entry.grounding);
+    expect(spans.flatMap((span) => span.citations)).toEqual([]);
+  });
+
+  it('rejects malformed sources, queries and citations', () => {
+    expect(importError({chunks: [null]})).toMatch(/malformed source/);
+    expect(importError({chunks: [{web: 'https://x.org'}]})).toMatch(
+      /malformed source/,
+    );
+    expect(importError({chunks: [{web: {uri: 42}}]})).toMatch(
+      /malformed source/,
+    );
+    expect(importError({webSearchQueries: [{}]})).toMatch(
+      /malformed search query/,
+    );
+    expect(importError({supports: [null]})).toMatch(/malformed citation/);
+    expect(importError({supports: [{groundingChunkIndices: 0}]})).toMatch(
+      /malformed citation/,
+    );
+    expect(importError({supports: [{groundingChunkIndices: ['0']}]})).toMatch(
+      /malformed citation/,
+    );
+    expect(importError({supports: [{segment: 'text'}]})).toMatch(
+      /malformed citation/,
+    );
+    expect(importError({supports: {}})).toMatch(/grounding is malformed/);
+  });
+
+  it('imports citations that can be rendered', () => {
+    const [entry] = parseCatalogBundle(
+      bundleWith({supports: [{groundingChunkIndices: [7]}, {}]}),
+    );
+    expect(entry.grounding.supports).toEqual([
+      {segment: undefined, groundingChunkIndices: [7]},
+      {segment: undefined, groundingChunkIndices: []},
+    ]);
+    expect(() =>
+      citeText(planet.surfaceFeatures, entry.grounding),
+    ).not.toThrow();
+  });
+});
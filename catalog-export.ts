@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {CatalogEntry, migrateCatalogEntry} from './catalog-store';
+import {toCsv} from './csv';
+import {normalizePlanet} from './planet-model';
+import {validatePlanetData} from './planet-validation';
+
+export const CATALOG_BUNDLE_FORMAT = 'axee-catalog';
+export const CATALOG_BUNDLE_VERSION = 1;
+
+export interface CatalogBundle {
+  format: typeof CATALOG_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: CatalogEntry[];
+}
+
+export class CatalogImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogImportError';
+  }
+}
+
+export type CatalogExportFormat = 'json' | 'csv' | 'votable';
+
+/** How to treat imported entries whose `celestial_body_id` already exists. */
+export type DuplicateStrategy = 'skip' | 'replace' | 'keep-both';
+
+export interface CatalogMergeResult {
+  entries: Map<string, CatalogEntry>;
+  added: CatalogEntry[];
+  replaced: CatalogEntry[];
+  skipped: CatalogEntry[];
+}
+
+export function exportCatalogJson(entries: CatalogEntry[]): string {
+  const bundle: CatalogBundle = {
+    format: CATALOG_BUNDLE_FORMAT,
+    version: CATALOG_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Reads a bundle produced by exportCatalogJson, migrating each entry to the
+ * current schema and rejecting the whole file if any planet is invalid.
+ */
+export function parseCatalogBundle(text: string): CatalogEntry[] {
+  let bundle: Partial<CatalogBundle>;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new CatalogImportError('File is not valid JSON.');
+  }
+  if (bundle?.format !== CATALOG_BUNDLE_FORMAT) {
+    throw new CatalogImportError('File is not an AXEE catalog export.');
+  }
+  if (
+    typeof bundle.version !== 'number' ||
+    bundle.version > CATALOG_BUNDLE_VERSION
+  ) {
+    throw new CatalogImportError(
+      `Unsupported catalog bundle version: ${bundle.version}.`,
+    );
+  }
+  if (!Array.isArray(bundle.entries)) {
+    throw new CatalogImportError('Catalog bundle has no entries.');
+  }
+
+  return bundle.entries.map((raw, index) => {
+    let entry: CatalogEntry;
+    try {
+      entry = migrateCatalogEntry(raw);
+    } catch (e) {
+      throw new CatalogImportError(`Entry ${index}: ${(e as Error).message}`);
+    }
+    const {errors} = validatePlanetData(entry.planet);
+    if (!entry.planet?.celestial_body_id) {
+      errors.push({path: 'celestial_body_id', message: 'is required'});
+    }
+    if (errors.length > 0) {
+      throw new CatalogImportError(
+        `Entry ${index}: ${errors
+          .map((error) => `${error.path} ${error.message}`)
+          .join('; ')}`,
+      );
+    }
+    return {...entry, planet: normalizePlanet(entry.planet)};
+  });
+}
+
+function uniqueId(id: string, taken: Map<string, CatalogEntry>) {
+  let suffix = 1;
+  while (taken.has(`${id}-${suffix}`)) suffix++;
+  return `${id}-${suffix}`;
+}
+
+/** Merges imported entries into the catalog without mutating `existing`. */
+export function mergeCatalogEntries(
+  existing: Map<string, CatalogEntry>,
+  imported: CatalogEntry[],
+  strategy: DuplicateStrategy,
+): CatalogMergeResult {
+  const entries = new Map(existing);
+  const result: CatalogMergeResult = {
+    entries,
+    added: [],
+    replaced: [],
+    skipped: [],
+  };
+
+  for (const entry of imported) {
+    const id = entry.planet.celestial_body_id;
+    if (!entries.has(id)) {
+      entries.set(id, entry);
+      result.added.push(entry);
+    } else if (strategy === 'replace') {
+      entries.set(id, entry);
+      result.replaced.push(entry);
+    } else if (strategy === 'keep-both') {
+      const newId = uniqueId(id, entries);
+      const copy = {
+        ...entry,
+        planet: {...entry.planet, celestial_body_id: newId},
+      };
+      entries.set(newId, copy);
+      result.added.push(copy);
+    } else {
+      result.skipped.push(entry);
+    }
+  }
+  return result;
+}
+
+export function countDuplicateEntries(
+  existing: Map<string, CatalogEntry>,
+  imported: CatalogEntry[],
+) {
+  return imported.filter((entry) =>
+    existing.has(entry.planet.celestial_body_id),
+  ).length;
+}
+
+const CSV_HEADER = [
+  'celestial_body_id',
+  'planetName',
+  'starSystem',
+  'starType',
+  'distanceLightYears',
+  'planetType',
+  'atmosphericComposition',
+  'surfaceFeatures',
+  'keyFeatures',
+  'aiWhisper',
+  'color1',
+  'color2',
+  'atmosphereColor',
+  'hasRings',
+  'prompt',
+  'discoveredAt',
+];
+
+export function exportCatalogCsv(entries: CatalogEntry[]): string {
+  return toCsv(
+    CSV_HEADER,
+    entries.map(({planet, prompt, createdAt}) => [
+      planet.celestial_body_id,
+      planet.planetName,
+      planet.starSystem,
+      planet.starType,
+      planet.distanceLightYears,
+      planet.planetType,
+      planet.atmosphericComposition,
+      planet.surfaceFeatures,
+      planet.keyFeatures.join('; '),
+      planet.aiWhisper,
+      planet.visualization.color1,
+      planet.visualization.color2,
+      planet.visualization.atmosphereColor,
+      planet.visualization.hasRings,
+      prompt,
+      new Date(createdAt).toISOString(),
+    ]),
+  );
+}
+
+interface VoTableField {
+  name: string;
+  datatype: 'char' | 'double' | 'boolean';
+  ucd: string;
+  unit?: string;
+  description: string;
+  value: (entry: CatalogEntry) => string | number | boolean;
+}
+
+const VOTABLE_FIELDS: VoTableField[] = [
+  {
+    name: 'celestial_body_id',
+    datatype: 'char',
+    ucd: 'meta.id;meta.main',
+    description: 'AXEE catalog identifier',
+    value: ({planet}) => planet.celestial_body_id,
+  },
+  {
+    name: 'planet_name',
+    datatype: 'char',
+    ucd: 'meta.id',
+    description: 'Planet name',
+    value: ({planet}) => planet.planetName,
+  },
+  {
+    name: 'star_system',
+    datatype: 'char',
+    ucd: 'meta.id.parent',
+    description: 'Host star system',
+    value: ({planet}) => planet.starSystem,
+  },
+  {
+    name: 'star_type',
+    datatype: 'char',
+    ucd: 'src.spType',
+    description: 'Spectral type of the host star',
+    value: ({planet}) => planet.starType,
+  },
+  {
+    name: 'distance',
+    datatype: 'double',
+    ucd: 'pos.distance',
+    unit: 'lyr',
+    description: 'Distance from the Sun',
+    value: ({planet}) => planet.distanceLightYears,
+  },
+  {
+    name: 'planet_type',
+    datatype: 'char',
+    ucd: 'src.class',
+    description: 'Planet classification',
+    value: ({planet}) => planet.planetType,
+  },
+  {
+    name: 'atmosphere',
+    datatype: 'char',
+    ucd: 'phys.composition',
+    description: 'Atmospheric composition',
+    value: ({planet}) => planet.atmosphericComposition,
+  },
+  {
+    name: 'has_rings',
+    datatype: 'boolean',
+    ucd: 'meta.code',
+    description: 'Whether the planet has a ring system',
+    value: ({planet}) => planet.visualization.hasRings,
+  },
+];
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Serializes the catalog as an IVOA VOTable 1.4 document. */
+export function exportCatalogVoTable(entries: CatalogEntry[]): string {
+  const fields = VOTABLE_FIELDS.map((field) => {
+    const attributes = [
+      `name="${field.name}"`,
+      `datatype="${field.datatype}"`,
+      field.datatype === 'char' ? 'arraysize="*"' : '',
+      `ucd="${field.ucd}"`,
+      field.unit ? `unit="${field.unit}"` : '',
+    ].filter(Boolean);
+    return `      <FIELD ${attributes.join(' ')}>
+        <DESCRIPTION>${escapeXml(field.description)}</DESCRIPTION>
+      </FIELD>`;
+  });
+  const rows = entries.map(
+    (entry) =>
+      `          <TR>${VOTABLE_FIELDS.map(
+        (field) => `<TD>${escapeXml(String(field.value(entry)))}</TD>`,
+      ).join('')}</TR>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<VOTABLE version="1.4" xmlns="http://www.ivoa.net/xml/VOTable/v1.3">
+  <RESOURCE name="AXEE">
+    <DESCRIPTION>Exoplanets synthesized by AURELION's Exoplanet Synthesis Engine</DESCRIPTION>
+    <TABLE name="discovery_log" nrows="${entries.length}">
+${fields.join('\n')}
+      <DATA>
+        <TABLEDATA>
+${rows.join('\n')}
+        </TABLEDATA>
+      </DATA>
+    </TABLE>
+  </RESOURCE>
+</VOTABLE>
+`;
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {CATALOG_SCHEMA_VERSION, migrateCatalogEntry} from './catalog-store';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+
+const planet = new ProceduralSynthesisProvider(7).generate('a ringed giant');
+const chunks = [{web: {uri: 'https://example.org', title: 'Example'}}];
+
+describe('migrateCatalogEntry', () => {
+  it('moves v1 grounding chunks into the v2 grounding block', () => {
+    const entry = migrateCatalogEntry({
+      planet,
+      prompt: 'a ringed giant',
+      createdAt: 1700000000000,
+      groundingChunks: chunks,
+    });
+    expect(entry).toEqual({
+      schemaVersion: CATALOG_SCHEMA_VERSION,
+      planet,
+      prompt: 'a ringed giant',
+      createdAt: 1700000000000,
+      grounding: {chunks, webSearchQueries: [], supports: []},
+    });
+  });
+
+  it('treats a malformed v1 source list as empty', () => {
+    const entry = migrateCatalogEntry({
+      schemaVersion: 1,
+      planet,
+      prompt: '',
+      createdAt: 0,
+      groundingChunks: 'none',
+    });
+    expect(entry.grounding.chunks).toEqual([]);
+  });
+
+  it('rejects records it cannot read', () => {
+    const current = {
+      schemaVersion: CATALOG_SCHEMA_VERSION,
+      planet,
+      prompt: '',
+      createdAt: 0,
+      grounding: {chunks: [], webSearchQueries: [], supports: []},
+    };
+    expect(() => migrateCatalogEntry(null)).toThrow(/not an object/);
+    expect(() => migrateCatalogEntry({...current, schemaVersion: 99})).toThrow(
+      /newer than supported/,
+    );
+    expect(() => migrateCatalogEntry({...current, schemaVersion: '2'})).toThrow(
+      /invalid schema version/,
+    );
+    expect(() => migrateCatalogEntry({...current, planet: 'Kepler'})).toThrow(
+      /no planet/,
+    );
+    expect(() => migrateCatalogEntry({...current, createdAt: 'today'})).toThrow(
+      /createdAt/,
+    );
+    expect(() => migrateCatalogEntry({...current, grounding: {}})).toThrow(
+      /grounding/,
+    );
+  });
+});
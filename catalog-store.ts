@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {webSourceUri} from './grounding';
+import {
+  GroundingChunk,
+  GroundingSupport,
+  PlanetData,
+  PlanetGrounding,
+} from './planet-model';
+
+/**
+ * Version of the stored entry shape. Bump it whenever CatalogEntry or
+ * PlanetData changes in a way old records don't satisfy, and register a
+ * migration from the previous version below.
+ */
+export const CATALOG_SCHEMA_VERSION = 2;
+
+export interface CatalogEntry {
+  schemaVersion: number;
+  planet: PlanetData;
+  prompt: string;
+  createdAt: number; // Epoch milliseconds
+  grounding: PlanetGrounding;
+}
+
+type StoredRecord = Record<string, unknown>;
+
+// Each migration upgrades a record from `version` to `version + 1`.
+type CatalogMigration = (entry: StoredRecord) => StoredRecord;
+
+const MIGRATIONS: Record<number, CatalogMigration> = {
+  // v1 kept only the source list; v2 adds search queries and text supports.
+  1: ({groundingChunks, ...entry}) => ({
+    ...entry,
+    grounding: {
+      chunks: Array.isArray(groundingChunks) ? groundingChunks : [],
+      webSearchQueries: [],
+      supports: [],
+    },
+  }),
+};
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown) {
+  return value === undefined || typeof value === 'string';
+}
+
+function readChunk(chunk: unknown): GroundingChunk | null {
+  if (!isRecord(chunk)) return null;
+  const {web} = chunk;
+  if (web === undefined) return {};
+  if (
+    !isRecord(web) ||
+    !isOptionalString(web.uri) ||
+    !isOptionalString(web.title)
+  ) {
+    return null;
+  }
+  // A source that is not an http(s) link keeps its title but loses the link.
+  return {web: {uri: webSourceUri(web.uri), title: web.title as string}};
+}
+
+function readSupport(support: unknown): GroundingSupport | null {
+  if (!isRecord(support)) return null;
+  const {segment, groundingChunkIndices: indices = []} = support;
+  if (
+    segment !== undefined &&
+    !(isRecord(segment) && isOptionalString(segment.text))
+  ) {
+    return null;
+  }
+  if (
+    !Array.isArray(indices) ||
+    !indices.every((index) => Number.isInteger(index) && index >= 0)
+  ) {
+    return null;
+  }
+  return {
+    segment: isRecord(segment) ? {text: segment.text as string} : undefined,
+    groundingChunkIndices: indices,
+  };
+}
+
+/**
+ * Checks grounding from storage or an imported file down to each source,
+ * query and citation, since the details panel renders them as links.
+ */
+function readGrounding(value: unknown): PlanetGrounding {
+  if (
+    !isRecord(value) ||
+    !Array.isArray(value.chunks) ||
+    !Array.isArray(value.webSearchQueries) ||
+    !Array.isArray(value.supports)
+  ) {
+    throw new Error('Catalog entry grounding is malformed.');
+  }
+  const chunks = value.chunks.map(readChunk);
+  if (chunks.includes(null)) {
+    throw new Error('Catalog entry grounding has a malformed source.');
+  }
+  const {webSearchQueries} = value;
+  if (!webSearchQueries.every((query) => typeof query === 'string')) {
+    throw new Error('Catalog entry grounding has a malformed search query.');
+  }
+  const supports = value.supports.map(readSupport);
+  if (supports.includes(null)) {
+    throw new Error('Catalog entry grounding has a malformed citation.');
+  }
+  return {chunks, webSearchQueries, supports};
+}
+
+/**
+ * Brings a stored record of any known version up to the current schema.
+ * Only the entry's own fields are checked; the planet is validated by
+ * whoever reads it from an untrusted source.
+ */
+export function migrateCatalogEntry(raw: unknown): CatalogEntry {
+  if (!isRecord(raw)) {
+    throw new Error('Catalog entry is not an object.');
+  }
+  let entry = raw;
+  let version = raw.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new Error('Catalog entry has an invalid schema version.');
+  }
+  if (version > CATALOG_SCHEMA_VERSION) {
+    throw new Error(
+      `Catalog entry schema v${version} is newer than supported v${CATALOG_SCHEMA_VERSION}.`,
+    );
+  }
+  while (version < CATALOG_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No catalog migration from schema v${version}.`);
+    }
+    entry = migrate(entry);
+    version++;
+  }
+
+  const {planet, prompt, createdAt, grounding} = entry;
+  if (!isRecord(planet)) {
+    throw new Error('Catalog entry has no planet.');
+  }
+  if (typeof prompt !== 'string') {
+    throw new Error('Catalog entry prompt must be a string.');
+  }
+  if (typeof createdAt !== 'number' || !Number.isFinite(createdAt)) {
+    throw new Error('Catalog entry createdAt must be a timestamp.');
+  }
+  return {
+    schemaVersion: CATALOG_SCHEMA_VERSION,
+    planet: planet as unknown as PlanetData,
+    prompt,
+    createdAt,
+    grounding: readGrounding(grounding),
+  };
+}
+
+export function createCatalogEntry(
+  planet: PlanetData,
+  prompt: string,
+  grounding: PlanetGrounding,
+): CatalogEntry {
+  return {
+    schemaVersion: CATALOG_SCHEMA_VERSION,
+    planet,
+    prompt,
+    createdAt: Date.now(),
+    grounding,
+  };
+}
+
+const DB_NAME = 'axee-catalog';
+const DB_VERSION = 1;
+const PLANET_STORE = 'planets';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed persistence for the Discovery Log. Entries are keyed by
+ * the planet's `celestial_body_id`.
+ */
+export class CatalogStore {
+  private constructor(private db: IDBDatabase) {}
+
+  static open(name = DB_NAME): Promise<CatalogStore> {
+    return new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+      }
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PLANET_STORE)) {
+          db.createObjectStore(PLANET_STORE, {
+            keyPath: 'planet.celestial_body_id',
+          });
+        }
+      };
+      request.onsuccess = () => resolve(new CatalogStore(request.result));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Returns every entry, oldest first, migrating stale records in place. */
+  async list(): Promise<CatalogEntry[]> {
+    const raw = await promisify(
+      this.db
+        .transaction(PLANET_STORE, 'readonly')
+        .objectStore(PLANET_STORE)
+        .getAll(),
+    );
+    const entries: CatalogEntry[] = [];
+    for (const record of raw) {
+      try {
+        const entry = migrateCatalogEntry(record);
+        if (record.schemaVersion !== entry.schemaVersion) {
+          await this.put(entry);
+        }
+        entries.push(entry);
+      } catch (e) {
+        console.error('Skipping unreadable catalog entry:', e, record);
+      }
+    }
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async put(entry: CatalogEntry): Promise<void> {
+    await promisify(
+      this.db
+        .transaction(PLANET_STORE, 'readwrite')
+        .objectStore(PLANET_STORE)
+        .put(entry),
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await promisify(
+      this.db
+        .transaction(PLANET_STORE, 'readwrite')
+        .objectStore(PLANET_STORE)
+        .delete(id),
+    );
+  }
+
+  async rename(id: string, planetName: string): Promise<CatalogEntry> {
+    const record = await promisify(
+      this.db
+        .transaction(PLANET_STORE, 'readonly')
+        .objectStore(PLANET_STORE)
+        .get(id),
+    );
+    if (!record) {
+      throw new Error(`No catalog entry with id ${id}.`);
+    }
+    const entry = migrateCatalogEntry(record);
+    const renamed = {...entry, planet: {...entry.planet, planetName}};
+    await this.put(renamed);
+    return renamed;
+  }
+
+  close() {
+    this.db.close();
+  }
+}
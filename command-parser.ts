@@ -0,0 +1,313 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {CatalogExportFormat} from './catalog-export';
+import {PlanetData} from './planet-model';
+import {
+  FILTER_FIELD_NAMES,
+  FilterCondition,
+  FilterSyntaxError,
+  parseFilterCondition,
+} from './planet-filter';
+
+export type Command =
+  | {name: 'synthesize'; prompt: string}
+  | {name: 'help'; topic: string | null}
+  | {name: 'select'; target: string}
+  | {name: 'compare'; targets: string[]}
+  | {name: 'filter'; conditions: FilterCondition[]}
+  | {name: 'export'; format: CatalogExportFormat}
+  | {name: 'pause'}
+  | {name: 'resume'}
+  | {name: 'forget'; target: string}
+  | {name: 'seed'; seed: number}
+  | {name: 'stats'};
+
+export type CommandName = Exclude<Command['name'], 'synthesize'>;
+
+export class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandParseError';
+  }
+}
+
+interface CommandSpec {
+  name: CommandName;
+  usage: string;
+  description: string;
+  // Whether arguments are planet names, for tab completion.
+  takesPlanets: boolean;
+}
+
+export const COMMANDS: CommandSpec[] = [
+  {
+    name: 'help',
+    usage: '/help [command]',
+    description: 'List commands, or explain one.',
+    takesPlanets: false,
+  },
+  {
+    name: 'select',
+    usage: '/select <planet>',
+    description: 'Fly to a catalogued planet.',
+    takesPlanets: true,
+  },
+  {
+    name: 'compare',
+    usage: '/compare <planet> <planet> [...]',
+    description: 'Compare two to four planets side by side.',
+    takesPlanets: true,
+  },
+  {
+    name: 'filter',
+    usage: '/filter [field<op>value ...]',
+    description: `Show only matching planets, e.g. type=gas distance<100. Fields: ${FILTER_FIELD_NAMES.join(', ')}. No conditions clears the filter.`,
+    takesPlanets: false,
+  },
+  {
+    name: 'export',
+    usage: '/export <json|csv|votable>',
+    description: 'Download the catalog.',
+    takesPlanets: false,
+  },
+  {
+    name: 'pause',
+    usage: '/pause',
+    description: 'Pause autonomous discovery.',
+    takesPlanets: false,
+  },
+  {
+    name: 'resume',
+    usage: '/resume',
+    description: 'Resume autonomous discovery.',
+    takesPlanets: false,
+  },
+  {
+    name: 'forget',
+    usage: '/forget <planet>',
+    description: 'Remove a planet from the catalog.',
+    takesPlanets: true,
+  },
+  {
+    name: 'seed',
+    usage: '/seed <number>',
+    description: 'Reseed the offline generator for reproducible worlds.',
+    takesPlanets: false,
+  },
+  {
+    name: 'stats',
+    usage: '/stats',
+    description: 'Toggle the rendering performance overlay.',
+    takesPlanets: false,
+  },
+];
+
+const EXPORT_FORMATS: CatalogExportFormat[] = ['json', 'csv', 'votable'];
+export const MAX_COMPARED = 4;
+
+/** Splits on whitespace, keeping "quoted phrases" together. */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+  let inToken = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+      inToken = true;
+    } else if (/\s/.test(char) && !quoted) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+  if (quoted) throw new CommandParseError('Unclosed quote.');
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+function specFor(name: string) {
+  return COMMANDS.find((command) => command.name === name.toLowerCase());
+}
+
+function usageError(spec: CommandSpec) {
+  return new CommandParseError(`Usage: ${spec.usage}`);
+}
+
+/**
+ * Parses a line from the command bar. Lines that don't start with `/` are
+ * world descriptions to synthesize.
+ */
+export function parseCommand(input: string): Command {
+  const line = input.trim();
+  if (!line.startsWith('/')) return {name: 'synthesize', prompt: line};
+
+  const [head, ...args] = tokenize(line.slice(1));
+  const spec = specFor(head ?? '');
+  if (!spec) {
+    throw new CommandParseError(
+      `Unknown command "/${head ?? ''}". Type /help for a list.`,
+    );
+  }
+
+  switch (spec.name) {
+    case 'help':
+      return {name: 'help', topic: args[0]?.replace(/^\//, '') ?? null};
+    case 'select':
+    case 'forget':
+      if (args.length === 0) throw usageError(spec);
+      return {name: spec.name, target: args.join(' ')};
+    case 'compare':
+      if (args.length < 2 || args.length > MAX_COMPARED) {
+        throw usageError(spec);
+      }
+      return {name: 'compare', targets: args};
+    case 'filter':
+      try {
+        return {name: 'filter', conditions: args.map(parseFilterCondition)};
+      } catch (e) {
+        if (e instanceof FilterSyntaxError) {
+          throw new CommandParseError(e.message);
+        }
+        throw e;
+      }
+    case 'export': {
+      const format = args[0]?.toLowerCase() as CatalogExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) throw usageError(spec);
+      return {name: 'export', format};
+    }
+    case 'seed': {
+      const seed = Number(args[0]);
+      if (args.length !== 1 || !Number.isInteger(seed)) throw usageError(spec);
+      return {name: 'seed', seed};
+    }
+    case 'pause':
+    case 'resume':
+    case 'stats':
+      return {name: spec.name};
+  }
+}
+
+export function helpText(topic: string | null = null): string[] {
+  if (topic) {
+    const spec = specFor(topic);
+    if (!spec) return [`Unknown command "/${topic}".`];
+    return [spec.usage, spec.description];
+  }
+  return [
+    'Describe a world to synthesize it, or use a command:',
+    ...COMMANDS.map((spec) => `${spec.usage} — ${spec.description}`),
+    'Quote names with spaces: /compare "Kepler Prime" Zephyr',
+  ];
+}
+
+/**
+ * Planets whose name matches `query`: an exact (case-insensitive) match if
+ * there is one, otherwise every planet whose name starts with or contains it.
+ */
+export function matchPlanets(
+  planets: PlanetData[],
+  query: string,
+): PlanetData[] {
+  const needle = query.trim().toLowerCase();
+  const exact = planets.filter(
+    (planet) =>
+      planet.planetName.toLowerCase() === needle ||
+      planet.celestial_body_id.toLowerCase() === needle,
+  );
+  if (exact.length > 0) return exact;
+  const prefixed = planets.filter((planet) =>
+    planet.planetName.toLowerCase().startsWith(needle),
+  );
+  if (prefixed.length > 0) return prefixed;
+  return planets.filter((planet) =>
+    planet.planetName.toLowerCase().includes(needle),
+  );
+}
+
+function commonPrefix(values: string[]) {
+  let prefix = values[0] ?? '';
+  for (const value of values) {
+    while (!value.toLowerCase().startsWith(prefix.toLowerCase())) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+}
+
+function quoteIfNeeded(name: string) {
+  return /\s/.test(name) ? `"${name}"` : name;
+}
+
+/**
+ * Tab completion for the command bar: completes the command name, then planet
+ * names for commands that take them. Returns the input unchanged when nothing
+ * matches, and extends to the longest shared prefix when several do.
+ */
+export function completeCommand(input: string, planetNames: string[]): string {
+  if (!input.startsWith('/')) return input;
+
+  const commandMatch = /^\/(\S*)$/.exec(input);
+  if (commandMatch) {
+    const names = COMMANDS.map((spec) => spec.name).filter((name) =>
+      name.startsWith(commandMatch[1].toLowerCase()),
+    );
+    if (names.length === 1) return `/${names[0]} `;
+    return names.length > 1 ? `/${commonPrefix(names)}` : input;
+  }
+
+  const spec = specFor(input.slice(1).split(/\s/, 1)[0]);
+  if (!spec?.takesPlanets) return input;
+  // The word being typed: an open quote, or text after the last space.
+  const partial = /(?:"([^"]*)|(\S*))$/.exec(input)!;
+  const typed = partial[1] ?? partial[2] ?? '';
+  const before = input.slice(0, input.length - partial[0].length);
+  const matches = planetNames.filter((name) =>
+    name.toLowerCase().startsWith(typed.toLowerCase()),
+  );
+  if (matches.length === 1) return `${before}${quoteIfNeeded(matches[0])} `;
+  if (matches.length > 1) {
+    const prefix = commonPrefix(matches);
+    return prefix.length > typed.length
+      ? `${before}${/\s/.test(prefix) ? `"${prefix}` : prefix}`
+      : input;
+  }
+  return input;
+}
+
+const SPOKEN_COMMAND = /^(?:slash|command)\s+(\w+)(.*)$/i;
+const SPOKEN_BARE_COMMANDS = ['pause', 'resume', 'help'];
+
+/**
+ * Maps a voice transcript onto command-bar syntax. Commands are spoken with
+ * a leading "slash" or "command" ("slash select Kepler Prime", "command
+ * compare Kepler Prime and Zephyr"); the
+ * argument-free commands also work on their own ("pause"). Anything else is
+ * left as a world description.
+ */
+export function spokenToCommand(transcript: string): string {
+  const text = transcript.trim().replace(/[.!?]+$/, '');
+  const spoken = SPOKEN_COMMAND.exec(text);
+  if (spoken && specFor(spoken[1])) {
+    const name = spoken[1].toLowerCase();
+    if (name === 'compare') {
+      // "compare Kepler Prime and Zephyr" names planets, not words.
+      const names = spoken[2].trim().split(/\s*(?:,|\band\b|\bwith\b)\s*/i);
+      return `/compare ${names
+        .filter(Boolean)
+        .map((n) => `"${n}"`)
+        .join(' ')}`;
+    }
+    return `/${name}${spoken[2]}`;
+  }
+  if (SPOKEN_BARE_COMMANDS.includes(text.toLowerCase())) {
+    return `/${text.toLowerCase()}`;
+  }
+  return text;
+}
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+  DiscoveredWorld,
+  DiscoveryScheduler,
+  DiscoverySchedulerOptions,
+  continuationPrompt,
+} from './discovery-scheduler';
+
+const CADENCE_MS = 1000;
+
+function world(index: number): DiscoveredWorld {
+  return {
+    planetName: `World ${index}`,
+    planetType: 'Super-Earth',
+    starSystem: 'Kepler-22',
+  };
+}
+
+/**
+ * A discover() stub whose syntheses stay in flight until the test settles
+ * them, so it can observe the scheduler between start and finish.
+ */
+function pendingDiscover() {
+  const pending: ((world: DiscoveredWorld | null) => void)[] = [];
+  const discover = vi.fn(
+    (_prompt: string) =>
+      new Promise<DiscoveredWorld | null>((resolve) => pending.push(resolve)),
+  );
+  const settle = async (result: DiscoveredWorld | null) => {
+    pending.shift()!(result);
+    // Let the scheduler's await continue.
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return {discover, settle, pending};
+}
+
+function createScheduler(options: Partial<DiscoverySchedulerOptions> = {}) {
+  // The default timers read the global clock, which vitest fakes.
+  return new DiscoveryScheduler({
+    discover: async () => world(0),
+    cadenceMs: CADENCE_MS,
+    ...options,
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('DiscoveryScheduler', () => {
+  it('runs the seed prompt at once, then continuations at the cadence', async () => {
+    let count = 0;
+    const discover = vi.fn(async () => world(++count));
+    const scheduler = createScheduler({discover, maxDiscoveries: 3});
+    scheduler.start('ocean worlds');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(discover).toHaveBeenCalledTimes(1);
+    expect(discover).toHaveBeenLastCalledWith('ocean worlds');
+
+    await vi.advanceTimersByTimeAsync(CADENCE_MS - 1);
+    expect(discover).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(discover).toHaveBeenCalledTimes(2);
+    expect(discover).toHaveBeenLastCalledWith(
+      continuationPrompt('ocean worlds', [world(1)], 1),
+    );
+    expect(scheduler.snapshot).toMatchObject({
+      state: 'running',
+      discoveries: 2,
+      nextRunAt: Date.now() + CADENCE_MS,
+    });
+  });
+
+  it('pauses and resumes with the remaining wait', async () => {
+    const discover = vi.fn(async () => world(1));
+    const scheduler = createScheduler({discover});
+    scheduler.start('deserts');
+    await vi.advanceTimersByTimeAsync(400);
+    scheduler.pause();
+    expect(scheduler.snapshot).toMatchObject({
+      state: 'paused',
+      nextRunAt: null,
+    });
+
+    await vi.advanceTimersByTimeAsync(10 * CADENCE_MS);
+    expect(discover).toHaveBeenCalledTimes(1);
+
+    scheduler.resume();
+    expect(scheduler.snapshot.nextRunAt).toBe(Date.now() + 600);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(discover).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits a full cadence after a synthesis that settled while paused', async () => {
+    const {discover, settle} = pendingDiscover();
+    const scheduler = createScheduler({discover});
+    scheduler.start('moons');
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.pause();
+    await settle(world(1));
+    expect(scheduler.snapshot).toMatchObject({
+      state: 'paused',
+      discoveries: 1,
+      inFlight: false,
+    });
+
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(CADENCE_MS);
+    expect(discover).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops for good', async () => {
+    const discover = vi.fn(async () => world(1));
+    const onChange = vi.fn();
+    const scheduler = createScheduler({discover, onChange});
+    scheduler.start('ice giants');
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({state: 'stopped', nextRunAt: null}),
+    );
+
+    await vi.advanceTimersByTimeAsync(10 * CADENCE_MS);
+    expect(discover).toHaveBeenCalledTimes(1);
+    scheduler.resume();
+    expect(scheduler.snapshot.state).toBe('stopped');
+  });
+
+  it('never has more than one synthesis in flight', async () => {
+    const {discover, settle, pending} = pendingDiscover();
+    const scheduler = createScheduler({discover});
+    scheduler.start('lava worlds');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.snapshot.inFlight).toBe(true);
+
+    // A slow synthesis holds back the next one however long it takes.
+    await vi.advanceTimersByTimeAsync(10 * CADENCE_MS);
+    expect(discover).toHaveBeenCalledTimes(1);
+
+    // Restarting mid-flight waits for the old synthesis to settle.
+    scheduler.start('lava worlds');
+    await vi.advanceTimersByTimeAsync(CADENCE_MS);
+    expect(pending).toHaveLength(1);
+    await settle(world(1));
+    expect(discover).toHaveBeenCalledTimes(2);
+    expect(scheduler.snapshot.discoveries).toBe(0);
+  });
+
+  it('completes at the discovery cap', async () => {
+    const discover = vi.fn(async () => world(1));
+    const scheduler = createScheduler({discover, maxDiscoveries: 2});
+    scheduler.start('rogue planets');
+    await vi.advanceTimersByTimeAsync(5 * CADENCE_MS);
+    expect(discover).toHaveBeenCalledTimes(2);
+    expect(scheduler.snapshot).toMatchObject({
+      state: 'complete',
+      discoveries: 2,
+      nextRunAt: null,
+    });
+  });
+
+  it('completes when the cap is lowered below the count', async () => {
+    const scheduler = createScheduler({maxDiscoveries: 5});
+    scheduler.start('rogue planets');
+    await vi.advanceTimersByTimeAsync(CADENCE_MS);
+    expect(scheduler.snapshot.discoveries).toBe(2);
+    scheduler.configure({maxDiscoveries: 2});
+    expect(scheduler.snapshot.state).toBe('complete');
+  });
+
+  it('backs off exponentially after failures, up to a limit', async () => {
+    const {discover, settle} = pendingDiscover();
+    const scheduler = createScheduler({discover, maxBackoffMs: 5000});
+    scheduler.start('hot Jupiters');
+    await vi.advanceTimersByTimeAsync(0);
+
+    const delays: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      await settle(null);
+      delays.push(scheduler.snapshot.nextRunAt! - Date.now());
+      await vi.advanceTimersByTimeAsync(delays[i]);
+    }
+    expect(delays).toEqual([2000, 4000, 5000, 5000]);
+    expect(scheduler.snapshot.consecutiveFailures).toBe(4);
+
+    // A success resets the backoff.
+    await settle(world(1));
+    expect(scheduler.snapshot.consecutiveFailures).toBe(0);
+    expect(scheduler.snapshot.nextRunAt! - Date.now()).toBe(CADENCE_MS);
+  });
+
+  it('treats a thrown synthesis as a failure', async () => {
+    const discover = vi.fn(async () => {
+      throw new Error('quota exceeded');
+    });
+    const scheduler = createScheduler({discover});
+    scheduler.start('carbon worlds');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.snapshot).toMatchObject({
+      state: 'running',
+      consecutiveFailures: 1,
+      nextRunAt: Date.now() + 2 * CADENCE_MS,
+    });
+  });
+
+  it('ignores a synthesis that settles after stopping', async () => {
+    const {discover, settle} = pendingDiscover();
+    const onChange = vi.fn();
+    const scheduler = createScheduler({discover, onChange});
+    scheduler.start('ring worlds');
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+    await settle(world(1));
+    expect(scheduler.snapshot).toMatchObject({
+      state: 'stopped',
+      discoveries: 0,
+      inFlight: false,
+      nextRunAt: null,
+    });
+    expect(onChange).toHaveBeenLastCalledWith(scheduler.snapshot);
+  });
+
+  it('ignores failures from a run that was stopped', async () => {
+    const {discover, settle} = pendingDiscover();
+    const scheduler = createScheduler({discover});
+    scheduler.start('ring worlds');
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+    await settle(null);
+    expect(scheduler.snapshot.consecutiveFailures).toBe(0);
+  });
+});
+
+describe('continuationPrompt', () => {
+  it('starts from the seed and then builds on found worlds', () => {
+    expect(continuationPrompt('jungle moons', [], 0)).toBe('jungle moons');
+    const found = [world(1), world(2)];
+    const prompts = [1, 2, 3].map((index) =>
+      continuationPrompt('jungle moons', found, index),
+    );
+    expect(new Set(prompts).size).toBe(3);
+    for (const prompt of prompts) expect(prompt).toContain('jungle moons');
+    expect(prompts[0]).toContain('Kepler-22');
+    expect(prompts[1]).toContain('World 1 (Super-Earth), World 2');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData} from './planet-model';
+
+export type DiscoveryState =
+  'idle' | 'running' | 'paused' | 'stopped' | 'complete';
+
+export type DiscoveredWorld = Pick<
+  PlanetData,
+  'planetName' | 'planetType' | 'starSystem'
+>;
+
+/** Timer functions, injectable so tests can drive the clock. */
+export interface SchedulerTimers {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+  now(): number;
+}
+
+export interface DiscoverySchedulerOptions {
+  /** Runs one synthesis; resolves to the new world, or null if it failed. */
+  discover: (prompt: string) => Promise<DiscoveredWorld | null>;
+  cadenceMs?: number;
+  maxDiscoveries?: number;
+  maxBackoffMs?: number;
+  timers?: SchedulerTimers;
+  onChange?: (snapshot: DiscoverySnapshot) => void;
+}
+
+export interface DiscoverySnapshot {
+  state: DiscoveryState;
+  discoveries: number;
+  maxDiscoveries: number;
+  cadenceMs: number;
+  consecutiveFailures: number;
+  inFlight: boolean;
+  /** When the next synthesis starts, in `timers.now()` time; null if none. */
+  nextRunAt: number | null;
+}
+
+export const DEFAULT_TIMERS: SchedulerTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as number),
+  now: () => Date.now(),
+};
+
+// How many of the latest worlds a continuation prompt mentions.
+const RECENT_WORLDS = 3;
+
+/**
+ * Builds the prompt for the `index`-th autonomous discovery (1-based) so the
+ * run keeps to the user's seed theme while steering away from worlds it
+ * already found.
+ */
+export function continuationPrompt(
+  seedPrompt: string,
+  found: DiscoveredWorld[],
+  index: number,
+): string {
+  const last = found[found.length - 1];
+  if (!last) return seedPrompt;
+  const recent = found
+    .slice(-RECENT_WORLDS)
+    .map((world) => `${world.planetName} (${world.planetType})`)
+    .join(', ');
+
+  switch (index % 3) {
+    case 0:
+      return `Another world in the spirit of "${seedPrompt}", clearly different from ${recent}.`;
+    case 1:
+      return `A sibling world in the ${last.starSystem} system, neighbour of ${last.planetName}, still evoking "${seedPrompt}".`;
+    default:
+      return `A world that contrasts with ${recent} while keeping the theme "${seedPrompt}", around a different kind of star.`;
+  }
+}
+
+/**
+ * Runs autonomous discovery: synthesizes the seed prompt immediately, then a
+ * themed continuation every `cadenceMs` until `maxDiscoveries` is reached.
+ * The next synthesis is only scheduled once the previous one settles, so at
+ * most one is ever in flight. Failures back off exponentially.
+ */
+export class DiscoveryScheduler {
+  private discover: DiscoverySchedulerOptions['discover'];
+  private timers: SchedulerTimers;
+  private onChange?: (snapshot: DiscoverySnapshot) => void;
+  private cadenceMs: number;
+  private maxDiscoveries: number;
+  private maxBackoffMs: number;
+
+  private state: DiscoveryState = 'idle';
+  private seedPrompt = '';
+  private found: DiscoveredWorld[] = [];
+  private consecutiveFailures = 0;
+  private inFlight = false;
+  private timer: unknown = null;
+  private nextRunAt: number | null = null;
+  // Remaining delay when paused during a wait, so resume keeps the rhythm.
+  private remainingMs: number | null = null;
+  // Bumped on every start and stop so results from an earlier run, or ones
+  // that settle after stopping, are not counted.
+  private generation = 0;
+
+  constructor(options: DiscoverySchedulerOptions) {
+    this.discover = options.discover;
+    this.timers = options.timers ?? DEFAULT_TIMERS;
+    this.onChange = options.onChange;
+    this.cadenceMs = options.cadenceMs ?? 20000;
+    this.maxDiscoveries = options.maxDiscoveries ?? 10;
+    this.maxBackoffMs = options.maxBackoffMs ?? 5 * 60 * 1000;
+  }
+
+  get snapshot(): DiscoverySnapshot {
+    return {
+      state: this.state,
+      discoveries: this.found.length,
+      maxDiscoveries: this.maxDiscoveries,
+      cadenceMs: this.cadenceMs,
+      consecutiveFailures: this.consecutiveFailures,
+      inFlight: this.inFlight,
+      nextRunAt: this.nextRunAt,
+    };
+  }
+
+  configure({
+    cadenceMs,
+    maxDiscoveries,
+  }: {
+    cadenceMs?: number;
+    maxDiscoveries?: number;
+  }) {
+    if (cadenceMs !== undefined) this.cadenceMs = Math.max(cadenceMs, 0);
+    if (maxDiscoveries !== undefined) {
+      this.maxDiscoveries = Math.max(maxDiscoveries, 1);
+      if (this.state === 'running' && this.isCapped()) this.finish();
+    }
+    this.notify();
+  }
+
+  start(seedPrompt: string) {
+    this.clearTimer();
+    this.generation++;
+    this.seedPrompt = seedPrompt;
+    this.found = [];
+    this.consecutiveFailures = 0;
+    this.remainingMs = null;
+    this.state = 'running';
+    this.schedule(0);
+  }
+
+  pause() {
+    if (this.state !== 'running') return;
+    if (this.nextRunAt !== null) {
+      this.remainingMs = Math.max(this.nextRunAt - this.timers.now(), 0);
+    }
+    this.clearTimer();
+    this.state = 'paused';
+    this.notify();
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.state = 'running';
+    // A synthesis that settled while paused left nothing scheduled.
+    const delay = this.remainingMs ?? (this.inFlight ? null : this.cadenceMs);
+    this.remainingMs = null;
+    if (delay === null) this.notify();
+    else this.schedule(delay);
+  }
+
+  stop() {
+    if (this.state === 'idle' || this.state === 'stopped') return;
+    this.clearTimer();
+    this.generation++;
+    this.remainingMs = null;
+    this.state = 'stopped';
+    this.notify();
+  }
+
+  private isCapped() {
+    return this.found.length >= this.maxDiscoveries;
+  }
+
+  private finish() {
+    this.clearTimer();
+    this.state = 'complete';
+  }
+
+  private schedule(delayMs: number) {
+    this.clearTimer();
+    this.nextRunAt = this.timers.now() + delayMs;
+    this.timer = this.timers.setTimeout(() => {
+      this.timer = null;
+      this.nextRunAt = null;
+      this.run();
+    }, delayMs);
+    this.notify();
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) this.timers.clearTimeout(this.timer);
+    this.timer = null;
+    this.nextRunAt = null;
+  }
+
+  private async run() {
+    // The previous run's synthesis reschedules once it settles.
+    if (this.inFlight || this.state !== 'running') return;
+    const generation = this.generation;
+    const prompt =
+      this.found.length === 0
+        ? this.seedPrompt
+        : continuationPrompt(this.seedPrompt, this.found, this.found.length);
+
+    this.inFlight = true;
+    this.notify();
+    let world: DiscoveredWorld | null = null;
+    try {
+      world = await this.discover(prompt);
+    } catch {
+      world = null;
+    }
+    this.inFlight = false;
+
+    if (generation !== this.generation) {
+      if (this.state === 'running') this.schedule(0);
+      else this.notify();
+      return;
+    }
+    if (world) {
+      this.found.push(world);
+      this.consecutiveFailures = 0;
+    } else {
+      this.consecutiveFailures++;
+    }
+
+    if (this.isCapped()) {
+      this.finish();
+      this.notify();
+    } else if (this.state === 'running') {
+      this.schedule(this.nextDelay());
+    } else {
+      this.notify();
+    }
+  }
+
+  private nextDelay() {
+    if (this.consecutiveFailures === 0) return this.cadenceMs;
+    return Math.min(
+      this.cadenceMs * 2 ** this.consecutiveFailures,
+      this.maxBackoffMs,
+    );
+  }
+
+  private notify() {
+    this.onChange?.(this.snapshot);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {
+  ArchiveImportError,
+  KnownPlanetIndex,
+  parseArchiveFile,
+} from './exoplanet-archive';
+import {validatePlanetData} from './planet-validation';
+
+const CSV = [
+  '# This file was produced by the NASA Exoplanet Archive',
+  'pl_name,hostname,default_flag,pl_rade,pl_orbper,sy_dist',
+  'Kepler-22 b,Kepler-22,0,2.0,289.9,190.0',
+  'Kepler-22 b,Kepler-22,1,2.1,289.86,194.8',
+  'Lonely b,Lonely,1,1.1,12.0,',
+  'Zero b,Zero,1,1.1,12.0,0',
+  'Proxima Cen b,Proxima Cen,1,1.07,11.19,1.30119',
+].join('\n');
+
+describe('parseArchiveFile', () => {
+  it('keeps the default solution for each planet', () => {
+    const planets = parseArchiveFile(CSV);
+    expect(planets.map((planet) => planet.name)).toEqual([
+      'Kepler-22 b',
+      'Proxima Cen b',
+    ]);
+    expect(planets[0]).toMatchObject({
+      radiusEarth: 2.1,
+      distanceParsecs: 194.8,
+    });
+  });
+
+  it('leaves out planets without a distance', () => {
+    const index = new KnownPlanetIndex(parseArchiveFile(CSV));
+    expect(index.size).toBe(2);
+    for (const planet of index.planets) {
+      expect(planet.distanceLightYears).toBeGreaterThan(0);
+      expect(validatePlanetData(planet).errors).toEqual([]);
+    }
+    expect(index.get('nasa-proxima-cen-b')?.distanceLightYears).toBe(4.2);
+  });
+
+  it('rejects files with no usable planets', () => {
+    expect(() =>
+      parseArchiveFile('pl_name,hostname,sy_dist\nLonely b,Lonely,\n'),
+    ).toThrow(/no planets with a distance/);
+    expect(() => parseArchiveFile('name,host\nx,y\n')).toThrow(
+      ArchiveImportError,
+    );
+  });
+});
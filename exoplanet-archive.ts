@@ -0,0 +1,394 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {parseCsv} from './csv';
+import {estimatePhysicalParameters} from './habitability';
+import {orbitalElementsFor} from './orbital-mechanics';
+import {estimateRadiusEarth} from './planet-dimensions';
+import {PlanetData, PlanetFields, createPlanet} from './planet-model';
+import {spectralClassFromTemperature} from './stellar-classification';
+
+const LIGHT_YEARS_PER_PARSEC = 3.26156;
+
+/**
+ * One planet from a NASA Exoplanet Archive export, using the archive's own
+ * column names (`pl_name`, `pl_rade`, ...). Unmeasured values are null.
+ */
+export interface KnownPlanet {
+  name: string;
+  hostName: string;
+  discoveryMethod: string | null;
+  discoveryYear: number | null;
+  discoveryFacility: string | null;
+  periodDays: number | null;
+  semiMajorAxisAU: number | null;
+  eccentricity: number | null;
+  radiusEarth: number | null;
+  massEarth: number | null;
+  equilibriumTemperatureK: number | null;
+  insolationEarth: number | null;
+  starSpectralType: string | null;
+  starTemperatureK: number | null;
+  distanceParsecs: number | null;
+}
+
+export class ArchiveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveImportError';
+  }
+}
+
+type ArchiveRow = Record<string, string>;
+
+function text(row: ArchiveRow, column: string) {
+  const value = row[column]?.trim();
+  return value ? value : null;
+}
+
+function number(row: ArchiveRow, column: string) {
+  const value = text(row, column);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toKnownPlanet(row: ArchiveRow): KnownPlanet {
+  return {
+    name: text(row, 'pl_name'),
+    hostName: text(row, 'hostname'),
+    discoveryMethod: text(row, 'discoverymethod'),
+    discoveryYear: number(row, 'disc_year'),
+    discoveryFacility: text(row, 'disc_facility'),
+    periodDays: number(row, 'pl_orbper'),
+    semiMajorAxisAU: number(row, 'pl_orbsmax'),
+    eccentricity: number(row, 'pl_orbeccen'),
+    radiusEarth: number(row, 'pl_rade'),
+    massEarth: number(row, 'pl_bmasse'),
+    equilibriumTemperatureK: number(row, 'pl_eqt'),
+    insolationEarth: number(row, 'pl_insol'),
+    starSpectralType: text(row, 'st_spectype'),
+    starTemperatureK: number(row, 'st_teff'),
+    distanceParsecs: number(row, 'sy_dist'),
+  };
+}
+
+/**
+ * Keeps one row per planet. The `ps` table lists every published solution;
+ * its `default_flag` marks the archive's preferred one. The `pscomppars`
+ * table already has one row per planet. Planets without a distance
+ * (`sy_dist`) are left out, since every planet in the log has one.
+ */
+function toKnownPlanets(rows: ArchiveRow[]): KnownPlanet[] {
+  if (rows.length > 0 && !('pl_name' in rows[0] && 'hostname' in rows[0])) {
+    throw new ArchiveImportError(
+      'File has no pl_name and hostname columns; export it from the NASA Exoplanet Archive.',
+    );
+  }
+  const byName = new Map<string, ArchiveRow>();
+  for (const row of rows) {
+    const name = text(row, 'pl_name');
+    if (!name || !text(row, 'hostname')) continue;
+    if (!byName.has(name) || text(row, 'default_flag') === '1') {
+      byName.set(name, row);
+    }
+  }
+  return Array.from(byName.values(), toKnownPlanet).filter(
+    (planet) => planet.distanceParsecs > 0,
+  );
+}
+
+/** Reads an archive CSV export, skipping the `#` comment header it carries. */
+export function parseArchiveCsv(csv: string): KnownPlanet[] {
+  const lines = csv.split(/\r?\n/);
+  const firstData = lines.findIndex((line) => !line.startsWith('#'));
+  const [header, ...rows] = parseCsv(lines.slice(firstData).join('\n'));
+  if (!header) throw new ArchiveImportError('File is empty.');
+  return toKnownPlanets(
+    rows
+      .filter((row) => row.some(Boolean))
+      .map((row) =>
+        Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])),
+      ),
+  );
+}
+
+/** Reads an archive VOTable export. Only TABLEDATA serialization is supported. */
+export function parseArchiveVoTable(xml: string): KnownPlanet[] {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.querySelector('parsererror')) {
+    throw new ArchiveImportError('File is not valid XML.');
+  }
+  const table = document.getElementsByTagName('TABLE')[0];
+  if (!table) throw new ArchiveImportError('VOTable has no TABLE.');
+  const tableData = table.getElementsByTagName('TABLEDATA')[0];
+  if (!tableData) {
+    throw new ArchiveImportError(
+      'Only VOTables with TABLEDATA serialization can be imported.',
+    );
+  }
+  const columns = Array.from(table.getElementsByTagName('FIELD'), (field) =>
+    field.getAttribute('name'),
+  );
+  return toKnownPlanets(
+    Array.from(tableData.getElementsByTagName('TR'), (tr) => {
+      const cells = tr.getElementsByTagName('TD');
+      return Object.fromEntries(
+        columns.map((column, i) => [column, cells[i]?.textContent ?? '']),
+      );
+    }),
+  );
+}
+
+export function parseArchiveFile(contents: string): KnownPlanet[] {
+  const planets = contents.trimStart().startsWith('<')
+    ? parseArchiveVoTable(contents)
+    : parseArchiveCsv(contents);
+  if (planets.length === 0) {
+    throw new ArchiveImportError(
+      'File contains no planets with a distance (sy_dist).',
+    );
+  }
+  return planets;
+}
+
+function classifyKnownPlanet(known: KnownPlanet) {
+  const radius = known.radiusEarth;
+  const mass = known.massEarth;
+  if (radius === null && mass === null) return 'Unclassified Exoplanet';
+  const hot = (known.equilibriumTemperatureK ?? 0) > 1000;
+  if (radius !== null ? radius < 1.25 : mass < 2) return 'Terrestrial';
+  if (radius !== null ? radius < 2 : mass < 10) return 'Super-Earth';
+  if (radius !== null ? radius < 4 : mass < 20) return 'Mini-Neptune';
+  if (radius !== null ? radius < 8 : mass < 80) return 'Neptune-like Ice Giant';
+  return hot ? 'Hot Jupiter Gas Giant' : 'Gas Giant';
+}
+
+// The first pattern matching the planet type picks the palette.
+const KNOWN_PALETTES: [RegExp, [string, string, string]][] = [
+  [/hot jupiter/i, ['#f0a050', '#7a2e12', '#ffb070']],
+  [/gas giant/i, ['#d9b38c', '#7d5a3c', '#f3d9a4']],
+  [/ice giant|neptune/i, ['#7fb8e0', '#2a5d8a', '#a8dcff']],
+  [/./, ['#a89f91', '#5a5045', '#9fc8e8']],
+];
+
+export function knownPlanetId(known: KnownPlanet) {
+  return `nasa-${known.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+}
+
+function format(value: number, digits = 3) {
+  return String(Number(value.toPrecision(digits)));
+}
+
+/**
+ * Presents an archive planet as PlanetData so it can be browsed, searched
+ * and compared like a synthesized one. Prose fields state what was measured.
+ * Expects a planet with a distance, as the archive parsers return.
+ */
+export function knownPlanetToPlanetData(known: KnownPlanet): PlanetData {
+  const planetType = classifyKnownPlanet(known);
+  const [color1, color2, atmosphereColor] = KNOWN_PALETTES.find(([pattern]) =>
+    pattern.test(planetType),
+  )[1];
+  const starType =
+    known.starSpectralType ??
+    (known.starTemperatureK
+      ? `${spectralClassFromTemperature(known.starTemperatureK)}-type star`
+      : 'Unknown star');
+
+  const keyFeatures = [
+    known.radiusEarth !== null && `Radius ${format(known.radiusEarth)} R⊕`,
+    known.massEarth !== null && `Mass ${format(known.massEarth)} M⊕`,
+    known.periodDays !== null &&
+      `Orbital period ${format(known.periodDays, 4)} days`,
+    known.equilibriumTemperatureK !== null &&
+      `Equilibrium temperature ${Math.round(known.equilibriumTemperatureK)} K`,
+    known.starTemperatureK !== null &&
+      `Host star ${Math.round(known.starTemperatureK)} K`,
+  ].filter(Boolean) as string[];
+
+  const fields: PlanetFields = {
+    planetName: known.name,
+    starSystem: known.hostName,
+    starType,
+    distanceLightYears: Number(
+      (known.distanceParsecs * LIGHT_YEARS_PER_PARSEC).toFixed(1),
+    ),
+    planetType,
+    discoveryNarrative: [
+      `Discovered by ${known.discoveryMethod ?? 'an unrecorded method'}`,
+      known.discoveryYear !== null ? ` in ${known.discoveryYear}` : '',
+      known.discoveryFacility ? ` with ${known.discoveryFacility}` : '',
+      '.',
+    ].join(''),
+    discoveryMethodology: 'Parameters from the NASA Exoplanet Archive.',
+    atmosphericComposition: 'Not characterized',
+    surfaceFeatures: 'Not characterized',
+    keyFeatures: keyFeatures.length ? keyFeatures : ['No measured parameters'],
+    aiWhisper: 'A real world, measured rather than imagined.',
+    visualization: {color1, color2, atmosphereColor, hasRings: false},
+    ...(known.semiMajorAxisAU !== null && {
+      orbit: {
+        semiMajorAxisAU: known.semiMajorAxisAU,
+        eccentricity: known.eccentricity ?? 0,
+        // Archive inclinations are to the sky plane, not a system plane.
+        inclinationDeg: 0,
+        ...(known.periodDays !== null && {periodDays: known.periodDays}),
+      },
+    }),
+    physical: {
+      ...(known.radiusEarth !== null && {radiusEarth: known.radiusEarth}),
+      ...(known.massEarth !== null && {massEarth: known.massEarth}),
+    },
+  };
+  return createPlanet(fields, knownPlanetId(known));
+}
+
+// Similarity features, compared in log space with these weights. Missing
+// values are left out of the comparison rather than guessed.
+interface AnalogueFeatures {
+  radiusEarth: number | null;
+  massEarth: number | null;
+  equilibriumTemperatureK: number | null;
+  periodDays: number | null;
+}
+
+const FEATURE_WEIGHTS: Record<keyof AnalogueFeatures, number> = {
+  radiusEarth: 1,
+  massEarth: 0.5,
+  equilibriumTemperatureK: 2,
+  periodDays: 0.5,
+};
+
+function featureDistance(a: AnalogueFeatures, b: AnalogueFeatures) {
+  let sum = 0;
+  let weights = 0;
+  for (const [key, weight] of Object.entries(FEATURE_WEIGHTS)) {
+    const x = a[key as keyof AnalogueFeatures];
+    const y = b[key as keyof AnalogueFeatures];
+    if (!x || !y || x <= 0 || y <= 0) continue;
+    sum += weight * Math.log10(x / y) ** 2;
+    weights += weight;
+  }
+  return weights === 0 ? Infinity : Math.sqrt(sum / weights);
+}
+
+function featuresOfSynthesized(planet: PlanetData): AnalogueFeatures {
+  const estimate = estimatePhysicalParameters(planet);
+  return {
+    radiusEarth: estimate.radiusEarth,
+    massEarth: estimate.massEarth,
+    equilibriumTemperatureK: estimate.equilibriumTemperatureK,
+    periodDays: orbitalElementsFor(planet).periodDays,
+  };
+}
+
+// Rough targets for a request that hasn't been synthesized yet.
+const PROMPT_TEMPERATURES: [RegExp, number][] = [
+  [/\b(lava|molten|magma|scorched|hot jupiter|ultra-hot)\b/i, 1800],
+  [/\b(hot|desert|venus)\b/i, 700],
+  [/\b(habitable|temperate|earth-like|ocean|water)\b/i, 260],
+  [/\b(ice|icy|frozen|cold|snow)\b/i, 120],
+];
+
+export interface KnownAnalogue {
+  planet: KnownPlanet;
+  // Log-space distance; 0 is identical, 0.1 is within about 25%.
+  distance: number;
+}
+
+/** In-memory index of archive planets for lookup and analogue search. */
+export class KnownPlanetIndex {
+  readonly planets: PlanetData[];
+  private readonly known: KnownPlanet[];
+  private readonly byId = new Map<string, PlanetData>();
+
+  constructor(known: KnownPlanet[]) {
+    this.known = known;
+    this.planets = known.map(knownPlanetToPlanetData);
+    for (const planet of this.planets) {
+      this.byId.set(planet.celestial_body_id, planet);
+    }
+  }
+
+  get size() {
+    return this.known.length;
+  }
+
+  get(id: string): PlanetData | undefined {
+    return this.byId.get(id);
+  }
+
+  private nearest(features: AnalogueFeatures, count: number) {
+    return this.known
+      .map((planet) => ({
+        planet,
+        distance: featureDistance(features, {
+          radiusEarth: planet.radiusEarth,
+          massEarth: planet.massEarth,
+          equilibriumTemperatureK: planet.equilibriumTemperatureK,
+          periodDays: planet.periodDays,
+        }),
+      }))
+      .filter(({distance}) => Number.isFinite(distance))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count);
+  }
+
+  /** The real planets most physically similar to a synthesized one. */
+  analoguesOf(planet: PlanetData, count = 1): KnownAnalogue[] {
+    return this.nearest(featuresOfSynthesized(planet), count);
+  }
+
+  /**
+   * Real planets relevant to a synthesis request: any named in it, then the
+   * nearest matches to the size and temperature its wording implies.
+   */
+  analoguesForPrompt(prompt: string, count = 3): KnownPlanet[] {
+    const lower = prompt.toLowerCase();
+    const named = this.known.filter(
+      (planet) =>
+        lower.includes(planet.name.toLowerCase()) ||
+        (planet.hostName.length >= 4 &&
+          lower.includes(planet.hostName.toLowerCase())),
+    );
+    const temperature = PROMPT_TEMPERATURES.find(([pattern]) =>
+      pattern.test(prompt),
+    );
+    const similar = this.nearest(
+      {
+        radiusEarth: estimateRadiusEarth({
+          planetType: prompt,
+          surfaceFeatures: '',
+          keyFeatures: [],
+        }),
+        massEarth: null,
+        equilibriumTemperatureK: temperature ? temperature[1] : null,
+        periodDays: null,
+      },
+      count,
+    ).map(({planet}) => planet);
+    return Array.from(new Set([...named, ...similar])).slice(0, count);
+  }
+}
+
+/** One line per planet, for grounding a synthesis prompt in real data. */
+export function describeKnownPlanet(planet: KnownPlanet): string {
+  const facts = [
+    planet.radiusEarth !== null && `${format(planet.radiusEarth)} Earth radii`,
+    planet.massEarth !== null && `${format(planet.massEarth)} Earth masses`,
+    planet.periodDays !== null && `${format(planet.periodDays, 4)}-day orbit`,
+    planet.semiMajorAxisAU !== null && `${format(planet.semiMajorAxisAU)} AU`,
+    planet.equilibriumTemperatureK !== null &&
+      `Teq ${Math.round(planet.equilibriumTemperatureK)} K`,
+    planet.starSpectralType && `${planet.starSpectralType} host`,
+  ].filter(Boolean);
+  const discovery = [planet.discoveryMethod, planet.discoveryYear]
+    .filter(Boolean)
+    .join(', ');
+  return `${planet.name}${discovery ? ` (${discovery})` : ''}: ${
+    facts.join(', ') || 'no measured parameters'
+  }`;
+}
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {GoogleGenAI, Modality} from '@google/genai';
+import {LiveConnector, SYNTHESIZE_PLANET_TOOL} from './live-conversation';
+
+const LIVE_MODEL = 'gemini-2.5-flash-preview-native-audio-dialog';
+
+const SYSTEM_INSTRUCTION = `You are AXEE (AURELION's Exoplanet Synthesis Engine), speaking with an explorer in real time. Keep replies short and evocative. Whenever the explorer asks for a new world, or describes one they would like to find, call the ${SYNTHESIZE_PLANET_TOOL.name} tool with their description, then announce the discovery using the summary it returns.`;
+
+export function connectGeminiLive(apiKey: string): LiveConnector {
+  const ai = new GoogleGenAI({apiKey});
+  return (callbacks) =>
+    ai.live.connect({
+      model: LIVE_MODEL,
+      callbacks,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: SYSTEM_INSTRUCTION,
+        tools: [{functionDeclarations: [SYNTHESIZE_PLANET_TOOL]}],
+      },
+    });
+}
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GenerateContentResponse,
+  GoogleGenAI,
+  GroundingMetadata,
+} from '@google/genai';
+import {extractGrounding} from './grounding';
+import {parsePartialJson} from './partial-json';
+import {PlanetData} from './planet-model';
+import {
+  PLANET_RESPONSE_SCHEMA,
+  parsePlanetWithRepair,
+} from './planet-validation';
+import {
+  PlanetSynthesisProvider,
+  SynthesisCancelledError,
+  SynthesisRequest,
+  SynthesisResult,
+  abortable,
+} from './synthesis-provider';
+
+const MODEL = 'gemini-2.5-flash';
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export function buildSynthesisPrompt(
+  promptText: string,
+  referencePlanets: string[] = [],
+): string {
+  const references = referencePlanets.length
+    ? `
+      Real exoplanets from the NASA Exoplanet Archive that resemble this request. Use their measured parameters to keep the new planet's numbers realistic, but do not copy them:
+      ${referencePlanets.map((planet) => `- ${planet}`).join('\n      ')}
+`
+    : '';
+  return `You are AXEE (AURELION's Exoplanet Synthesis Engine), an AI specialized in interpreting astronomical data and imbuing it with a sense of wonder. Your task is to generate a plausible, fictional exoplanet based on a user's natural language request, reflecting AURELION's vision of technology that feels alive.
+      1. Use your search tool to find real-world information about exoplanets, stars, and astronomical phenomena related to the user's request.
+      2. Synthesize this information to create a NEW, UNIQUE, and FICTIONAL exoplanet. Do not simply describe a real exoplanet.
+      3. Your entire response MUST be a single, valid JSON object that conforms to the structure below. Do not include any text, markdown, or explanations outside of the JSON object.
+
+      JSON Structure:
+      {
+        "celestial_body_id": "string (A unique identifier, e.g., 'AXEE-12345')",
+        "planetName": "string",
+        "starSystem": "string",
+        "starType": "string (e.g., 'G-type star (Yellow Dwarf)', 'M-type red dwarf')",
+        "distanceLightYears": number,
+        "planetType": "string (e.g., 'Terrestrial Super-Earth', 'Gas Giant', 'Ice Giant')",
+        "discoveryNarrative": "string (A short, engaging story of how this planet was 'discovered' by you, inspired by real discovery methods like transit photometry or radial velocity.)",
+        "discoveryMethodology": "string (A brief summary of the fictional methodology used. It's crucial that you mention analyzing data from both the Kepler and TESS missions. Refer to specific concepts like 'analyzing the TESS Objects of Interest (TOI) catalog', 'processing Kepler KOI data', 'Lightkurve analysis', and using machine learning models like a 'Random Forest classifier' to create a realistic-sounding process.)",
+        "atmosphericComposition": "string (e.g., 'Primarily nitrogen and oxygen with traces of argon', 'Thick methane haze with hydrocarbon rain')",
+        "surfaceFeatures": "string (e.g., 'Vast oceans of liquid methane, cryovolcanoes', 'Expansive deserts of red sand, deep canyons')",
+        "keyFeatures": ["string", "string", "..."],
+        "aiWhisper": "string (An evocative, poetic, one-sentence description that captures the unique essence of the planet, as if you are whispering its secret.)",
+        "visualization": {
+          "color1": "string (Hex color code)",
+          "color2": "string (Hex color code)",
+          "atmosphereColor": "string (Hex color code)",
+          "hasRings": boolean
+        },
+        "orbit": {
+          "semiMajorAxisAU": number (Orbital semi-major axis in astronomical units, plausible for the star type),
+          "eccentricity": number (0 for circular, below 1),
+          "inclinationDeg": number (Inclination relative to the system's reference plane, in degrees),
+          "periodDays": number (Orbital period in days, consistent with Kepler's third law)
+        },
+        "physical": {
+          "radiusEarth": number (Radius in Earth radii, consistent with the planet type),
+          "massEarth": number (Mass in Earth masses, plausible for the radius),
+          "albedo": number (Bond albedo from 0 to below 1)
+        }
+      }
+
+${references}
+      User Request: "${promptText.trim()}"`;
+}
+
+export class GeminiSynthesisProvider implements PlanetSynthesisProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini';
+
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({apiKey});
+  }
+
+  async synthesize({
+    prompt: promptText,
+    onStatus,
+    signal,
+    onProgress,
+    referencePlanets,
+  }: SynthesisRequest): Promise<SynthesisResult> {
+    // This SDK version takes no abort signal, so a cancelled call is raced
+    // and its response discarded when it eventually arrives.
+    const stream = await abortable(
+      this.ai.models.generateContentStream({
+        model: MODEL,
+        contents: buildSynthesisPrompt(promptText, referencePlanets),
+        config: {
+          tools: [{googleSearch: {}}],
+        },
+      }),
+      signal,
+    );
+
+    let text = '';
+    let groundingMetadata: GroundingMetadata | undefined;
+    try {
+      while (true) {
+        const next: IteratorResult<GenerateContentResponse> = await abortable(
+          stream.next(),
+          signal,
+        );
+        if (next.done) break;
+        text += next.value.text ?? '';
+        // Search metadata usually arrives with the final chunk.
+        groundingMetadata =
+          next.value.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+
+        const partial = parsePartialJson(text);
+        if (partial.value && typeof partial.value === 'object') {
+          onProgress?.({
+            planet: partial.value as Partial<PlanetData>,
+            visualizationComplete: partial.closedPaths.has('visualization'),
+          });
+        }
+      }
+    } catch (e) {
+      if (e instanceof SynthesisCancelledError) {
+        // Stops reading the response body once the pending chunk arrives.
+        stream.return(undefined).catch(() => {});
+      }
+      throw e;
+    }
+
+    const grounding = extractGrounding(groundingMetadata);
+
+    // A stream that ends in invalid JSON goes through the same repair loop as
+    // any other malformed response.
+    const planet = await parsePlanetWithRepair(
+      text,
+      async (repairPrompt) => {
+        onStatus?.('Recalibrating synthesis... Repairing data.');
+        // Search grounding can't be combined with a response schema, so
+        // repairs drop the tool and ask for structured JSON output instead.
+        const repair = await abortable(
+          this.ai.models.generateContent({
+            model: MODEL,
+            contents: repairPrompt,
+            config: {
+              responseMimeType: 'application/json',
+              responseSchema: PLANET_RESPONSE_SCHEMA,
+            },
+          }),
+          signal,
+        );
+        return repair.text ?? '';
+      },
+      MAX_REPAIR_ATTEMPTS,
+    );
+
+    return {planet, grounding};
+  }
+}
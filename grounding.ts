@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {GroundingMetadata} from '@google/genai';
+import {GroundingSupport, PlanetGrounding} from './planet-model';
+
+export const EMPTY_GROUNDING: PlanetGrounding = {
+  chunks: [],
+  webSearchQueries: [],
+  supports: [],
+};
+
+/**
+ * The URI if it is an http or https link, else undefined. Sources are
+ * rendered as links, so nothing else (`javascript:` above all) may pass.
+ */
+export function webSourceUri(uri: unknown): string | undefined {
+  if (typeof uri !== 'string') return undefined;
+  try {
+    const {protocol} = new URL(uri);
+    return protocol === 'http:' || protocol === 'https:' ? uri : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Copies the parts of Gemini's grounding metadata that AXEE keeps. */
+export function extractGrounding(
+  metadata: GroundingMetadata | undefined,
+): PlanetGrounding {
+  if (!metadata) return EMPTY_GROUNDING;
+  return {
+    chunks: (metadata.groundingChunks ?? []).map(({web}) => ({
+      web: web ? {uri: webSourceUri(web.uri), title: web.title} : undefined,
+    })),
+    webSearchQueries: metadata.webSearchQueries ?? [],
+    supports: (metadata.groundingSupports ?? []).map((support) => ({
+      segment: {text: support.segment?.text},
+      groundingChunkIndices: support.groundingChunkIndices ?? [],
+    })),
+  };
+}
+
+/** A run of text followed by zero or more citation indices into `chunks`. */
+export interface CitedSpan {
+  text: string;
+  citations: number[];
+}
+
+// Segments are cut from the raw JSON response, so string values inside them
+// may still carry JSON escapes such as \" or \n.
+function unescapeSegment(text: string) {
+  try {
+    return JSON.parse(`"${text}"`) as string;
+  } catch {
+    return text;
+  }
+}
+
+function findSegment(text: string, support: GroundingSupport) {
+  const raw = support.segment?.text?.trim();
+  if (!raw) return null;
+  for (const candidate of [raw, unescapeSegment(raw)]) {
+    const start = text.indexOf(candidate);
+    if (start !== -1) return start + candidate.length;
+  }
+  return null;
+}
+
+/**
+ * Splits `text` into spans so that each supported segment is immediately
+ * followed by the indices of the sources backing it. Supports whose segment
+ * doesn't occur in `text` (e.g. they belong to another field) are ignored.
+ */
+export function citeText(
+  text: string,
+  grounding: PlanetGrounding,
+): CitedSpan[] {
+  const citationsByOffset = new Map<number, Set<number>>();
+  for (const support of grounding.supports) {
+    const end = findSegment(text, support);
+    const indices = (support.groundingChunkIndices ?? []).filter(
+      (index) => grounding.chunks[index]?.web?.uri,
+    );
+    if (end === null || indices.length === 0) continue;
+    const citations = citationsByOffset.get(end) ?? new Set<number>();
+    indices.forEach((index) => citations.add(index));
+    citationsByOffset.set(end, citations);
+  }
+
+  const spans: CitedSpan[] = [];
+  let cursor = 0;
+  for (const end of [...citationsByOffset.keys()].sort((a, b) => a - b)) {
+    spans.push({
+      text: text.slice(cursor, end),
+      citations: [...citationsByOffset.get(end)!].sort((a, b) => a - b),
+    });
+    cursor = end;
+  }
+  if (cursor < text.length || spans.length === 0) {
+    spans.push({text: text.slice(cursor), citations: []});
+  }
+  return spans;
+}
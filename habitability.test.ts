@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {
+  earthSimilarityIndex,
+  equilibriumTemperature,
+  estimatePhysicalParameters,
+  habitableZone,
+  habitableZonePosition,
+  insolation,
+  massFromRadius,
+} from './habitability';
+import {PlanetData} from './planet-model';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+
+describe('equilibriumTemperature', () => {
+  it('puts Earth at about 255 K', () => {
+    expect(equilibriumTemperature(1, 0.3)).toBeCloseTo(255, 0);
+  });
+
+  it('falls with the fourth root of flux', () => {
+    // Mars: 1.52 AU, Bond albedo 0.25, about 210 K.
+    expect(equilibriumTemperature(insolation(1, 1.524), 0.25)).toBeCloseTo(
+      210,
+      -1,
+    );
+    expect(equilibriumTemperature(16, 0.3)).toBeCloseTo(2 * 255, 0);
+  });
+
+  it('warms eccentric orbits on average', () => {
+    expect(insolation(1, 1, 0.6)).toBeCloseTo(1.25, 10);
+  });
+});
+
+describe('habitableZone', () => {
+  const sun = {luminositySolar: 1, temperatureK: 5780};
+
+  it('spans about 0.95 to 1.68 AU around the Sun', () => {
+    const zone = habitableZone(sun);
+    expect(zone.innerAU).toBeCloseTo(0.95, 2);
+    expect(zone.outerAU).toBeCloseTo(1.68, 2);
+  });
+
+  it('sits much closer in around an M dwarf', () => {
+    const zone = habitableZone({luminositySolar: 0.0017, temperatureK: 3000});
+    expect(zone.innerAU).toBeGreaterThan(0.03);
+    expect(zone.outerAU).toBeLessThan(0.1);
+  });
+
+  it('places Venus, Earth and Jupiter', () => {
+    const zone = habitableZone(sun);
+    expect(habitableZonePosition(zone, 0.72)).toBe('too-hot');
+    expect(habitableZonePosition(zone, 1)).toBe('habitable');
+    expect(habitableZonePosition(zone, 5.2)).toBe('too-cold');
+  });
+});
+
+describe('earthSimilarityIndex', () => {
+  const earth = {
+    radiusEarth: 1,
+    densityEarth: 1,
+    escapeVelocityEarth: 1,
+    temperatureK: equilibriumTemperature(1),
+  };
+
+  it('is 1 for Earth', () => {
+    expect(earthSimilarityIndex(earth)).toBeCloseTo(1, 10);
+  });
+
+  it('drops as a planet differs from Earth', () => {
+    const superEarth = earthSimilarityIndex({...earth, radiusEarth: 1.5});
+    const hotSuperEarth = earthSimilarityIndex({
+      ...earth,
+      radiusEarth: 1.5,
+      temperatureK: 400,
+    });
+    expect(superEarth).toBeLessThan(1);
+    expect(hotSuperEarth).toBeLessThan(superEarth);
+    expect(hotSuperEarth).toBeGreaterThan(0);
+  });
+});
+
+describe('massFromRadius', () => {
+  it('inverts the rocky branch below 1.23 Earth radii', () => {
+    expect(massFromRadius(1)).toBeCloseTo(1, 10);
+    expect(massFromRadius(0.53)).toBeCloseTo(0.53 ** (1 / 0.279), 10);
+  });
+
+  it('inverts the Neptunian branch up to 11.2 Earth radii', () => {
+    expect(massFromRadius(3.88)).toBeCloseTo((3.88 / 0.808) ** (1 / 0.589), 10);
+    // Neptune itself is 17 Earth masses; the relation is a population fit.
+    expect(massFromRadius(3.88)).toBeGreaterThan(12);
+    expect(massFromRadius(3.88)).toBeLessThan(20);
+  });
+
+  it('joins the branches at 1.23 Earth radii', () => {
+    const below = massFromRadius(1.2299);
+    const above = massFromRadius(1.23);
+    expect(Math.abs(above - below) / below).toBeLessThan(0.05);
+  });
+
+  it('assumes a Jupiter mass for giants', () => {
+    expect(massFromRadius(11.2)).toBe(317.8);
+    expect(massFromRadius(20)).toBe(317.8);
+  });
+
+  it('grows with radius', () => {
+    let previous = 0;
+    for (let radius = 0.3; radius < 11.2; radius += 0.1) {
+      const mass = massFromRadius(radius);
+      expect(mass).toBeGreaterThan(previous);
+      previous = mass;
+    }
+  });
+});
+
+describe('estimatePhysicalParameters', () => {
+  const earthTwin: PlanetData = {
+    ...new ProceduralSynthesisProvider(1).generate('a temperate world'),
+    celestial_body_id: 'axee-earth-twin',
+    starType: 'G2V yellow dwarf',
+    planetType: 'Terrestrial',
+    surfaceFeatures: 'Continents and shallow seas.',
+    keyFeatures: ['Liquid water'],
+    orbit: {semiMajorAxisAU: 1, eccentricity: 0, inclinationDeg: 0},
+    physical: {radiusEarth: 1, massEarth: 1, albedo: 0.3},
+  };
+
+  it('finds an Earth twin habitable and Earth-like', () => {
+    const estimate = estimatePhysicalParameters(earthTwin);
+    expect(estimate.equilibriumTemperatureK).toBeCloseTo(255, 0);
+    expect(estimate.surfaceGravityEarth).toBe(1);
+    expect(estimate.habitableZonePosition).toBe('habitable');
+    expect(estimate.earthSimilarityIndex).toBeGreaterThan(0.99);
+    expect(estimate.inconsistencies).toEqual([]);
+  });
+
+  it('flags oceans outside the habitable zone', () => {
+    const estimate = estimatePhysicalParameters({
+      ...earthTwin,
+      orbit: {semiMajorAxisAU: 0.3, eccentricity: 0, inclinationDeg: 0},
+    });
+    expect(estimate.habitableZonePosition).toBe('too-hot');
+    expect(estimate.inconsistencies).toContain(
+      "Surface water is described, but the orbit lies inward of the habitable zone's inner edge.",
+    );
+
+    const cold = estimatePhysicalParameters({
+      ...earthTwin,
+      orbit: {semiMajorAxisAU: 5, eccentricity: 0, inclinationDeg: 0},
+    });
+    expect(cold.habitableZonePosition).toBe('too-cold');
+    expect(cold.inconsistencies).toContain(
+      "Surface water is described, but the orbit lies beyond the habitable zone's outer edge.",
+    );
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {orbitalElementsFor} from './orbital-mechanics';
+import {
+  estimateRadiusEarth,
+  statedMassEarth,
+  statedTemperatureK,
+} from './planet-dimensions';
+import {PlanetData} from './planet-model';
+import {StellarProperties, stellarPropertiesOf} from './stellar-classification';
+
+// Bond albedo assumed when the planet doesn't specify one (Earth's is 0.3).
+export const DEFAULT_ALBEDO = 0.3;
+const EARTH_MASSES_PER_JUPITER = 317.8;
+// Equilibrium temperature of a zero-albedo body at 1 AU from the Sun, with
+// heat redistributed over the whole surface.
+const ZERO_ALBEDO_TEQ_AT_1AU = 278.6;
+
+export type HabitableZonePosition = 'too-hot' | 'habitable' | 'too-cold';
+
+export interface HabitableZone {
+  innerAU: number;
+  outerAU: number;
+}
+
+export interface PhysicalEstimate {
+  radiusEarth: number;
+  massEarth: number;
+  // True when the value was inferred rather than given by the synthesis.
+  radiusEstimated: boolean;
+  massEstimated: boolean;
+  albedo: number;
+  semiMajorAxisAU: number;
+  insolationEarth: number;
+  equilibriumTemperatureK: number;
+  surfaceGravityEarth: number;
+  densityEarth: number;
+  escapeVelocityEarth: number;
+  habitableZone: HabitableZone;
+  habitableZonePosition: HabitableZonePosition;
+  earthSimilarityIndex: number;
+  // Places where the planet's prose disagrees with the computed numbers.
+  inconsistencies: string[];
+}
+
+/**
+ * Orbit-averaged stellar flux relative to what Earth receives. Eccentric
+ * orbits receive more on average, by a factor of 1/√(1 - e²).
+ */
+export function insolation(
+  luminositySolar: number,
+  semiMajorAxisAU: number,
+  eccentricity = 0,
+): number {
+  return (
+    luminositySolar / (semiMajorAxisAU ** 2 * Math.sqrt(1 - eccentricity ** 2))
+  );
+}
+
+/**
+ * Equilibrium temperature in kelvin for a planet receiving `insolationEarth`
+ * times Earth's flux: T = 278.6 K · (1 - A)^¼ · S^¼. Earth comes out at about
+ * 255 K; greenhouse warming is not included.
+ */
+export function equilibriumTemperature(
+  insolationEarth: number,
+  albedo = DEFAULT_ALBEDO,
+): number {
+  return ZERO_ALBEDO_TEQ_AT_1AU * ((1 - albedo) * insolationEarth) ** 0.25;
+}
+
+// Kopparapu et al. (2014) effective-flux fits: [S☉, a, b, c, d].
+const RUNAWAY_GREENHOUSE = [1.107, 1.332e-4, 1.58e-8, -8.308e-12, -1.931e-15];
+const MAXIMUM_GREENHOUSE = [0.356, 6.171e-5, 1.698e-9, -3.198e-12, -5.575e-16];
+
+function effectiveFlux(coefficients: number[], temperatureK: number) {
+  const [sun, a, b, c, d] = coefficients;
+  // The fits are only valid from 2600 K to 7200 K.
+  const t = Math.min(Math.max(temperatureK, 2600), 7200) - 5780;
+  return sun + a * t + b * t ** 2 + c * t ** 3 + d * t ** 4;
+}
+
+/**
+ * The conservative habitable zone (runaway to maximum greenhouse limits) of a
+ * main-sequence star, after Kopparapu et al. (2014).
+ */
+export function habitableZone(
+  star: Pick<StellarProperties, 'luminositySolar' | 'temperatureK'>,
+): HabitableZone {
+  return {
+    innerAU: Math.sqrt(
+      star.luminositySolar /
+        effectiveFlux(RUNAWAY_GREENHOUSE, star.temperatureK),
+    ),
+    outerAU: Math.sqrt(
+      star.luminositySolar /
+        effectiveFlux(MAXIMUM_GREENHOUSE, star.temperatureK),
+    ),
+  };
+}
+
+export function habitableZonePosition(
+  zone: HabitableZone,
+  semiMajorAxisAU: number,
+): HabitableZonePosition {
+  if (semiMajorAxisAU < zone.innerAU) return 'too-hot';
+  if (semiMajorAxisAU > zone.outerAU) return 'too-cold';
+  return 'habitable';
+}
+
+/**
+ * Typical mass in Earth masses for a radius in Earth radii, by inverting the
+ * Chen & Kipping (2017) mass-radius relation. Above about 11 R⊕ radius barely
+ * depends on mass, so giants are assumed to weigh one Jupiter mass.
+ */
+export function massFromRadius(radiusEarth: number): number {
+  if (radiusEarth < 1.23) return radiusEarth ** (1 / 0.279);
+  if (radiusEarth < 11.2) return (radiusEarth / 0.808) ** (1 / 0.589);
+  return EARTH_MASSES_PER_JUPITER;
+}
+
+/** Surface gravity in Earth gravities: g ∝ M / R². */
+export function surfaceGravity(massEarth: number, radiusEarth: number) {
+  return massEarth / radiusEarth ** 2;
+}
+
+/** Bulk density relative to Earth: ρ ∝ M / R³. */
+export function bulkDensity(massEarth: number, radiusEarth: number) {
+  return massEarth / radiusEarth ** 3;
+}
+
+/** Escape velocity relative to Earth: v ∝ √(M / R). */
+export function escapeVelocity(massEarth: number, radiusEarth: number) {
+  return Math.sqrt(massEarth / radiusEarth);
+}
+
+export interface SimilarityInputs {
+  radiusEarth: number;
+  densityEarth: number;
+  escapeVelocityEarth: number;
+  temperatureK: number;
+}
+
+const ESI_EARTH_TEMPERATURE_K = equilibriumTemperature(1);
+
+/**
+ * Earth Similarity Index from 0 (nothing alike) to 1 (Earth), the weighted
+ * geometric mean of 1 - |x - x⊕| / (x + x⊕) over radius, density, escape
+ * velocity and temperature. Temperature is compared as equilibrium
+ * temperature, so Earth scores exactly 1.
+ */
+export function earthSimilarityIndex(inputs: SimilarityInputs): number {
+  // [value, Earth's value, weight], weights from Schulze-Makuch et al. (2011)
+  const terms: [number, number, number][] = [
+    [inputs.radiusEarth, 1, 0.57],
+    [inputs.densityEarth, 1, 1.07],
+    [inputs.escapeVelocityEarth, 1, 0.7],
+    [inputs.temperatureK, ESI_EARTH_TEMPERATURE_K, 5.58],
+  ];
+  return terms.reduce(
+    (esi, [value, earth, weight]) =>
+      esi *
+      (1 - Math.abs(value - earth) / (value + earth)) **
+        (weight / terms.length),
+    1,
+  );
+}
+
+function describedText(planet: PlanetData) {
+  return [
+    planet.planetType,
+    planet.atmosphericComposition,
+    planet.surfaceFeatures,
+    ...planet.keyFeatures,
+  ]
+    .join(' ')
+    .toLowerCase();
+}
+
+function findInconsistencies(
+  planet: PlanetData,
+  estimate: Omit<PhysicalEstimate, 'inconsistencies'>,
+): string[] {
+  const text = describedText(planet);
+  const type = planet.planetType.toLowerCase();
+  const teq = Math.round(estimate.equilibriumTemperatureK);
+  const position = estimate.habitableZonePosition;
+  const flags: string[] = [];
+
+  if (
+    /\b(icy|frozen|glacier|glaciers|ice sheets?|ice caps?)\b/.test(text) &&
+    teq > 330
+  ) {
+    flags.push(
+      `Described as icy, but its equilibrium temperature is ${teq} K.`,
+    );
+  }
+  if (/\b(molten|magma|lava)\b/.test(text) && teq < 500) {
+    flags.push(
+      `Molten surface described at an equilibrium temperature of ${teq} K; it would need another heat source such as tidal heating.`,
+    );
+  }
+  if (
+    /\b(liquid water|oceans?|seas?)\b/.test(text) &&
+    !/\b(methane|ethane|ammonia|magma|lava)\b/.test(text) &&
+    position !== 'habitable'
+  ) {
+    flags.push(
+      `Surface water is described, but the orbit lies ${
+        position === 'too-hot'
+          ? "inward of the habitable zone's inner edge"
+          : "beyond the habitable zone's outer edge"
+      }.`,
+    );
+  }
+  if (/\bhabitable\b/.test(text) && position !== 'habitable') {
+    flags.push('Called habitable, but it orbits outside the habitable zone.');
+  }
+
+  const stated = statedTemperatureK(planet);
+  if (
+    stated !== null &&
+    stated > 0 &&
+    Math.abs(Math.log(stated / teq)) > Math.LN2
+  ) {
+    flags.push(
+      `The description gives ${Math.round(stated)} K, far from the computed ${teq} K.`,
+    );
+  }
+
+  const radius = Number(estimate.radiusEarth.toFixed(1));
+  if (!estimate.radiusEstimated) {
+    if (/\bgiant\b/.test(type) && radius < 3) {
+      flags.push(`Classified as a giant, but its radius is only ${radius} R⊕.`);
+    } else if (/terrestrial|rocky|super-earth/.test(type) && radius > 2.5) {
+      flags.push(
+        `Classified as rocky, but at ${radius} R⊕ it is more likely a gas-rich sub-Neptune.`,
+      );
+    }
+  }
+
+  const statedPeriod = planet.orbit?.periodDays;
+  if (statedPeriod) {
+    const keplerPeriod = orbitalElementsFor(planet).periodDays;
+    if (Math.abs(statedPeriod - keplerPeriod) / keplerPeriod > 0.1) {
+      flags.push(
+        `The stated ${statedPeriod}-day period disagrees with Kepler's third law, which gives ${keplerPeriod.toFixed(1)} days.`,
+      );
+    }
+  }
+  return flags;
+}
+
+/**
+ * Derives the planet's physical parameters from its host star, orbit and any
+ * values the synthesis supplied. Missing radius and mass are inferred from
+ * the prose and planet type, so the result is deterministic for a planet.
+ */
+export function estimatePhysicalParameters(
+  planet: PlanetData,
+): PhysicalEstimate {
+  const star = stellarPropertiesOf(planet.starType);
+  const orbit = orbitalElementsFor(planet);
+
+  const radiusEarth = estimateRadiusEarth(planet);
+  const massEarth =
+    planet.physical?.massEarth ??
+    statedMassEarth(planet) ??
+    massFromRadius(radiusEarth);
+  const albedo = planet.physical?.albedo ?? DEFAULT_ALBEDO;
+  const insolationEarth = insolation(
+    star.luminositySolar,
+    orbit.semiMajorAxisAU,
+    orbit.eccentricity,
+  );
+  const equilibriumTemperatureK = equilibriumTemperature(
+    insolationEarth,
+    albedo,
+  );
+  const zone = habitableZone(star);
+  const densityEarth = bulkDensity(massEarth, radiusEarth);
+  const escapeVelocityEarth = escapeVelocity(massEarth, radiusEarth);
+
+  const estimate = {
+    radiusEarth,
+    massEarth,
+    radiusEstimated: planet.physical?.radiusEarth === undefined,
+    massEstimated: planet.physical?.massEarth === undefined,
+    albedo,
+    semiMajorAxisAU: orbit.semiMajorAxisAU,
+    insolationEarth,
+    equilibriumTemperatureK,
+    surfaceGravityEarth: surfaceGravity(massEarth, radiusEarth),
+    densityEarth,
+    escapeVelocityEarth,
+    habitableZone: zone,
+    habitableZonePosition: habitableZonePosition(zone, orbit.semiMajorAxisAU),
+    earthSimilarityIndex: earthSimilarityIndex({
+      radiusEarth,
+      densityEarth,
+      escapeVelocityEarth,
+      temperatureK: equilibriumTemperatureK,
+    }),
+  };
+  return {...estimate, inconsistencies: findInconsistencies(planet, estimate)};
+}
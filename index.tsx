@@ -5,39 +5,126 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {GoogleGenAI} from '@google/genai';
+import {FunctionCall} from '@google/genai';
 import {LitElement, css, html, nothing} from 'lit';
 import {customElement, state} from 'lit/decorators.js';
+import {ref} from 'lit/directives/ref.js';
+import './light-curve-plot';
+import './radial-velocity-plot';
 import './visual-3d';
 import {AxeeVisuals3D} from './visual-3d';
-
-interface PlanetData {
-  celestial_body_id: string; // Unique ID
-  planetName: string;
-  starSystem: string;
-  starType: string;
-  distanceLightYears: number;
-  planetType: string;
-  discoveryNarrative: string;
-  discoveryMethodology: string;
-  atmosphericComposition: string;
-  surfaceFeatures: string;
-  keyFeatures: string[];
-  aiWhisper: string;
-  visualization: {
-    color1: string;
-    color2: string;
-    atmosphereColor: string;
-    hasRings: boolean;
-  };
-}
-
-interface GroundingChunk {
-  web?: {
-    uri?: string;
-    title?: string;
-  };
-}
+import {
+  CatalogEntry,
+  CatalogStore,
+  createCatalogEntry,
+} from './catalog-store';
+import {
+  CatalogExportFormat,
+  CatalogImportError,
+  countDuplicateEntries,
+  exportCatalogCsv,
+  exportCatalogJson,
+  exportCatalogVoTable,
+  mergeCatalogEntries,
+  parseCatalogBundle,
+} from './catalog-export';
+import {
+  DiscoveryScheduler,
+  DiscoverySnapshot,
+} from './discovery-scheduler';
+import {downloadBlob, downloadText} from './download';
+import {
+  ArchiveImportError,
+  KnownPlanetIndex,
+  describeKnownPlanet,
+  knownPlanetId,
+  parseArchiveFile,
+} from './exoplanet-archive';
+import {connectGeminiLive} from './gemini-live';
+import {GeminiSynthesisProvider} from './gemini-provider';
+import {
+  Command,
+  CommandParseError,
+  MAX_COMPARED,
+  completeCommand,
+  helpText,
+  matchPlanets,
+  parseCommand,
+  spokenToCommand,
+} from './command-parser';
+import {EMPTY_GROUNDING, citeText} from './grounding';
+import {
+  HabitableZonePosition,
+  estimatePhysicalParameters,
+} from './habitability';
+import {
+  LiveConversation,
+  LiveConnector,
+  SYNTHESIZE_PLANET_TOOL,
+} from './live-conversation';
+import {connectMockLive} from './mock-live-server';
+import {
+  DEFAULT_LOG_QUERY,
+  FilterCondition,
+  LOG_SORT_LABELS,
+  LogQuery,
+  LogSortKey,
+  describeFilter,
+  groupBySystem,
+  isDefaultLogQuery,
+  matchesFilter,
+  matchesLogQuery,
+  sortPlanets,
+} from './planet-filter';
+import {
+  PlanetData,
+  PlanetGrounding,
+  createPlanet,
+  createPlanetId,
+} from './planet-model';
+import {PlanetValidationError, streamedScenePlanet} from './planet-validation';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+import {PromptHistory} from './prompt-history';
+import {CaptureError} from './scene-capture';
+import {SPECTRAL_CLASSES, spectralClassOf} from './stellar-classification';
+import {
+  DEFAULT_VIEW_STATE,
+  SharedPlanetError,
+  decodeSharedPlanet,
+  encodeSharedPlanet,
+  formatViewHash,
+  parseViewHash,
+} from './url-state';
+import {
+  Tour,
+  TourParseError,
+  TourPlayer,
+  TourSnapshot,
+  createCatalogTour,
+  parseTour,
+  serializeTour,
+} from './tour';
+import {
+  PlanetSynthesisProvider,
+  SynthesisCancelledError,
+  SynthesisProgress,
+} from './synthesis-provider';
+import {
+  QueuedSynthesis,
+  SynthesisQueue,
+  SynthesisSource,
+} from './synthesis-queue';
+
+// Discovery Log rows rendered at once; more are reachable through search.
+const MAX_LOG_ENTRIES = 200;
+
+// Resolutions offered for stills, independent of the window's size.
+const STILL_SIZES = [
+  {label: '1080p', width: 1920, height: 1080},
+  {label: '4K', width: 3840, height: 2160},
+  {label: '8K', width: 7680, height: 4320},
+  {label: 'Square', width: 2048, height: 2048},
+];
 
 // Add SpeechRecognition types for browsers that have them
 declare global {
@@ -51,34 +138,113 @@ declare global {
 export class AxeeInterface extends LitElement {
   @state() private isLoading = false;
   @state() private statusMessage = 'Awaiting Synthesis Command';
-  @state() private discoveredPlanets: Map<string, PlanetData> = new Map();
+  @state() private discoveredPlanets: Map<string, CatalogEntry> = new Map();
   @state() private selectedPlanetId: string | null = null;
+  @state() private focusedSystem: string | null = null;
   @state() private error: string | null = null;
   @state() private userPrompt = '';
-  @state() private groundingChunks: GroundingChunk[] = [];
-  @state() private hasStartedDiscovery = false;
+  @state() private renamingPlanetId: string | null = null;
+  // Set by slash commands: help output, the log filter and compared planets.
+  @state() private commandOutput: string[] | null = null;
+  @state() private logFilter: FilterCondition[] = [];
+  // Search, facets and ordering chosen in the Discovery Log itself.
+  @state() private logQuery: LogQuery = DEFAULT_LOG_QUERY;
+  @state() private comparedPlanetIds: string[] = [];
+  // The synthesis currently streaming in, and the snapshot of it drawn in the
+  // scene once its visualization block is complete.
+  @state() private streamingPlanet: Partial<PlanetData> | null = null;
+  @state() private streamingScenePlanet: PlanetData | null = null;
+  // Real planets loaded from a NASA Exoplanet Archive export this session.
+  @state() private knownPlanets: KnownPlanetIndex | null = null;
 
   // Audio & Voice states
   @state() private micStream: MediaStream | null = null;
   @state() private isListening = false;
   @state() private isSpeaking = false;
-
-  private ai: GoogleGenAI;
+  @state() private speechUtterance: SpeechSynthesisUtterance | null = null;
+  @state() private liveConversation: LiveConversation | null = null;
+
+  // Orbital simulation speed
+  @state() private timeRate = 1;
+  @state() private timeReversed = false;
+
+  // Stills and video recording of the 3D scene
+  @state() private stillSize = STILL_SIZES[1];
+  @state() private captionStills = true;
+  @state() private isCapturing = false;
+  @state() private isRecording = false;
+  // Toggled by /stats.
+  @state() private showStats = false;
+
+  // The offline generator is always available; Gemini only with an API key.
+  private providers: PlanetSynthesisProvider[] = [];
+  @state() private provider!: PlanetSynthesisProvider;
   private recognition: any | null = null;
-  // FIX: Changed type to `any` to accommodate `setInterval`'s return type, which can be a `Timeout` object in Node.js environments.
-  private discoveryInterval: any | null = null;
+  // Null until opened, and for the whole session if IndexedDB is unavailable.
+  private catalogStore: CatalogStore | null = null;
+  // Every synthesis, whoever asked for it, runs through this one queue.
+  private synthesisQueue = new SynthesisQueue<CatalogEntry>(
+    (prompt, signal) => this.runSynthesis(prompt, signal),
+    (items) => {
+      this.queuedSyntheses = items;
+      this.isLoading = items.some((item) => item.status === 'running');
+    },
+  );
+  @state() private queuedSyntheses: QueuedSynthesis[] = [];
+  private promptHistory = new PromptHistory();
+
+  private discoveryScheduler = new DiscoveryScheduler({
+    discover: async (prompt) =>
+      (await this.synthesizeExoplanet(prompt, 'autonomous'))?.planet ?? null,
+    onChange: (snapshot) => {
+      this.discovery = snapshot;
+    },
+  });
+  @state() private discovery: DiscoverySnapshot =
+    this.discoveryScheduler.snapshot;
+
+  private tourPlayer = new TourPlayer({
+    visit: (stop) => {
+      // Reselecting the same planet would not move the camera back to it.
+      if (this.selectedPlanetId === stop.planetId) this.visuals?.refocus();
+      else this.selectedPlanetId = stop.planetId;
+    },
+    narrate: (text) => this.speak(text),
+    silence: () => window.speechSynthesis?.cancel(),
+    onChange: (snapshot) => {
+      this.tour = snapshot;
+    },
+  });
+  @state() private tour: TourSnapshot = this.tourPlayer.snapshot;
+
+  // Set once the URL hash has been read on load, so the empty initial view
+  // never overwrites a link before it is applied.
+  private viewHashRestored = false;
 
   constructor() {
     super();
-    this.ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+    this.setupProviders();
     this.setupSpeechRecognition();
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    // Linked planets can only be selected once the catalog is back.
+    this.restoreCatalog().then(() => this.applyViewHash(location.hash));
+    window.addEventListener('keydown', this.handleTourKeydown);
+    window.addEventListener('hashchange', this.handleHashChange);
+  }
+
   disconnectedCallback() {
     super.disconnectedCallback();
-    if (this.discoveryInterval) {
-      clearInterval(this.discoveryInterval);
-    }
+    window.removeEventListener('keydown', this.handleTourKeydown);
+    window.removeEventListener('hashchange', this.handleHashChange);
+    this.tourPlayer.stop();
+    this.catalogStore?.close();
+    this.catalogStore = null;
+    this.liveConversation?.stop();
+    this.discoveryScheduler.stop();
+    this.synthesisQueue.cancelAll();
   }
 
   static styles = css`
@@ -254,6 +420,229 @@ export class AxeeInterface extends LitElement {
       }
     }
 
+    .time-controls {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .command-output {
+      pointer-events: all;
+      position: relative;
+      width: 80%;
+      max-width: 700px;
+      max-height: 12rem;
+      overflow-y: auto;
+      padding: 0.5rem 1rem;
+      background: rgba(0, 20, 34, 0.8);
+      border: 1px solid #0af;
+      font-size: 0.8rem;
+      text-shadow: none;
+    }
+
+    .command-output p {
+      margin: 0.2rem 0;
+    }
+
+    .command-output .log-action {
+      position: absolute;
+      top: 0.4rem;
+      right: 0.4rem;
+    }
+
+    .comparison-panel {
+      position: absolute;
+      bottom: 9rem;
+      left: 50%;
+      transform: translateX(-50%);
+      width: min(90vw, 900px);
+      max-height: 40vh;
+      overflow: auto;
+      background: rgba(0, 20, 34, 0.8);
+      border: 1px solid #0af;
+      box-shadow: 0 0 15px #0af inset;
+      padding: 1.5rem;
+      z-index: 3;
+      pointer-events: all;
+      font-size: 0.8rem;
+    }
+
+    .comparison-panel .close {
+      position: absolute;
+      top: 0.5rem;
+      right: 0.5rem;
+    }
+
+    .comparison-panel table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .comparison-panel th,
+    .comparison-panel td {
+      text-align: left;
+      vertical-align: top;
+      padding: 0.3rem 0.6rem;
+      border-bottom: 1px solid rgba(0, 170, 255, 0.3);
+    }
+
+    .comparison-panel thead th {
+      color: #0ff;
+      cursor: pointer;
+    }
+
+    .comparison-panel.pending {
+      display: flex;
+      gap: 1rem;
+      align-items: center;
+      width: auto;
+      padding: 0.75rem 1rem;
+    }
+
+    .comparison-panel ul {
+      margin: 0;
+      padding-left: 1rem;
+    }
+
+    .comparison-panel .bar {
+      height: 0.4rem;
+      margin-bottom: 0.2rem;
+      background: rgba(0, 170, 255, 0.15);
+    }
+
+    .comparison-panel .bar-fill {
+      height: 100%;
+      background: #0af;
+      box-shadow: 0 0 6px #0af;
+    }
+
+    .comparison-panel .swatch {
+      display: inline-block;
+      width: 1rem;
+      height: 1rem;
+      margin-right: 0.25rem;
+      border: 1px solid rgba(255, 255, 255, 0.4);
+    }
+
+    .log-filter {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      font-size: 0.75rem;
+      margin-bottom: 0.5rem;
+      color: #0ff;
+    }
+
+    .synthesis-queue {
+      pointer-events: all;
+      list-style: none;
+      margin: 0;
+      padding: 0.5rem;
+      width: 80%;
+      max-width: 700px;
+      max-height: 8rem;
+      overflow-y: auto;
+      background: rgba(0, 20, 34, 0.8);
+      border: 1px solid #0af;
+      font-size: 0.8rem;
+    }
+
+    .synthesis-queue li {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.2rem 0;
+      opacity: 0.7;
+    }
+
+    .synthesis-queue li.running {
+      opacity: 1;
+      color: #0ff;
+    }
+
+    .synthesis-queue .queue-source {
+      width: 3rem;
+      text-transform: uppercase;
+    }
+
+    .synthesis-queue .queue-prompt {
+      flex: 1;
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+    }
+
+    .synthesis-queue button.secondary {
+      font-size: 0.7rem;
+      padding: 0.1rem 0.5rem;
+    }
+
+    .discovery-controls {
+      display: flex;
+      gap: 1rem;
+      align-items: center;
+      font-size: 0.8rem;
+      letter-spacing: 0.05em;
+    }
+
+    .discovery-controls label,
+    .discovery-controls select {
+      pointer-events: all;
+    }
+
+    .capture-controls {
+      display: flex;
+      gap: 0.6rem;
+      align-items: center;
+      font-size: 0.8rem;
+      letter-spacing: 0.05em;
+    }
+
+    .capture-controls label,
+    .capture-controls select {
+      pointer-events: all;
+    }
+
+    .capture-controls select {
+      font-family: inherit;
+      font-size: 0.8rem;
+      background: rgba(0, 20, 40, 0.8);
+      color: #0af;
+      border: 1px solid #0af;
+      margin-left: 0.3rem;
+    }
+
+    .capture-controls button.secondary {
+      font-size: 0.7rem;
+      padding: 0.2rem 0.6rem;
+    }
+
+    .tour-controls {
+      display: flex;
+      gap: 0.6rem;
+      align-items: center;
+      font-size: 0.8rem;
+      letter-spacing: 0.05em;
+    }
+
+    .tour-controls button.secondary {
+      font-size: 0.7rem;
+      padding: 0.2rem 0.6rem;
+    }
+
+    .discovery-controls select {
+      font-family: inherit;
+      font-size: 0.8rem;
+      background: rgba(0, 20, 40, 0.8);
+      color: #0af;
+      border: 1px solid #0af;
+      margin-left: 0.3rem;
+    }
+
+    .time-controls button.secondary {
+      font-size: 0.8rem;
+      padding: 0.3rem 0.8rem;
+    }
+
     .status-bar {
       display: flex;
       justify-content: center;
@@ -358,6 +747,110 @@ export class AxeeInterface extends LitElement {
       border-left: 3px solid #0ff;
       padding-left: calc(1rem - 3px);
     }
+    .log-toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      padding: 0.5rem 1rem;
+      border-bottom: 1px solid rgba(0, 170, 255, 0.2);
+    }
+
+    .log-query {
+      padding: 0.5rem 1rem;
+      border-bottom: 1px solid rgba(0, 170, 255, 0.2);
+      font-size: 0.75rem;
+    }
+
+    .log-query input[type='search'] {
+      width: 100%;
+      box-sizing: border-box;
+    }
+
+    .log-query summary {
+      margin-top: 0.4rem;
+      cursor: pointer;
+      color: #0ff;
+    }
+
+    .log-query details > * {
+      margin-top: 0.4rem;
+    }
+
+    .log-query label {
+      display: flex;
+      gap: 0.4rem;
+      align-items: center;
+    }
+
+    .distance-range input {
+      width: 4.5rem;
+    }
+
+    .facet-group {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+    }
+
+    .discovery-list li.system-group {
+      cursor: default;
+      color: #0ff;
+      font-size: 0.8rem;
+      text-transform: uppercase;
+      background: rgba(0, 170, 255, 0.1);
+    }
+
+    .discovery-list li.system-group span {
+      display: inline;
+      margin-left: 0.4rem;
+      text-transform: none;
+    }
+
+    .discovery-list li.empty {
+      cursor: default;
+      opacity: 0.6;
+    }
+
+    .discovery-list li.renaming input {
+      font-family: 'Orbitron', sans-serif;
+      background: transparent;
+      border: 1px solid #0af;
+      color: #0ff;
+      padding: 0.25rem 0.5rem;
+      width: 100%;
+      box-sizing: border-box;
+    }
+
+    .log-actions {
+      float: right;
+      display: flex;
+      gap: 0.25rem;
+      opacity: 0;
+      transition: opacity 0.2s;
+    }
+
+    .discovery-list li:hover .log-actions,
+    .discovery-list li.selected .log-actions {
+      opacity: 1;
+    }
+
+    button.log-action {
+      font-size: 0.8rem;
+      padding: 0.1rem 0.4rem;
+      border-width: 1px;
+      letter-spacing: 0;
+      box-shadow: none;
+    }
+
+    button.log-action.active {
+      background: rgba(0, 170, 255, 0.4);
+      color: #fff;
+    }
+
+    .discovery-list li:has(.log-action.active) .log-actions {
+      opacity: 1;
+    }
+
     .discovery-list li span {
       display: block;
       font-size: 0.8rem;
@@ -387,6 +880,17 @@ export class AxeeInterface extends LitElement {
       transform: translateX(0);
     }
 
+    .details-panel .pending {
+      opacity: 0.5;
+      animation: pending-pulse 1.2s ease-in-out infinite;
+    }
+
+    @keyframes pending-pulse {
+      50% {
+        opacity: 0.2;
+      }
+    }
+
     .details-panel h2 {
       margin: 0 0 0.25rem 0;
       font-size: 1.8rem;
@@ -402,6 +906,66 @@ export class AxeeInterface extends LitElement {
       padding-bottom: 1.5rem;
     }
 
+    .physical-parameters {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.3rem 1rem;
+      margin: 0;
+    }
+
+    .physical-parameters dt {
+      color: #0ff;
+    }
+
+    .physical-parameters dd {
+      margin: 0;
+    }
+
+    .physical-parameters .estimated {
+      font-size: 0.7rem;
+      opacity: 0.6;
+    }
+
+    .hz-track {
+      position: relative;
+      height: 0.6rem;
+      background: linear-gradient(to right, #f60, #024 60%, #68f);
+      opacity: 0.8;
+    }
+
+    .hz-zone {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      background: rgba(0, 255, 128, 0.6);
+    }
+
+    .hz-orbit {
+      position: absolute;
+      top: -0.2rem;
+      bottom: -0.2rem;
+      width: 2px;
+      background: #fff;
+      box-shadow: 0 0 6px #fff;
+    }
+
+    .analogue-facts {
+      font-size: 0.8rem;
+      opacity: 0.7;
+    }
+
+    .discovery-list li .known-badge {
+      display: inline;
+      font-size: 0.65rem;
+      padding: 0 0.25rem;
+      border: 1px solid #0af;
+      opacity: 1;
+    }
+
+    .inconsistencies li {
+      color: #fc6;
+    }
+
     .details-panel h3 {
       font-size: 1.2rem;
       text-transform: uppercase;
@@ -476,24 +1040,61 @@ export class AxeeInterface extends LitElement {
     .grounding-sources a:hover {
       color: #fff;
     }
-  `;
-
-  private setupSpeechRecognition() {
-    const SpeechRecognition =
-      window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      this.recognition = new SpeechRecognition();
-      this.recognition.continuous = false;
-      this.recognition.lang = 'en-US';
-      this.recognition.interimResults = false;
-      this.recognition.maxAlternatives = 1;
+
+    .grounding-sources p.search-queries {
+      font-size: 0.8rem;
+      opacity: 0.7;
+      margin-bottom: 0;
+    }
+
+    a.system-link {
+      color: #0ff;
+      text-decoration: none;
+      border-bottom: 1px dotted #0ff;
+    }
+
+    sup.citation a {
+      color: #0ff;
+      text-decoration: none;
+      font-size: 0.7rem;
+      margin-left: 0.1rem;
+    }
+  `;
+
+  private setupProviders() {
+    const offline = new ProceduralSynthesisProvider();
+    this.providers = process.env.API_KEY
+      ? [new GeminiSynthesisProvider(process.env.API_KEY), offline]
+      : [offline];
+    // `?offline` in the URL forces the procedural generator for demos.
+    const forceOffline = new URLSearchParams(window.location.search).has(
+      'offline',
+    );
+    this.provider = forceOffline ? offline : this.providers[0];
+  }
+
+  private cycleProvider() {
+    const index = this.providers.indexOf(this.provider);
+    this.provider = this.providers[(index + 1) % this.providers.length];
+    this.statusMessage = `Synthesis engine: ${this.provider.label}`;
+  }
+
+  private setupSpeechRecognition() {
+    const SpeechRecognition =
+      window.SpeechRecognition || window.webkitSpeechRecognition;
+    if (SpeechRecognition) {
+      this.recognition = new SpeechRecognition();
+      this.recognition.continuous = false;
+      this.recognition.lang = 'en-US';
+      this.recognition.interimResults = false;
+      this.recognition.maxAlternatives = 1;
 
       this.recognition.onstart = () => {
         this.isListening = true;
       };
 
       this.recognition.onresult = (event: any) => {
-        this.userPrompt = event.results[0][0].transcript;
+        this.userPrompt = spokenToCommand(event.results[0][0].transcript);
         this.handleSynthesis();
       };
 
@@ -513,25 +1114,38 @@ export class AxeeInterface extends LitElement {
     }
   }
 
-  private speak(text: string) {
+  // Resolves once the utterance has finished, or straight away when nothing
+  // is spoken.
+  private speak(text: string): Promise<void> {
     if (!('speechSynthesis' in window)) {
       console.warn('Speech Synthesis not supported.');
-      return;
+      return Promise.resolve();
     }
+    // In a live conversation the model announces discoveries itself.
+    if (this.liveConversation) return Promise.resolve();
     this.isSpeaking = true;
     const utterance = new SpeechSynthesisUtterance(text);
-    utterance.onend = () => {
-      this.isSpeaking = false;
-    };
-    utterance.onerror = (e) => {
-      console.error('Speech synthesis error:', e);
-      this.isSpeaking = false;
-    };
-    window.speechSynthesis.speak(utterance);
+    this.speechUtterance = utterance;
+    return new Promise((resolve) => {
+      utterance.onend = () => {
+        this.isSpeaking = false;
+        resolve();
+      };
+      utterance.onerror = (e) => {
+        // Cancelling, e.g. when a tour is paused, also lands here.
+        if (e.error !== 'canceled' && e.error !== 'interrupted') {
+          console.error('Speech synthesis error:', e);
+        }
+        this.isSpeaking = false;
+        resolve();
+      };
+      window.speechSynthesis.speak(utterance);
+    });
   }
 
   async enableAudio() {
     if (this.micStream) {
+      this.stopLiveConversation();
       this.micStream.getTracks().forEach((track) => track.stop());
       this.micStream = null;
       return;
@@ -549,6 +1163,72 @@ export class AxeeInterface extends LitElement {
     }
   }
 
+  // `?mocklive` in the URL talks to the in-process mock server instead.
+  private get liveConnector(): LiveConnector {
+    const useMock = new URLSearchParams(window.location.search).has(
+      'mocklive',
+    );
+    return process.env.API_KEY && !useMock
+      ? connectGeminiLive(process.env.API_KEY)
+      : connectMockLive;
+  }
+
+  private async toggleLiveConversation() {
+    if (this.liveConversation) {
+      this.stopLiveConversation();
+      return;
+    }
+    if (!this.micStream) await this.enableAudio();
+    if (!this.micStream) return;
+
+    window.speechSynthesis?.cancel();
+    const conversation = new LiveConversation({
+      connect: this.liveConnector,
+      onToolCall: (call) => this.handleLiveToolCall(call),
+      onStatus: (message) => {
+        this.statusMessage = message;
+      },
+      onSpeakingChange: (speaking) => {
+        this.isSpeaking = speaking;
+      },
+    });
+    this.liveConversation = conversation;
+    try {
+      await conversation.start(this.micStream);
+    } catch (e) {
+      console.error('Live conversation failed:', e);
+      this.error = `Live voice failed: ${(e as Error).message}`;
+      this.stopLiveConversation();
+    }
+  }
+
+  private stopLiveConversation() {
+    if (!this.liveConversation) return;
+    this.liveConversation.stop();
+    this.liveConversation = null;
+    this.isSpeaking = false;
+    this.statusMessage = 'Live voice ended.';
+  }
+
+  private async handleLiveToolCall(call: FunctionCall) {
+    if (call.name !== SYNTHESIZE_PLANET_TOOL.name) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+    const entry = await this.synthesizeExoplanet(
+      String(call.args?.prompt || 'a strange, undiscovered world'),
+      'voice',
+    );
+    if (!entry) return {error: this.error};
+    const {planet} = entry;
+    return {
+      planetName: planet.planetName,
+      planetType: planet.planetType,
+      starSystem: planet.starSystem,
+      distanceLightYears: planet.distanceLightYears,
+      aiWhisper: planet.aiWhisper,
+    };
+  }
+
   private handleVoiceCommand() {
     if (this.isListening || !this.recognition) {
       return;
@@ -559,7 +1239,27 @@ export class AxeeInterface extends LitElement {
     this.recognition.start();
   }
 
+  // True while autonomous discovery is running or paused.
+  private get hasStartedDiscovery() {
+    const {state} = this.discovery;
+    return state === 'running' || state === 'paused';
+  }
+
   private handleSynthesis() {
+    this.promptHistory.add(this.userPrompt);
+    let command: Command;
+    try {
+      command = parseCommand(this.userPrompt);
+    } catch (e) {
+      if (!(e instanceof CommandParseError)) throw e;
+      this.error = e.message;
+      return;
+    }
+    if (command.name !== 'synthesize') {
+      this.runCommand(command);
+      this.userPrompt = '';
+      return;
+    }
     if (!this.hasStartedDiscovery) {
       this.startDiscoveryProcess();
     } else {
@@ -567,107 +1267,490 @@ export class AxeeInterface extends LitElement {
         this.userPrompt || 'a strange, undiscovered world',
       );
     }
+    this.userPrompt = '';
+  }
+
+  private handleCommandKeydown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      this.handleSynthesis();
+    } else if (e.key === 'Tab' && this.userPrompt.startsWith('/')) {
+      e.preventDefault();
+      this.userPrompt = completeCommand(
+        this.userPrompt,
+        this.catalogPlanets.map((planet) => planet.planetName),
+      );
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      this.userPrompt = this.promptHistory.previous(this.userPrompt);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      this.userPrompt = this.promptHistory.next();
+    }
+  }
+
+  private get catalogPlanets(): PlanetData[] {
+    return Array.from(this.discoveredPlanets.values(), (entry) => entry.planet);
+  }
+
+  private resolvePlanet(name: string): PlanetData {
+    const matches = matchPlanets(this.catalogPlanets, name);
+    if (matches.length === 0) {
+      throw new CommandParseError(`No catalogued planet matches "${name}".`);
+    }
+    if (matches.length > 1) {
+      throw new CommandParseError(
+        `"${name}" matches ${matches.map((p) => p.planetName).join(', ')}.`,
+      );
+    }
+    return matches[0];
+  }
+
+  private runCommand(command: Exclude<Command, {name: 'synthesize'}>) {
+    this.error = null;
+    this.commandOutput = null;
+    try {
+      switch (command.name) {
+        case 'help':
+          this.commandOutput = helpText(command.topic);
+          break;
+        case 'select':
+          this._selectPlanet(
+            this.resolvePlanet(command.target).celestial_body_id,
+          );
+          break;
+        case 'compare':
+          this.comparedPlanetIds = command.targets.map(
+            (target) => this.resolvePlanet(target).celestial_body_id,
+          );
+          this.selectedPlanetId = null;
+          break;
+        case 'filter':
+          this.logFilter = command.conditions;
+          this.statusMessage = command.conditions.length
+            ? `Filter: ${describeFilter(command.conditions)}`
+            : 'Filter cleared.';
+          break;
+        case 'export':
+          this.exportCatalog(command.format);
+          break;
+        case 'pause':
+        case 'resume':
+          if (!this.hasStartedDiscovery) {
+            throw new CommandParseError(
+              'Autonomous discovery is not running.',
+            );
+          }
+          if (command.name === 'pause') this.discoveryScheduler.pause();
+          else this.discoveryScheduler.resume();
+          break;
+        case 'forget':
+          this.deletePlanet(
+            this.resolvePlanet(command.target).celestial_body_id,
+          );
+          break;
+        case 'seed': {
+          const offline = this.providers.find(
+            (provider) => provider instanceof ProceduralSynthesisProvider,
+          ) as ProceduralSynthesisProvider;
+          offline.setSeed(command.seed);
+          this.statusMessage = `Offline generator seeded with ${command.seed}${
+            this.provider === offline ? '.' : '; switch the engine to use it.'
+          }`;
+          break;
+        }
+        case 'stats':
+          this.showStats = !this.showStats;
+          break;
+      }
+    } catch (e) {
+      if (!(e instanceof CommandParseError)) throw e;
+      this.error = e.message;
+    }
   }
 
   private startDiscoveryProcess() {
     if (this.hasStartedDiscovery) return;
-    this.hasStartedDiscovery = true;
     this.statusMessage = 'Cosmic Data Engine Initialized. Stand by.';
-    // Initial, user-guided discovery
-    this.synthesizeExoplanet(
+    // The seed prompt runs first; continuations build on its theme.
+    this.discoveryScheduler.start(
       this.userPrompt || 'a world at the edge of a nebula',
     );
-    // Start autonomous discovery
-    if (this.discoveryInterval) clearInterval(this.discoveryInterval);
-    this.discoveryInterval = setInterval(() => {
-      this.synthesizeExoplanet('another new world');
-    }, 20000); // Discover a new planet every 20 seconds
   }
 
-  async synthesizeExoplanet(promptText: string) {
-    if (!promptText) {
+  private toggleDiscoveryPause() {
+    if (this.discovery.state === 'paused') {
+      this.discoveryScheduler.resume();
+    } else {
+      this.discoveryScheduler.pause();
+    }
+  }
+
+  /**
+   * Queues a synthesis and resolves to its catalog entry, or to null if it
+   * failed or was cancelled.
+   */
+  synthesizeExoplanet(
+    promptText: string,
+    source: SynthesisSource = 'user',
+  ): Promise<CatalogEntry | null> {
+    if (!promptText.trim()) {
       this.error = 'Please describe the world you seek.';
-      return;
+      return Promise.resolve(null);
+    }
+    return this.synthesisQueue.enqueue(promptText.trim(), source);
+  }
+
+  private handleSynthesisProgress(
+    id: string,
+    {planet, visualizationComplete}: SynthesisProgress,
+  ) {
+    this.statusMessage = 'Receiving transmission...';
+    this.streamingPlanet = {...planet, celestial_body_id: id};
+    // A color still streaming in may already look like a short hex code, so
+    // wait for the visualization block to close before drawing it.
+    if (visualizationComplete && !this.streamingScenePlanet) {
+      this.streamingScenePlanet = streamedScenePlanet(planet, id);
+      if (this.streamingScenePlanet) this.selectedPlanetId = id;
     }
-    this.isLoading = true;
+  }
+
+  private async runSynthesis(
+    promptText: string,
+    signal: AbortSignal,
+  ): Promise<CatalogEntry | null> {
     this.error = null;
     this.statusMessage =
       'Engaging neural network... Analyzing data streams...';
+    const id = createPlanetId();
 
     try {
-      const prompt = `You are AXEE (AURELION's Exoplanet Synthesis Engine), an AI specialized in interpreting astronomical data and imbuing it with a sense of wonder. Your task is to generate a plausible, fictional exoplanet based on a user's natural language request, reflecting AURELION's vision of technology that feels alive.
-      1. Use your search tool to find real-world information about exoplanets, stars, and astronomical phenomena related to the user's request.
-      2. Synthesize this information to create a NEW, UNIQUE, and FICTIONAL exoplanet. Do not simply describe a real exoplanet.
-      3. Your entire response MUST be a single, valid JSON object that conforms to the structure below. Do not include any text, markdown, or explanations outside of the JSON object.
-
-      JSON Structure:
-      {
-        "celestial_body_id": "string (A unique identifier, e.g., 'AXEE-12345')",
-        "planetName": "string",
-        "starSystem": "string",
-        "starType": "string (e.g., 'G-type star (Yellow Dwarf)', 'M-type red dwarf')",
-        "distanceLightYears": number,
-        "planetType": "string (e.g., 'Terrestrial Super-Earth', 'Gas Giant', 'Ice Giant')",
-        "discoveryNarrative": "string (A short, engaging story of how this planet was 'discovered' by you, inspired by real discovery methods like transit photometry or radial velocity.)",
-        "discoveryMethodology": "string (A brief summary of the fictional methodology used. It's crucial that you mention analyzing data from both the Kepler and TESS missions. Refer to specific concepts like 'analyzing the TESS Objects of Interest (TOI) catalog', 'processing Kepler KOI data', 'Lightkurve analysis', and using machine learning models like a 'Random Forest classifier' to create a realistic-sounding process.)",
-        "atmosphericComposition": "string (e.g., 'Primarily nitrogen and oxygen with traces of argon', 'Thick methane haze with hydrocarbon rain')",
-        "surfaceFeatures": "string (e.g., 'Vast oceans of liquid methane, cryovolcanoes', 'Expansive deserts of red sand, deep canyons')",
-        "keyFeatures": ["string", "string", "..."],
-        "aiWhisper": "string (An evocative, poetic, one-sentence description that captures the unique essence of the planet, as if you are whispering its secret.)",
-        "visualization": {
-          "color1": "string (Hex color code)",
-          "color2": "string (Hex color code)",
-          "atmosphereColor": "string (Hex color code)",
-          "hasRings": boolean
-        }
-      }
-
-      User Request: "${promptText.trim()}"`;
-
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          tools: [{googleSearch: {}}],
+      const {planet: synthesized, grounding} = await this.provider.synthesize({
+        prompt: promptText,
+        onStatus: (message) => {
+          this.statusMessage = message;
         },
+        signal,
+        onProgress: (progress) => this.handleSynthesisProgress(id, progress),
+        referencePlanets: this.knownPlanets
+          ?.analoguesForPrompt(promptText)
+          .map(describeKnownPlanet),
       });
-
-      this.groundingChunks =
-        response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-
-      let jsonString = response.text.trim();
-      const firstBrace = jsonString.indexOf('{');
-      const lastBrace = jsonString.lastIndexOf('}');
-      if (firstBrace === -1 || lastBrace <= firstBrace) {
-        throw new Error('AI response did not contain a valid JSON object.');
-      }
-
-      jsonString = jsonString.substring(firstBrace, lastBrace + 1);
-      const data = JSON.parse(jsonString);
-      const newPlanet = data as PlanetData;
-      newPlanet.celestial_body_id = `axee-${Date.now()}`; // Ensure unique ID
+      const newPlanet = createPlanet(synthesized, id);
 
       // Update state
+      const entry = createCatalogEntry(newPlanet, promptText, grounding);
       const newPlanets = new Map(this.discoveredPlanets);
-      newPlanets.set(newPlanet.celestial_body_id, newPlanet);
+      newPlanets.set(newPlanet.celestial_body_id, entry);
       this.discoveredPlanets = newPlanets;
+      this.persistEntry(entry);
 
       this.selectedPlanetId = newPlanet.celestial_body_id;
       this.statusMessage = `Discovery: ${newPlanet.planetName}`;
       this.speak(
         `New discovery. Announcing ${newPlanet.planetName}, a ${newPlanet.planetType}.`,
       );
+      return entry;
     } catch (e) {
+      if (e instanceof SynthesisCancelledError) {
+        this.statusMessage = 'Synthesis cancelled.';
+        return null;
+      }
       const errorMessage =
-        e instanceof SyntaxError
-          ? 'Failed to parse AI response.'
+        e instanceof PlanetValidationError
+          ? `AI response failed validation (${e.errors.length} field errors).`
           : (e as Error).message;
       this.error = `Synthesis Failed: ${errorMessage}`;
       this.statusMessage = 'Synthesis Failed. Check console for details.';
       console.error(e);
       this.speak('Synthesis failed.');
+      return null;
     } finally {
-      this.isLoading = false;
+      this.streamingPlanet = null;
+      this.streamingScenePlanet = null;
+    }
+  }
+
+  private async restoreCatalog() {
+    try {
+      this.catalogStore = await CatalogStore.open();
+      const entries = await this.catalogStore.list();
+      if (entries.length === 0) return;
+      const restored = new Map(this.discoveredPlanets);
+      for (const entry of entries) {
+        restored.set(entry.planet.celestial_body_id, entry);
+      }
+      this.discoveredPlanets = restored;
+      this.statusMessage = `Catalog restored: ${entries.length} known worlds.`;
+    } catch (e) {
+      console.warn('Discovery catalog unavailable, running in memory:', e);
+    }
+  }
+
+  protected updated(changed: Map<string, unknown>) {
+    if (
+      changed.has('selectedPlanetId') ||
+      changed.has('focusedSystem') ||
+      changed.has('logFilter') ||
+      changed.has('logQuery')
+    ) {
+      this.writeViewHash();
+    }
+  }
+
+  // Back, Forward and edited links all land here.
+  private readonly handleHashChange = () => {
+    this.applyViewHash(location.hash);
+  };
+
+  /**
+   * Restores the view a link describes. A planet carried in the link itself
+   * joins the Discovery Log first, so links work without a shared backend.
+   */
+  private async applyViewHash(hash: string) {
+    const {view, world} = parseViewHash(hash);
+    let planetId = view.planetId;
+    if (world) {
+      try {
+        const planet = await decodeSharedPlanet(world);
+        planetId = planet.celestial_body_id;
+        if (!this.planetEntry(planetId)) {
+          const entry = createCatalogEntry(
+            planet,
+            'Shared link',
+            EMPTY_GROUNDING,
+          );
+          const updated = new Map(this.discoveredPlanets);
+          updated.set(planetId, entry);
+          this.discoveredPlanets = updated;
+          this.persistEntry(entry);
+          this.statusMessage = `Received ${planet.planetName} from a shared link.`;
+        }
+      } catch (err) {
+        console.error(err);
+        this.error =
+          err instanceof SharedPlanetError
+            ? `Shared Link Failed: ${err.message}`
+            : 'Shared Link Failed: could not read the planet.';
+      }
+    }
+    if (planetId && !this.planetEntry(planetId)) {
+      this.statusMessage = 'The linked planet is not in this catalog.';
+      planetId = null;
+    }
+    this.logFilter = view.filter;
+    this.logQuery = view.query;
+    this.focusedSystem = view.system;
+    this.selectedPlanetId = planetId;
+    this.viewHashRestored = true;
+    if (view.camera) {
+      // Let the scene start its flight to the selection, then cut it short.
+      await this.updateComplete;
+      await this.visuals?.updateComplete;
+      this.visuals?.setCameraPose(view.camera);
+    }
+    this.writeViewHash();
+  }
+
+  /**
+   * Mirrors the view into the URL hash. A new selection gets a history entry
+   * of its own, so Back returns to the previous world; camera moves and
+   * filter changes only update the current entry.
+   */
+  private writeViewHash() {
+    if (!this.viewHashRestored) return;
+    const hash = formatViewHash({
+      planetId: this.selectedPlanetId,
+      system: this.focusedSystem,
+      camera: this.visuals?.cameraPose ?? null,
+      filter: this.logFilter,
+      query: this.logQuery,
+    });
+    if (hash === location.hash) return;
+    const url = `${location.pathname}${location.search}${hash}`;
+    const current = parseViewHash(location.hash).view;
+    if (
+      current.planetId !== this.selectedPlanetId ||
+      current.system !== this.focusedSystem
+    ) {
+      history.pushState(null, '', url);
+    } else {
+      history.replaceState(null, '', url);
+    }
+  }
+
+  /** Copies a link that carries the whole planet, for catalogs without it. */
+  private async copyShareLink(planetId: string) {
+    const planet = this.planetEntry(planetId)?.planet;
+    if (!planet) return;
+    try {
+      const hash = formatViewHash(
+        {
+          ...DEFAULT_VIEW_STATE,
+          planetId,
+          camera:
+            this.selectedPlanetId === planetId
+              ? (this.visuals?.cameraPose ?? null)
+              : null,
+        },
+        await encodeSharedPlanet(planet),
+      );
+      await navigator.clipboard.writeText(
+        `${location.origin}${location.pathname}${location.search}${hash}`,
+      );
+      this.statusMessage = `Link to ${planet.planetName} copied.`;
+    } catch (err) {
+      console.error(err);
+      this.error = 'Share Failed: could not copy the link.';
+    }
+  }
+
+  private persistEntry(entry: CatalogEntry) {
+    this.catalogStore?.put(entry).catch((e) => {
+      console.error('Failed to save discovery:', e);
+    });
+  }
+
+  private async deletePlanet(planetId: string) {
+    const entry = this.discoveredPlanets.get(planetId);
+    if (!entry || !confirm(`Forget ${entry.planet.planetName}?`)) return;
+    const remaining = new Map(this.discoveredPlanets);
+    remaining.delete(planetId);
+    this.discoveredPlanets = remaining;
+    if (this.selectedPlanetId === planetId) {
+      this.selectedPlanetId = null;
+    }
+    this.comparedPlanetIds = this.comparedPlanetIds.filter(
+      (id) => id !== planetId,
+    );
+    try {
+      await this.catalogStore?.delete(planetId);
+    } catch (e) {
+      console.error('Failed to delete discovery:', e);
+    }
+  }
+
+  private async renamePlanet(planetId: string, planetName: string) {
+    this.renamingPlanetId = null;
+    const entry = this.discoveredPlanets.get(planetId);
+    const name = planetName.trim();
+    if (!entry || !name || name === entry.planet.planetName) return;
+    const renamed = {...entry, planet: {...entry.planet, planetName: name}};
+    const updated = new Map(this.discoveredPlanets);
+    updated.set(planetId, renamed);
+    this.discoveredPlanets = updated;
+    try {
+      await this.catalogStore?.rename(planetId, name);
+    } catch (e) {
+      console.error('Failed to rename discovery:', e);
+    }
+  }
+
+  private get importInput() {
+    return this.shadowRoot?.querySelector<HTMLInputElement>('.import-input');
+  }
+
+  private get archiveInput() {
+    return this.shadowRoot?.querySelector<HTMLInputElement>('.archive-input');
+  }
+
+  private get visuals() {
+    return this.shadowRoot?.querySelector<AxeeVisuals3D>('axee-visuals-3d');
+  }
+
+  // Lets detail plots follow the 3D scene's clock without re-rendering the
+  // app every frame.
+  private readonly simulationClock = () => this.visuals?.simulationTime ?? 0;
+
+  private async handleArchiveFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow reloading the same file
+    if (!file) return;
+
+    try {
+      this.knownPlanets = new KnownPlanetIndex(
+        parseArchiveFile(await file.text()),
+      );
+      this.logQuery = {...this.logQuery, includeKnown: true};
+      this.error = null;
+      this.statusMessage = `Loaded ${this.knownPlanets.size} known exoplanets from ${file.name}.`;
+    } catch (err) {
+      console.error(err);
+      this.error =
+        err instanceof ArchiveImportError
+          ? `Archive Import Failed: ${err.message}`
+          : 'Archive Import Failed: could not read file.';
+    }
+  }
+
+  // Discoveries first, then planets from the loaded archive.
+  private planetEntry(
+    planetId: string,
+  ): {planet: PlanetData; grounding: PlanetGrounding} | undefined {
+    const entry = this.discoveredPlanets.get(planetId);
+    if (entry) return entry;
+    const known = this.knownPlanets?.get(planetId);
+    return known && {planet: known, grounding: EMPTY_GROUNDING};
+  }
+
+  private exportCatalog(format: CatalogExportFormat) {
+    const entries = Array.from(this.discoveredPlanets.values());
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadText(
+        exportCatalogJson(entries),
+        `axee-catalog-${stamp}.json`,
+        'application/json',
+      );
+    } else if (format === 'csv') {
+      downloadText(
+        exportCatalogCsv(entries),
+        `axee-catalog-${stamp}.csv`,
+        'text/csv',
+      );
+    } else {
+      downloadText(
+        exportCatalogVoTable(entries),
+        `axee-catalog-${stamp}.vot.xml`,
+        'application/x-votable+xml',
+      );
+    }
+  }
+
+  private async handleImportFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const imported = parseCatalogBundle(await file.text());
+      const duplicates = countDuplicateEntries(
+        this.discoveredPlanets,
+        imported,
+      );
+      const strategy =
+        duplicates === 0 ||
+        confirm(
+          `${duplicates} imported worlds are already in the Discovery Log. Replace them? Cancel keeps both copies.`,
+        )
+          ? 'replace'
+          : 'keep-both';
+      const {entries, added, replaced} = mergeCatalogEntries(
+        this.discoveredPlanets,
+        imported,
+        strategy,
+      );
+      this.discoveredPlanets = entries;
+      [...added, ...replaced].forEach((entry) => this.persistEntry(entry));
+      this.error = null;
+      this.statusMessage = `Imported ${added.length} new and ${replaced.length} updated worlds.`;
+    } catch (err) {
+      console.error(err);
+      this.error =
+        err instanceof CatalogImportError
+          ? `Import Failed: ${err.message}`
+          : 'Import Failed: could not read file.';
     }
   }
 
@@ -679,50 +1762,374 @@ export class AxeeInterface extends LitElement {
     this.selectedPlanetId = planetId;
   }
 
+  // Any key pauses a playing tour, except those pressing a button, which
+  // act on the button itself.
+  private readonly handleTourKeydown = (e: KeyboardEvent) => {
+    const target = e.composedPath()[0];
+    if (target instanceof HTMLButtonElement) return;
+    this.tourPlayer.pause();
+  };
+
+  private startCatalogTour() {
+    const planets = this.visibleLogPlanets;
+    if (planets.length === 0) return;
+    this.tourPlayer.start(createCatalogTour('Discovery Log', planets));
+    this.statusMessage = `Touring ${planets.length} worlds.`;
+  }
+
+  private get tourInput() {
+    return this.shadowRoot?.querySelector<HTMLInputElement>('.tour-input');
+  }
+
+  private async handleTourFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow reloading the same file
+    if (!file) return;
+
+    try {
+      const tour = parseTour(await file.text());
+      // Stops can name planets that have since been deleted.
+      const stops = tour.stops.filter((stop) =>
+        this.planetEntry(stop.planetId),
+      );
+      if (stops.length === 0) {
+        this.error = 'Tour Failed: none of its planets are in the catalog.';
+        return;
+      }
+      const playable: Tour = {...tour, stops};
+      this.tourPlayer.start(playable);
+      this.error = null;
+      const skipped = tour.stops.length - stops.length;
+      this.statusMessage =
+        skipped > 0
+          ? `Touring ${tour.name}, skipping ${skipped} missing worlds.`
+          : `Touring ${tour.name}.`;
+    } catch (err) {
+      console.error(err);
+      this.error =
+        err instanceof TourParseError
+          ? `Tour Failed: ${err.message}`
+          : 'Tour Failed: could not read file.';
+    }
+  }
+
+  private saveTour() {
+    const tour = this.tourPlayer.currentTour;
+    if (!tour) return;
+    const slug = tour.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadText(
+      serializeTour(tour),
+      `axee-tour-${slug || 'untitled'}.json`,
+      'application/json',
+    );
+  }
+
+  // Names captures after the selected planet, or the galaxy as a whole.
+  private captureFilename(extension: string) {
+    const planet = this.selectedPlanetId
+      ? this.planetEntry(this.selectedPlanetId)?.planet
+      : undefined;
+    const subject = planet
+      ? planet.planetName.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+      : 'galaxy';
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+    return `axee-${subject || 'planet'}-${stamp}.${extension}`;
+  }
+
+  private async captureStill() {
+    const visuals = this.visuals;
+    if (!visuals || this.isCapturing) return;
+    const {width, height} = this.stillSize;
+    const planet = this.selectedPlanetId
+      ? this.planetEntry(this.selectedPlanetId)?.planet
+      : undefined;
+    this.isCapturing = true;
+    try {
+      const blob = await visuals.captureStill({
+        width,
+        height,
+        caption:
+          this.captionStills && planet
+            ? {title: planet.planetName, text: planet.aiWhisper}
+            : null,
+      });
+      downloadBlob(blob, this.captureFilename('png'));
+      this.error = null;
+      this.statusMessage = `Captured a ${width}×${height} still.`;
+    } catch (err) {
+      console.error(err);
+      this.error =
+        err instanceof CaptureError
+          ? `Capture Failed: ${err.message}`
+          : 'Capture Failed: could not render the still.';
+    } finally {
+      this.isCapturing = false;
+    }
+  }
+
+  private async toggleRecording() {
+    const visuals = this.visuals;
+    if (!visuals) return;
+    if (this.isRecording) {
+      this.isRecording = false;
+      const blob = await visuals.stopRecording();
+      if (blob) downloadBlob(blob, this.captureFilename('webm'));
+      this.statusMessage = 'Recording saved.';
+      return;
+    }
+    try {
+      visuals.startRecording();
+      this.isRecording = true;
+      this.error = null;
+      // Browser speech synthesis never reaches the recording.
+      this.statusMessage = this.liveConversation
+        ? "Recording the scene and AXEE's voice."
+        : "Recording the scene. Start a live conversation to record AXEE's voice.";
+    } catch (err) {
+      console.error(err);
+      this.error =
+        err instanceof CaptureError
+          ? `Recording Failed: ${err.message}`
+          : 'Recording Failed: could not start the recorder.';
+    }
+  }
+
+  private handleSystemSelected(e: CustomEvent) {
+    this.flyToSystem(e.detail.systemName);
+  }
+
+  private flyToSystem(systemName: string | null) {
+    this.selectedPlanetId = null;
+    this.focusedSystem = systemName;
+    this.statusMessage = systemName
+      ? `Approaching the ${systemName} system.`
+      : 'Galaxy overview.';
+  }
+
+  private renderCitedText(text: string, grounding: PlanetGrounding) {
+    return citeText(text, grounding).map(
+      (span) => html`${span.text}${span.citations.map(
+        (index) =>
+          html`<sup class="citation"
+            ><a
+              href=${grounding.chunks[index].web!.uri!}
+              target="_blank"
+              rel="noopener noreferrer"
+              title=${grounding.chunks[index].web!.title ?? ''}
+              >[${index + 1}]</a
+            ></sup
+          >`,
+      )}`,
+    );
+  }
+
+  // Placeholder for fields that haven't streamed in yet.
+  private renderStreamed(value: string | number | undefined) {
+    return value === undefined
+      ? html`<span class="pending">Receiving...</span>`
+      : value;
+  }
+
+  private renderKnownAnalogue(planet: PlanetData) {
+    const isDiscovery = this.discoveredPlanets.has(planet.celestial_body_id);
+    if (!this.knownPlanets || !isDiscovery) return nothing;
+    const [analogue] = this.knownPlanets.analoguesOf(planet);
+    if (!analogue) return nothing;
+    const id = knownPlanetId(analogue.planet);
+    return html`
+      <h4>Closest Known Analogue</h4>
+      <p>
+        <a
+          href="#"
+          @click=${(e: Event) => {
+            e.preventDefault();
+            this._selectPlanet(id);
+          }}
+          >${analogue.planet.name}</a
+        >
+      </p>
+      <p class="analogue-facts">${describeKnownPlanet(analogue.planet)}</p>
+    `;
+  }
+
+  private renderPhysicalParameters(planet: PlanetData) {
+    const estimate = estimatePhysicalParameters(planet);
+    const {innerAU, outerAU} = estimate.habitableZone;
+    const orbitAU = estimate.semiMajorAxisAU;
+    // Log scale, padded so both the zone and the orbit fit comfortably.
+    const low = Math.log(Math.min(innerAU / 3, orbitAU / 1.5));
+    const high = Math.log(Math.max(outerAU * 3, orbitAU * 1.5));
+    const percent = (au: number) =>
+      ((Math.log(au) - low) / (high - low)) * 100;
+    const zoneLabels: Record<HabitableZonePosition, string> = {
+      'too-hot': 'Too hot',
+      habitable: 'In the habitable zone',
+      'too-cold': 'Too cold',
+    };
+    const estimated = (isEstimated: boolean) =>
+      isEstimated
+        ? html`<span class="estimated" title="Inferred from type and prose"
+            >est.</span
+          >`
+        : nothing;
+
+    return html`
+      <h3>Physical Parameters</h3>
+      <dl class="physical-parameters">
+        <dt>Radius</dt>
+        <dd>
+          ${estimate.radiusEarth.toFixed(2)} R⊕
+          ${estimated(estimate.radiusEstimated)}
+        </dd>
+        <dt>Mass</dt>
+        <dd>
+          ${estimate.massEarth.toPrecision(3)} M⊕
+          ${estimated(estimate.massEstimated)}
+        </dd>
+        <dt>Surface Gravity</dt>
+        <dd>${estimate.surfaceGravityEarth.toFixed(2)} g</dd>
+        <dt>Insolation</dt>
+        <dd>${estimate.insolationEarth.toPrecision(3)} S⊕</dd>
+        <dt>Equilibrium Temp.</dt>
+        <dd>${Math.round(estimate.equilibriumTemperatureK)} K</dd>
+        <dt>Earth Similarity</dt>
+        <dd>${estimate.earthSimilarityIndex.toFixed(2)}</dd>
+      </dl>
+      <h4>Habitable Zone</h4>
+      <p>
+        ${zoneLabels[estimate.habitableZonePosition]}: orbit at
+        ${orbitAU.toPrecision(3)} AU, zone
+        ${`${innerAU.toPrecision(2)}–${outerAU.toPrecision(2)}`} AU
+      </p>
+      <div class="hz-track" aria-hidden="true">
+        <div
+          class="hz-zone"
+          style="left: ${percent(innerAU)}%;
+            width: ${percent(outerAU) - percent(innerAU)}%"></div>
+        <div class="hz-orbit" style="left: ${percent(orbitAU)}%"></div>
+      </div>
+      ${estimate.inconsistencies.length > 0
+        ? html`
+            <h4>Inconsistencies</h4>
+            <ul class="inconsistencies">
+              ${estimate.inconsistencies.map(
+                (message) => html`<li>${message}</li>`,
+              )}
+            </ul>
+          `
+        : nothing}
+    `;
+  }
+
   renderDetailsPanel() {
-    if (
-      !this.selectedPlanetId ||
-      !this.discoveredPlanets.has(this.selectedPlanetId)
-    )
+    // A synthesis in progress takes over the panel as its fields arrive.
+    let planet: Partial<PlanetData>;
+    let grounding: PlanetGrounding;
+    if (this.streamingPlanet) {
+      planet = this.streamingPlanet;
+      grounding = EMPTY_GROUNDING;
+    } else if (
+      this.selectedPlanetId &&
+      this.planetEntry(this.selectedPlanetId)
+    ) {
+      ({planet, grounding} = this.planetEntry(this.selectedPlanetId));
+    } else {
       return nothing;
-
-    const planet = this.discoveredPlanets.get(this.selectedPlanetId)!;
+    }
 
     return html`
-      <div class="details-panel ${this.selectedPlanetId ? 'visible' : ''}">
-        <h2>${planet.planetName}</h2>
-        <p class="planet-type">${planet.planetType}</p>
+      <div
+        class="details-panel visible ${this.streamingPlanet
+          ? 'streaming'
+          : ''}">
+        <h2>${planet.planetName ?? 'Resolving designation...'}</h2>
+        <p class="planet-type">${this.renderStreamed(planet.planetType)}</p>
 
         <h3 class="ai-whisper-heading">AI's Whisper</h3>
-        <p class="ai-whisper">“${planet.aiWhisper}”</p>
+        <p class="ai-whisper">
+          ${planet.aiWhisper === undefined
+            ? this.renderStreamed(undefined)
+            : `“${planet.aiWhisper}”`}
+        </p>
 
         <h3>System Details</h3>
-        <p><strong>Star System:</strong> ${planet.starSystem}</p>
-        <p><strong>Host Star:</strong> ${planet.starType}</p>
         <p>
-          <strong>Distance:</strong> ${planet.distanceLightYears} light-years
+          <strong>Star System:</strong>
+          <a
+            class="system-link"
+            href="#"
+            title="Fly to this system"
+            @click=${(e: Event) => {
+              e.preventDefault();
+              this.flyToSystem(planet.starSystem);
+            }}
+            >${this.renderStreamed(planet.starSystem)}</a
+          >
+        </p>
+        <p>
+          <strong>Host Star:</strong> ${this.renderStreamed(planet.starType)}
+        </p>
+        <p>
+          <strong>Distance:</strong>
+          ${planet.distanceLightYears === undefined
+            ? this.renderStreamed(undefined)
+            : `${planet.distanceLightYears} light-years`}
         </p>
 
         <h3>Planet Characteristics</h3>
-        <p><strong>Atmosphere:</strong> ${planet.atmosphericComposition}</p>
-        <p><strong>Surface:</strong> ${planet.surfaceFeatures}</p>
+        <p>
+          <strong>Atmosphere:</strong>
+          ${this.renderStreamed(planet.atmosphericComposition)}
+        </p>
+        <p>
+          <strong>Surface:</strong>
+          ${this.renderStreamed(planet.surfaceFeatures)}
+        </p>
         <h4>Key Features</h4>
         <ul>
-          ${planet.keyFeatures.map((feature) => html`<li>${feature}</li>`)}
+          ${(planet.keyFeatures ?? []).map(
+            (feature) => html`<li>${feature}</li>`,
+          )}
         </ul>
 
+        ${this.streamingPlanet
+          ? nothing
+          : this.renderPhysicalParameters(planet as PlanetData)}
+        ${this.streamingPlanet
+          ? nothing
+          : this.renderKnownAnalogue(planet as PlanetData)}
+        ${this.streamingPlanet
+          ? nothing
+          : html`
+              <h3>Transit Light Curve</h3>
+              <axee-light-curve .planet=${planet}></axee-light-curve>
+              <h3>Radial Velocity</h3>
+              <axee-radial-velocity
+                .planet=${planet}
+                .simulationClock=${this.simulationClock}></axee-radial-velocity>
+            `}
+
         <h3>Methodology</h3>
         <p>
           <strong>Discovery Narrative:</strong>
-          <em>${planet.discoveryNarrative}</em>
+          <em
+            >${planet.discoveryNarrative === undefined
+              ? this.renderStreamed(undefined)
+              : this.renderCitedText(planet.discoveryNarrative, grounding)}</em
+          >
+        </p>
+        <p>
+          ${planet.discoveryMethodology === undefined
+            ? this.renderStreamed(undefined)
+            : this.renderCitedText(planet.discoveryMethodology, grounding)}
         </p>
-        <p>${planet.discoveryMethodology}</p>
 
-        ${this.groundingChunks.length > 0
+        ${grounding.chunks.length > 0
           ? html`
               <h3>Data Sources</h3>
               <div class="grounding-sources">
-                ${this.groundingChunks.map((chunk) => {
+                ${grounding.chunks.map((chunk, index) => {
                   if (chunk.web?.uri) {
                     const title = chunk.web.title ?? chunk.web.uri;
                     return html`<a
@@ -730,14 +2137,808 @@ export class AxeeInterface extends LitElement {
                       target="_blank"
                       rel="noopener noreferrer"
                       title=${title}
-                      >${title}</a
+                      >[${index + 1}] ${title}</a
                     >`;
                   }
                   return nothing;
                 })}
+                ${grounding.webSearchQueries.length > 0
+                  ? html`<p class="search-queries">
+                      Searched:
+                      ${grounding.webSearchQueries.join(' · ')}
+                    </p>`
+                  : nothing}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  // Discovery Log contents after slash-command filters, search and facets.
+  private get visibleLogPlanets() {
+    const planets =
+      this.logQuery.includeKnown && this.knownPlanets
+        ? [...this.catalogPlanets, ...this.knownPlanets.planets]
+        : this.catalogPlanets;
+    return sortPlanets(
+      planets.filter(
+        (planet) =>
+          matchesFilter(planet, this.logFilter) &&
+          matchesLogQuery(planet, this.logQuery),
+      ),
+      this.logQuery.sort,
+    );
+  }
+
+  // Planets the scene dims because the Discovery Log filters them out.
+  private get dimmedPlanetIds() {
+    const visible = new Set(
+      this.visibleLogPlanets.map((planet) => planet.celestial_body_id),
+    );
+    return new Set(
+      this.catalogPlanets
+        .map((planet) => planet.celestial_body_id)
+        .filter((id) => !visible.has(id)),
+    );
+  }
+
+  private updateLogQuery(changes: Partial<LogQuery>) {
+    this.logQuery = {...this.logQuery, ...changes};
+  }
+
+  private toggleFacet<T>(values: T[], value: T) {
+    return values.includes(value)
+      ? values.filter((v) => v !== value)
+      : [...values, value];
+  }
+
+  private renderLogQueryControls() {
+    const query = this.logQuery;
+    const planetTypes = Array.from(
+      new Set(this.catalogPlanets.map((planet) => planet.planetType)),
+    ).sort();
+    const present = new Set(
+      this.catalogPlanets.map((planet) => spectralClassOf(planet.starType)),
+    );
+    const spectralClasses = SPECTRAL_CLASSES.filter((c) => present.has(c));
+    const distanceInput = (
+      label: string,
+      value: number | null,
+      key: 'minDistance' | 'maxDistance',
+    ) => html`
+      <input
+        type="number"
+        min="0"
+        placeholder=${label}
+        aria-label="${label} distance in light-years"
+        .value=${value === null ? '' : String(value)}
+        @change=${(e: Event) => {
+          const text = (e.target as HTMLInputElement).value;
+          this.updateLogQuery({[key]: text === '' ? null : Number(text)});
+        }} />
+    `;
+    return html`
+      <div class="log-query">
+        <input
+          type="search"
+          placeholder="Search names, systems, features..."
+          aria-label="Search the Discovery Log"
+          .value=${query.search}
+          @input=${(e: Event) =>
+            this.updateLogQuery({
+              search: (e.target as HTMLInputElement).value,
+            })} />
+        <details>
+          <summary>
+            Refine${isDefaultLogQuery(query) ? '' : ' (active)'}
+          </summary>
+          <div class="facet-group" aria-label="Planet type">
+            ${planetTypes.map(
+              (type) => html`
+                <button
+                  class="log-action ${query.planetTypes.includes(type)
+                    ? 'active'
+                    : ''}"
+                  aria-pressed=${query.planetTypes.includes(type)}
+                  @click=${() =>
+                    this.updateLogQuery({
+                      planetTypes: this.toggleFacet(query.planetTypes, type),
+                    })}>
+                  ${type}
+                </button>
+              `,
+            )}
+          </div>
+          <div class="facet-group" aria-label="Star type">
+            ${spectralClasses.map(
+              (spectralClass) => html`
+                <button
+                  class="log-action ${query.spectralClasses.includes(
+                    spectralClass,
+                  )
+                    ? 'active'
+                    : ''}"
+                  title="${spectralClass}-type stars"
+                  aria-pressed=${query.spectralClasses.includes(spectralClass)}
+                  @click=${() =>
+                    this.updateLogQuery({
+                      spectralClasses: this.toggleFacet(
+                        query.spectralClasses,
+                        spectralClass,
+                      ),
+                    })}>
+                  ${spectralClass}
+                </button>
+              `,
+            )}
+          </div>
+          <label class="distance-range">
+            Distance (ly)
+            ${distanceInput('Min', query.minDistance, 'minDistance')}
+            –
+            ${distanceInput('Max', query.maxDistance, 'maxDistance')}
+          </label>
+          <label>
+            Sort
+            <select
+              @change=${(e: Event) =>
+                this.updateLogQuery({
+                  sort: (e.target as HTMLSelectElement).value as LogSortKey,
+                })}>
+              ${Object.entries(LOG_SORT_LABELS).map(
+                ([key, label]) =>
+                  html`<option value=${key} ?selected=${key === query.sort}>
+                    ${label}
+                  </option>`,
+              )}
+            </select>
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              .checked=${query.groupBySystem}
+              @change=${(e: Event) =>
+                this.updateLogQuery({
+                  groupBySystem: (e.target as HTMLInputElement).checked,
+                })} />
+            Group by star system
+          </label>
+          ${this.knownPlanets
+            ? html`
+                <label>
+                  <input
+                    type="checkbox"
+                    .checked=${query.includeKnown}
+                    @change=${(e: Event) =>
+                      this.updateLogQuery({
+                        includeKnown: (e.target as HTMLInputElement).checked,
+                      })} />
+                  Show ${this.knownPlanets.size} known exoplanets
+                </label>
+              `
+            : nothing}
+          <button
+            class="log-action"
+            ?disabled=${isDefaultLogQuery(query)}
+            @click=${() =>
+              this.updateLogQuery({
+                ...DEFAULT_LOG_QUERY,
+                sort: query.sort,
+                groupBySystem: query.groupBySystem,
+                includeKnown: query.includeKnown,
+              })}>
+            Clear
+          </button>
+        </details>
+      </div>
+    `;
+  }
+
+  private renderCompareToggle(planet: PlanetData) {
+    const id = planet.celestial_body_id;
+    const compared = this.comparedPlanetIds.includes(id);
+    return html`
+      <button
+        class="log-action ${compared ? 'active' : ''}"
+        title="Compare"
+        aria-label="Compare ${planet.planetName}"
+        aria-pressed=${compared}
+        @click=${(e: Event) => {
+          e.stopPropagation();
+          this.toggleCompared(id);
+        }}>
+        ⇄
+      </button>
+    `;
+  }
+
+  private renderLogEntry(planet: PlanetData) {
+    const id = planet.celestial_body_id;
+    if (!this.discoveredPlanets.has(id)) {
+      // Known exoplanets are read-only: they can be viewed and compared.
+      return html`
+        <li
+          class="known ${this.selectedPlanetId === id ? 'selected' : ''}"
+          @click=${() => this._selectPlanet(id)}>
+          <div class="log-actions">
+            ${this.renderCompareToggle(planet)}
+          </div>
+          ${planet.planetName}
+          <span>
+            <span class="known-badge">NASA</span>
+            ${planet.planetType}
+          </span>
+        </li>
+      `;
+    }
+    if (this.renamingPlanetId === id) {
+      return html`
+        <li class="renaming">
+          <input
+            type="text"
+            .value=${planet.planetName}
+            aria-label="New planet name"
+            @keydown=${(e: KeyboardEvent) => {
+              const input = e.target as HTMLInputElement;
+              if (e.key === 'Enter') this.renamePlanet(id, input.value);
+              if (e.key === 'Escape') this.renamingPlanetId = null;
+            }}
+            @blur=${(e: FocusEvent) => {
+              if (this.renamingPlanetId !== id) return;
+              const input = e.target as HTMLInputElement;
+              this.renamePlanet(id, input.value);
+            }}
+            ${ref((el) => (el as HTMLInputElement)?.focus())} />
+        </li>
+      `;
+    }
+    return html`
+      <li
+        class=${this.selectedPlanetId === id ? 'selected' : ''}
+        @click=${() => this._selectPlanet(id)}>
+        <div class="log-actions">
+          <button
+            class="log-action"
+            title="Rename"
+            aria-label="Rename ${planet.planetName}"
+            @click=${(e: Event) => {
+              e.stopPropagation();
+              this.renamingPlanetId = id;
+            }}>
+            ✎
+          </button>
+          <button
+            class="log-action"
+            title="Copy a link that carries this world"
+            aria-label="Copy a link to ${planet.planetName}"
+            @click=${(e: Event) => {
+              e.stopPropagation();
+              this.copyShareLink(id);
+            }}>
+            🔗
+          </button>
+          ${this.renderCompareToggle(planet)}
+          <button
+            class="log-action"
+            title="Forget"
+            aria-label="Forget ${planet.planetName}"
+            @click=${(e: Event) => {
+              e.stopPropagation();
+              this.deletePlanet(id);
+            }}>
+            ✕
+          </button>
+        </div>
+        ${planet.planetName}
+        <span>${planet.planetType}</span>
+      </li>
+    `;
+  }
+
+  renderDiscoveryLog() {
+    const isEmpty = this.discoveredPlanets.size === 0;
+    const hasKnown = this.logQuery.includeKnown && this.knownPlanets;
+    const matching = this.visibleLogPlanets;
+    // Archive exports hold thousands of planets; search narrows them down.
+    const shown = matching.slice(0, MAX_LOG_ENTRIES);
+    return html`
+      <div class="discovery-log">
+        <h2>Discovery Log</h2>
+        <div class="log-toolbar">
+          <button
+            class="log-action"
+            title="Export as a re-importable JSON bundle"
+            ?disabled=${isEmpty}
+            @click=${() => this.exportCatalog('json')}>
+            JSON
+          </button>
+          <button
+            class="log-action"
+            title="Export as CSV for spreadsheets"
+            ?disabled=${isEmpty}
+            @click=${() => this.exportCatalog('csv')}>
+            CSV
+          </button>
+          <button
+            class="log-action"
+            title="Export as an IVOA VOTable"
+            ?disabled=${isEmpty}
+            @click=${() => this.exportCatalog('votable')}>
+            VOTable
+          </button>
+          <button
+            class="log-action"
+            title="Import a JSON catalog bundle"
+            @click=${() => this.importInput?.click()}>
+            Import
+          </button>
+          <input
+            class="import-input"
+            type="file"
+            accept=".json,application/json"
+            hidden
+            @change=${this.handleImportFile} />
+          <button
+            class="log-action"
+            title="Load a NASA Exoplanet Archive CSV or VOTable export"
+            @click=${() => this.archiveInput?.click()}>
+            NASA Archive
+          </button>
+          <input
+            class="archive-input"
+            type="file"
+            accept=".csv,.xml,.vot,.votable,text/csv"
+            hidden
+            @change=${this.handleArchiveFile} />
+          <button
+            class="log-action"
+            title="Fly to each listed world in turn, reading its whisper"
+            ?disabled=${this.visibleLogPlanets.length === 0}
+            @click=${this.startCatalogTour}>
+            Tour
+          </button>
+          <button
+            class="log-action"
+            title="Replay a saved tour"
+            @click=${() => this.tourInput?.click()}>
+            Load Tour
+          </button>
+          <input
+            class="tour-input"
+            type="file"
+            accept=".json,application/json"
+            hidden
+            @change=${this.handleTourFile} />
+        </div>
+        ${this.logFilter.length > 0
+          ? html`
+              <div class="log-filter">
+                <span>${describeFilter(this.logFilter)}</span>
+                <button
+                  class="log-action"
+                  title="Clear filter"
+                  @click=${() => {
+                    this.logFilter = [];
+                  }}>
+                  ✕
+                </button>
               </div>
             `
           : nothing}
+        ${isEmpty && !this.knownPlanets
+          ? nothing
+          : this.renderLogQueryControls()}
+        <ul class="discovery-list">
+          ${isEmpty && !hasKnown
+            ? html`<li class="empty">No worlds catalogued yet.</li>`
+            : nothing}
+          ${(!isEmpty || hasKnown) && shown.length === 0
+            ? html`<li class="empty">No worlds match the filter.</li>`
+            : nothing}
+          ${this.logQuery.groupBySystem
+            ? groupBySystem(shown).map(
+                ([system, planets]) => html`
+                  <li class="system-group">
+                    ${system}
+                    <span>
+                      ${planets.length}
+                      ${planets.length === 1 ? 'world' : 'worlds'}
+                    </span>
+                  </li>
+                  ${planets.map((planet) => this.renderLogEntry(planet))}
+                `,
+              )
+            : shown.map((planet) => this.renderLogEntry(planet))}
+          ${matching.length > shown.length
+            ? html`<li class="empty">
+                Showing ${shown.length} of ${matching.length}; search to
+                narrow the list.
+              </li>`
+            : nothing}
+        </ul>
+      </div>
+    `;
+  }
+
+  renderCommandOutput() {
+    if (!this.commandOutput) return nothing;
+    return html`
+      <div class="command-output">
+        <button
+          class="log-action"
+          title="Dismiss"
+          @click=${() => {
+            this.commandOutput = null;
+          }}>
+          ✕
+        </button>
+        ${this.commandOutput.map((line) => html`<p>${line}</p>`)}
+      </div>
+    `;
+  }
+
+  private toggleCompared(planetId: string) {
+    if (this.comparedPlanetIds.includes(planetId)) {
+      this.comparedPlanetIds = this.comparedPlanetIds.filter(
+        (id) => id !== planetId,
+      );
+    } else if (this.comparedPlanetIds.length < MAX_COMPARED) {
+      this.comparedPlanetIds = [...this.comparedPlanetIds, planetId];
+    } else {
+      this.statusMessage = `Compare up to ${MAX_COMPARED} worlds at once.`;
+    }
+  }
+
+  private get comparedPlanets() {
+    return this.comparedPlanetIds
+      .map((id) => this.planetEntry(id)?.planet)
+      .filter(Boolean);
+  }
+
+  renderComparison() {
+    const planets = this.comparedPlanets;
+    if (planets.length === 0) return nothing;
+    if (planets.length === 1) {
+      return html`
+        <div class="comparison-panel pending">
+          Comparing ${planets[0].planetName}: pick another world in the
+          Discovery Log.
+          <button
+            class="log-action"
+            title="Cancel comparison"
+            @click=${() => {
+              this.comparedPlanetIds = [];
+            }}>
+            ✕
+          </button>
+        </div>
+      `;
+    }
+
+    const rows: [string, (planet: PlanetData) => unknown][] = [
+      ['Type', (planet) => planet.planetType],
+      ['System', (planet) => planet.starSystem],
+      ['Star', (planet) => planet.starType],
+      ['Atmosphere', (planet) => planet.atmosphericComposition],
+      ['Surface', (planet) => planet.surfaceFeatures],
+      [
+        'Key Features',
+        (planet) =>
+          html`<ul>
+            ${planet.keyFeatures.map((feature) => html`<li>${feature}</li>`)}
+          </ul>`,
+      ],
+      [
+        'Orbit',
+        (planet) =>
+          planet.orbit
+            ? `${planet.orbit.semiMajorAxisAU} AU, e ${planet.orbit.eccentricity}, i ${planet.orbit.inclinationDeg}°`
+            : '—',
+      ],
+      [
+        'Palette',
+        (planet) =>
+          html`${[
+            planet.visualization.color1,
+            planet.visualization.color2,
+            planet.visualization.atmosphereColor,
+          ].map(
+            (color) =>
+              html`<span
+                class="swatch"
+                title=${color}
+                style="background: ${color}"></span>`,
+          )}`,
+      ],
+      ['Rings', (planet) => (planet.visualization.hasRings ? 'Yes' : 'No')],
+      ['Discovery', (planet) => planet.discoveryNarrative],
+      ['Methodology', (planet) => planet.discoveryMethodology],
+      ['AI Whisper', (planet) => html`<em>“${planet.aiWhisper}”</em>`],
+    ];
+    const estimates = new Map(
+      planets.map((planet) => [planet, estimatePhysicalParameters(planet)]),
+    );
+    // Bars are scaled to the largest value in the row.
+    const bars: [string, string, (planet: PlanetData) => number][] = [
+      ['Distance', 'ly', (planet) => planet.distanceLightYears],
+      ['Radius', 'R⊕', (planet) => estimates.get(planet).radiusEarth],
+      ['Mass', 'M⊕', (planet) => estimates.get(planet).massEarth],
+      [
+        'Equilibrium Temp.',
+        'K',
+        (planet) => estimates.get(planet).equilibriumTemperatureK,
+      ],
+      [
+        'Earth Similarity',
+        '',
+        (planet) => estimates.get(planet).earthSimilarityIndex,
+      ],
+    ];
+
+    return html`
+      <div class="comparison-panel">
+        <button
+          class="log-action close"
+          title="Close comparison"
+          @click=${() => {
+            this.comparedPlanetIds = [];
+          }}>
+          ✕
+        </button>
+        <table>
+          <thead>
+            <tr>
+              <th></th>
+              ${planets.map(
+                (planet) => html`
+                  <th
+                    @click=${() => this._selectPlanet(planet.celestial_body_id)}>
+                    ${planet.planetName}
+                  </th>
+                `,
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            ${bars.map(([label, unit, value]) => {
+              const values = planets.map(value);
+              const max = Math.max(...values, 0);
+              return html`
+                <tr>
+                  <th>${label}</th>
+                  ${values.map(
+                    (v) => html`
+                      <td>
+                        <div class="bar">
+                          <div
+                            class="bar-fill"
+                            style="width: ${max > 0 ? (v / max) * 100 : 0}%"></div>
+                        </div>
+                        ${Number(v.toPrecision(3))} ${unit}
+                      </td>
+                    `,
+                  )}
+                </tr>
+              `;
+            })}
+            ${rows.map(
+              ([label, value]) => html`
+                <tr>
+                  <th>${label}</th>
+                  ${planets.map((planet) => html`<td>${value(planet)}</td>`)}
+                </tr>
+              `,
+            )}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  renderSynthesisQueue() {
+    if (this.queuedSyntheses.length === 0) return nothing;
+    const sourceLabels: Record<SynthesisSource, string> = {
+      user: 'You',
+      autonomous: 'Auto',
+      voice: 'Voice',
+    };
+    return html`
+      <ol class="synthesis-queue" aria-label="Pending syntheses">
+        ${this.queuedSyntheses.map(
+          (item) => html`
+            <li class=${item.status}>
+              <span class="queue-source">${sourceLabels[item.source]}</span>
+              <span class="queue-prompt" title=${item.prompt}>
+                ${item.prompt}
+              </span>
+              <span class="queue-status">
+                ${item.status === 'running' ? 'Synthesizing' : 'Queued'}
+              </span>
+              <button
+                class="secondary"
+                @click=${() => this.synthesisQueue.cancel(item.id)}
+                title="Cancel this synthesis"
+                aria-label="Cancel synthesis of ${item.prompt}">
+                ✕
+              </button>
+            </li>
+          `,
+        )}
+      </ol>
+    `;
+  }
+
+  renderTourControls() {
+    const {state, stage, tourName, stopIndex, stopCount, planetId} =
+      this.tour;
+    if (state !== 'playing' && state !== 'paused') return nothing;
+    const stageLabels: Record<TourSnapshot['stage'], string> = {
+      flying: 'Flying',
+      narrating: 'Narrating',
+      dwelling: 'Lingering',
+    };
+    const planetName = this.planetEntry(planetId)?.planet.planetName;
+    return html`
+      <div class="tour-controls">
+        <span>
+          Tour: ${tourName} · ${stopIndex + 1}/${stopCount}
+          ${planetName ? `· ${planetName}` : nothing}
+          · ${state === 'paused' ? 'Paused' : stageLabels[stage]}
+        </span>
+        <button
+          class="secondary"
+          @click=${() =>
+            state === 'paused'
+              ? this.tourPlayer.resume()
+              : this.tourPlayer.pause()}>
+          ${state === 'paused' ? 'Resume' : 'Pause'}
+        </button>
+        <button class="secondary" @click=${() => this.tourPlayer.next()}>
+          Next
+        </button>
+        <button class="secondary" @click=${this.saveTour}>Save</button>
+        <button class="secondary" @click=${() => this.tourPlayer.stop()}>
+          End
+        </button>
+      </div>
+    `;
+  }
+
+  renderDiscoveryControls() {
+    const {
+      state,
+      discoveries,
+      maxDiscoveries,
+      cadenceMs,
+      consecutiveFailures,
+    } = this.discovery;
+    const stateLabels: Record<DiscoverySnapshot['state'], string> = {
+      idle: 'Idle',
+      running: 'Running',
+      paused: 'Paused',
+      stopped: 'Stopped',
+      complete: 'Complete',
+    };
+    return html`
+      <div class="discovery-controls">
+        <span>
+          Autonomous discovery: ${stateLabels[state]}
+          ${state === 'idle' ? nothing : `· ${discoveries}/${maxDiscoveries}`}
+          ${
+            consecutiveFailures > 0 && state === 'running'
+              ? `· backing off after ${consecutiveFailures} failed ${
+                  consecutiveFailures === 1 ? 'attempt' : 'attempts'
+                }`
+              : nothing
+          }
+        </span>
+        <label>
+          Every
+          <select
+            @change=${(e: Event) =>
+              this.discoveryScheduler.configure({
+                cadenceMs: Number((e.target as HTMLSelectElement).value),
+              })}>
+            ${[10000, 20000, 60000, 300000].map(
+              (ms) =>
+                html`<option value=${ms} ?selected=${ms === cadenceMs}>
+                  ${ms < 60000 ? `${ms / 1000}s` : `${ms / 60000}m`}
+                </option>`,
+            )}
+          </select>
+        </label>
+        <label>
+          Up to
+          <select
+            @change=${(e: Event) =>
+              this.discoveryScheduler.configure({
+                maxDiscoveries: Number((e.target as HTMLSelectElement).value),
+              })}>
+            ${[5, 10, 25, 100].map(
+              (count) =>
+                html`<option
+                  value=${count}
+                  ?selected=${count === maxDiscoveries}>
+                  ${count} worlds
+                </option>`,
+            )}
+          </select>
+        </label>
+      </div>
+    `;
+  }
+
+  renderCaptureControls() {
+    return html`
+      <div class="capture-controls">
+        <label>
+          Still
+          <select
+            @change=${(e: Event) => {
+              this.stillSize =
+                STILL_SIZES[(e.target as HTMLSelectElement).selectedIndex];
+            }}>
+            ${STILL_SIZES.map(
+              (size) =>
+                html`<option ?selected=${size === this.stillSize}>
+                  ${size.label} · ${size.width}×${size.height}
+                </option>`,
+            )}
+          </select>
+        </label>
+        <label title="Overlay the selected planet's name and whisper">
+          <input
+            type="checkbox"
+            .checked=${this.captionStills}
+            @change=${(e: Event) => {
+              this.captionStills = (e.target as HTMLInputElement).checked;
+            }} />
+          Caption
+        </label>
+        <button
+          class="secondary"
+          ?disabled=${this.isCapturing}
+          @click=${this.captureStill}>
+          Capture
+        </button>
+        <button
+          class="secondary ${this.isRecording ? 'active' : ''}"
+          title="Record the scene to WebM video"
+          @click=${this.toggleRecording}>
+          ${this.isRecording ? '■ Stop Recording' : '● Record'}
+        </button>
+      </div>
+    `;
+  }
+
+  renderTimeControls() {
+    const rates = [
+      {rate: 0, label: 'Pause'},
+      {rate: 1, label: '1×'},
+      {rate: 100, label: '100×'},
+    ];
+    return html`
+      <div class="time-controls" role="group" aria-label="Orbital time scale">
+        ${rates.map(
+          ({rate, label}) => html`
+            <button
+              class="secondary ${this.timeRate === rate ? 'active' : ''}"
+              @click=${() => {
+                this.timeRate = rate;
+              }}>
+              ${label}
+            </button>
+          `,
+        )}
+        <button
+          class="secondary ${this.timeReversed ? 'active' : ''}"
+          title="Run orbits backwards"
+          @click=${() => {
+            this.timeReversed = !this.timeReversed;
+          }}>
+          Reverse
+        </button>
       </div>
     `;
   }
@@ -745,15 +2946,28 @@ export class AxeeInterface extends LitElement {
   render() {
     return html`
       <axee-visuals-3d
-        .planets=${Array.from(this.discoveredPlanets.values())}
+        .planetsData=${this.streamingScenePlanet &&
+        !this.discoveredPlanets.has(this.streamingScenePlanet.celestial_body_id)
+          ? [...this.catalogPlanets, this.streamingScenePlanet]
+          : this.catalogPlanets}
         .selectedPlanetId=${this.selectedPlanetId}
+        .focusedSystem=${this.focusedSystem}
+        .comparedPlanets=${this.comparedPlanets}
+        .dimmedPlanetIds=${this.dimmedPlanetIds}
         .isScanning=${this.isLoading}
+        .showStats=${this.showStats}
         .micStream=${this.micStream}
         .isListening=${this.isListening}
         .isSpeaking=${this.isSpeaking}
-        @planet-selected=${
-          this.handlePlanetSelected
-        }></axee-visuals-3d>
+        .speechUtterance=${this.speechUtterance}
+        .speechOutputNode=${this.liveConversation?.outputNode ?? null}
+        .timeScale=${this.timeReversed ? -this.timeRate : this.timeRate}
+        @planet-selected=${this.handlePlanetSelected}
+        @system-selected=${this.handleSystemSelected}
+        @camera-arrived=${(e: CustomEvent) =>
+          this.tourPlayer.arrived(e.detail.planetId)}
+        @camera-interrupted=${() => this.tourPlayer.pause()}
+        @camera-moved=${this.writeViewHash}></axee-visuals-3d>
 
       <div class="overlay">
         <header>
@@ -762,47 +2976,25 @@ export class AxeeInterface extends LitElement {
         </header>
 
         ${this.renderDetailsPanel()}
-        ${
-          this.hasStartedDiscovery
-            ? html`
-                <div class="discovery-log">
-                  <h2>Discovery Log</h2>
-                  <ul class="discovery-list">
-                    ${Array.from(this.discoveredPlanets.values()).map(
-                      (planet) => html`
-                        <li
-                          class=${
-                            this.selectedPlanetId === planet.celestial_body_id
-                              ? 'selected'
-                              : ''
-                          }
-                          @click=${() =>
-                            this._selectPlanet(planet.celestial_body_id)}>
-                          ${planet.planetName}
-                          <span>${planet.planetType}</span>
-                        </li>
-                      `,
-                    )}
-                  </ul>
-                </div>
-              `
-            : nothing
-        }
-
+        ${this.renderComparison()}
+        ${this.renderDiscoveryLog()}
 
         <footer>
+          ${this.renderCommandOutput()}
+          ${this.renderSynthesisQueue()}
           <div class="command-bar">
             <input
               type="text"
-              placeholder="Describe a world to seed the discovery process..."
+              placeholder=${
+                this.hasStartedDiscovery
+                  ? 'Describe another world to queue, or type /help...'
+                  : 'Describe a world to seed the discovery process, or type /help...'
+              }
               .value=${this.userPrompt}
               @input=${(e: Event) => {
                 this.userPrompt = (e.target as HTMLInputElement).value;
               }}
-              @keydown=${(e: KeyboardEvent) => {
-                if (e.key === 'Enter') this.handleSynthesis();
-              }}
-              ?disabled=${this.isLoading || this.hasStartedDiscovery}
+              @keydown=${this.handleCommandKeydown}
               aria-label="Exoplanet synthesis command" />
             ${
               this.micStream
@@ -811,8 +3003,7 @@ export class AxeeInterface extends LitElement {
                       class="mic-button ${this.isListening ? 'listening' : ''}"
                       @click=${this.handleVoiceCommand}
                       title="Speak Command"
-                      aria-label="Activate voice command"
-                      ?disabled=${this.hasStartedDiscovery}>
+                      aria-label="Activate voice command">
                       <svg viewBox="0 0 24 24">
                         <path
                           d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.49 6-3.31 6-6.72h-1.7z" />
@@ -824,21 +3015,59 @@ export class AxeeInterface extends LitElement {
           </div>
 
           <div class="button-group">
-            <button
-              @click=${this.handleSynthesis}
-              ?disabled=${this.isLoading || this.hasStartedDiscovery}>
-              ${
-                this.hasStartedDiscovery
-                  ? 'Discovery in Progress'
-                  : 'Start Discovery'
-              }
-            </button>
+            ${
+              this.hasStartedDiscovery
+                ? html`
+                    <button @click=${this.toggleDiscoveryPause}>
+                      ${
+                        this.discovery.state === 'paused'
+                          ? 'Resume Discovery'
+                          : 'Pause Discovery'
+                      }
+                    </button>
+                    <button
+                      class="secondary"
+                      @click=${() => this.discoveryScheduler.stop()}>
+                      Stop
+                    </button>
+                  `
+                : html`
+                    <button @click=${this.handleSynthesis}>
+                      Start Discovery
+                    </button>
+                  `
+            }
             <button
               @click=${this.enableAudio}
               class="secondary ${this.micStream ? 'active' : ''}">
               ${this.micStream ? 'Audio Enabled' : 'Enable Audio'}
             </button>
+            <button
+              @click=${this.toggleLiveConversation}
+              class="secondary ${this.liveConversation ? 'active' : ''}"
+              title="Hold a spoken conversation with AXEE">
+              ${this.liveConversation ? 'End Live Voice' : 'Live Voice'}
+            </button>
+            <button
+              @click=${() => this.flyToSystem(null)}
+              class="secondary ${!this.focusedSystem && !this.selectedPlanetId
+                ? 'active'
+                : ''}"
+              title="Show every discovered system">
+              Galaxy View
+            </button>
+            <button
+              @click=${this.cycleProvider}
+              class="secondary"
+              ?disabled=${this.isLoading || this.providers.length < 2}
+              title="Switch synthesis engine">
+              Engine: ${this.provider.label}
+            </button>
           </div>
+          ${this.renderDiscoveryControls()}
+          ${this.renderTourControls()}
+          ${this.renderCaptureControls()}
+          ${this.renderTimeControls()}
           <div class="status-bar">
             ${
               this.isLoading
@@ -0,0 +1,473 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, PropertyValues, css, html, nothing} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {BlsRequest, BlsResult} from './box-least-squares';
+import {LightCurve, simulatePlanetLightCurve} from './light-curve';
+import {PlanetData} from './planet-model';
+
+type PlotView = 'series' | 'folded' | 'periodogram';
+
+const VIEW_LABELS: Record<PlotView, string> = {
+  series: 'Time Series',
+  folded: 'Phase Folded',
+  periodogram: 'Periodogram',
+};
+
+const PLOT_WIDTH = 350;
+const PLOT_HEIGHT = 170;
+const MARGIN = {top: 8, right: 8, bottom: 22, left: 44};
+// A detection within this fraction of the true period counts as recovered.
+const RECOVERY_TOLERANCE = 0.01;
+const FOLDED_BINS = 60;
+
+interface Analysis {
+  curve: LightCurve;
+  // Null while the search is pending, and for fewer than two transits.
+  detection: BlsResult | null;
+  searchFailed: boolean;
+}
+
+/**
+ * What a transit survey would see of the selected planet: the simulated
+ * light curve of its host star, the light curve folded on the period, and a
+ * box least squares search that tries to find that period blind.
+ */
+@customElement('axee-light-curve')
+export class AxeeLightCurve extends LitElement {
+  @property({attribute: false})
+  planet: PlanetData | null = null;
+
+  @state() private view: PlotView = 'series';
+  @state() private analysis: Analysis | null = null;
+
+  // Light curves and searches by planet ID; the search takes seconds on long
+  // baselines, so it only ever runs once per planet, in a worker.
+  private analyses = new Map<string, Analysis>();
+  private searchWorker: Worker | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+    .views {
+      display: flex;
+      gap: 0.25rem;
+      margin-bottom: 0.4rem;
+    }
+    .views button {
+      flex: 1;
+      background: transparent;
+      border: 1px solid rgba(0, 170, 255, 0.5);
+      color: inherit;
+      font: inherit;
+      font-size: 0.75rem;
+      padding: 0.2rem;
+      cursor: pointer;
+    }
+    .views button.active {
+      background: rgba(0, 170, 255, 0.3);
+      border-color: #0af;
+    }
+    canvas {
+      width: ${PLOT_WIDTH}px;
+      height: ${PLOT_HEIGHT}px;
+      max-width: 100%;
+      display: block;
+    }
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.2rem 1rem;
+      margin: 0.5rem 0 0 0;
+      font-size: 0.85rem;
+    }
+    dt {
+      color: #0ff;
+    }
+    dd {
+      margin: 0;
+    }
+    .verdict {
+      font-size: 0.85rem;
+      margin: 0.4rem 0 0 0;
+    }
+    .verdict.recovered {
+      color: #0f8;
+    }
+    .note {
+      font-size: 0.85rem;
+      opacity: 0.7;
+    }
+  `;
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.cancelSearch();
+  }
+
+  protected willUpdate(changed: PropertyValues<this>) {
+    if (!changed.has('planet')) return;
+    // A search for the previous planet is abandoned; it starts over if that
+    // planet is selected again.
+    this.cancelSearch();
+    if (!this.planet) {
+      this.analysis = null;
+      return;
+    }
+    const id = this.planet.celestial_body_id;
+    let analysis = this.analyses.get(id);
+    if (!analysis) {
+      analysis = {
+        curve: simulatePlanetLightCurve(this.planet),
+        detection: null,
+        searchFailed: false,
+      };
+      this.analyses.set(id, analysis);
+    }
+    this.analysis = analysis;
+    if (
+      !analysis.detection &&
+      !analysis.searchFailed &&
+      analysis.curve.transitTimes.length >= 2
+    ) {
+      this.startSearch(analysis);
+    }
+  }
+
+  private startSearch(analysis: Analysis) {
+    const worker = new Worker(new URL('./bls-worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.searchWorker = worker;
+    const finish = (update: Partial<Analysis>) => {
+      this.cancelSearch();
+      Object.assign(analysis, update);
+      if (this.analysis === analysis) this.analysis = {...analysis};
+    };
+    worker.onmessage = (event: MessageEvent<BlsResult>) => {
+      finish({detection: event.data});
+    };
+    worker.onerror = (event) => {
+      console.error('Period search failed:', event.message);
+      finish({searchFailed: true});
+    };
+    // Copied rather than transferred, since the plot still draws the curve.
+    const {times, flux} = analysis.curve;
+    const request: BlsRequest = {times, flux};
+    worker.postMessage(request);
+  }
+
+  private cancelSearch() {
+    this.searchWorker?.terminate();
+    this.searchWorker = null;
+  }
+
+  protected updated() {
+    const canvas = this.shadowRoot!.querySelector('canvas');
+    if (!canvas || !this.analysis) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = PLOT_WIDTH * scale;
+    canvas.height = PLOT_HEIGHT * scale;
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+    ctx.clearRect(0, 0, PLOT_WIDTH, PLOT_HEIGHT);
+    const {curve, detection} = this.analysis;
+    if (this.view === 'series') drawSeries(ctx, curve);
+    else if (this.view === 'folded') drawFolded(ctx, curve, detection);
+    else drawPeriodogram(ctx, curve, detection);
+  }
+
+  private renderViews() {
+    const views = Object.keys(VIEW_LABELS) as PlotView[];
+    return html`<div class="views">
+      ${views.map(
+        (view) =>
+          html`<button
+            class=${this.view === view ? 'active' : ''}
+            ?disabled=${view === 'periodogram' && !this.analysis.detection}
+            @click=${() => (this.view = view)}>
+            ${VIEW_LABELS[view]}
+          </button>`,
+      )}
+    </div>`;
+  }
+
+  private renderDetection({curve, detection, searchFailed}: Analysis) {
+    if (curve.transitTimes.length < 2) {
+      return html`<p class="note">
+        Only one transit falls within the ${Math.round(curve.baselineDays)}-day
+        baseline; at least two are needed to measure a period.
+      </p>`;
+    }
+    if (searchFailed) {
+      return html`<p class="note">The period search failed.</p>`;
+    }
+    if (!detection) {
+      return html`<p class="note">Searching for periodic dips...</p>`;
+    }
+    const error = (detection.periodDays - curve.periodDays) / curve.periodDays;
+    const recovered = Math.abs(error) < RECOVERY_TOLERANCE;
+    const verdict = recovered
+      ? 'Period recovered by the box least squares search.'
+      : 'The search locked onto a different period: the transit is too shallow or too sparsely sampled to stand out from the noise.';
+    return html`
+      <dl>
+        <dt>Detected Period</dt>
+        <dd>
+          ${detection.periodDays.toFixed(3)} d
+          (${error >= 0 ? '+' : ''}${(error * 100).toFixed(2)}%)
+        </dd>
+        <dt>Detected Depth</dt>
+        <dd>${Math.round(detection.depthPpm)} ppm</dd>
+        <dt>Detected Duration</dt>
+        <dd>${detection.durationHours.toFixed(1)} h</dd>
+        <dt>Signal-to-Noise</dt>
+        <dd>${detection.snr.toFixed(1)}</dd>
+      </dl>
+      <p class="verdict ${recovered ? 'recovered' : ''}">
+        ${verdict}
+      </p>
+    `;
+  }
+
+  protected render() {
+    const analysis = this.analysis;
+    if (!analysis) return nothing;
+    const {curve, detection} = analysis;
+    if (curve.transitTimes.length === 0) {
+      return html`<p class="note">
+        Not a transiting planet: seen from Earth its orbit passes
+        ${curve.impactParameter.toFixed(1)} stellar radii from the center of its
+        star, so it never crosses the stellar disk.
+      </p>`;
+    }
+    return html`
+      ${this.renderViews()}
+      <canvas></canvas>
+      <dl>
+        <dt>True Period</dt>
+        <dd>${curve.periodDays.toFixed(3)} d</dd>
+        <dt>Transit Depth</dt>
+        <dd>${Math.round(curve.depthPpm)} ppm</dd>
+        <dt>Duration</dt>
+        <dd>${curve.durationHours.toFixed(1)} h</dd>
+        <dt>Impact Parameter</dt>
+        <dd>${curve.impactParameter.toFixed(2)}</dd>
+        <dt>Noise</dt>
+        <dd>
+          ${Math.round(curve.noisePpm)} ppm per
+          ${Math.round(curve.cadenceDays * 1440)}-min cadence
+        </dd>
+      </dl>
+      ${this.renderDetection(analysis)}
+    `;
+  }
+}
+
+interface Axes {
+  x: (value: number) => number;
+  y: (value: number) => number;
+}
+
+function plotAxes(
+  ctx: CanvasRenderingContext2D,
+  [xMin, xMax]: [number, number],
+  [yMin, yMax]: [number, number],
+  xLabel: string,
+  yTicks: [number, string][],
+): Axes {
+  const width = PLOT_WIDTH - MARGIN.left - MARGIN.right;
+  const height = PLOT_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const axes = {
+    x: (value: number) =>
+      MARGIN.left + ((value - xMin) / (xMax - xMin)) * width,
+    y: (value: number) =>
+      MARGIN.top + (1 - (value - yMin) / (yMax - yMin)) * height,
+  };
+  ctx.strokeStyle = 'rgba(0, 170, 255, 0.5)';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(MARGIN.left, MARGIN.top, width, height);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (const [value, label] of yTicks) {
+    ctx.fillText(label, MARGIN.left - 4, axes.y(value));
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(xLabel, MARGIN.left + width / 2, PLOT_HEIGHT - 2);
+  return axes;
+}
+
+// Flux range that shows the full transit and a few sigma of noise.
+function fluxRange(curve: LightCurve): [number, number] {
+  const padding = Math.max(4 * curve.noisePpm, curve.depthPpm * 0.2) * 1e-6;
+  return [1 - curve.depthPpm * 1e-6 - padding, 1 + padding];
+}
+
+function fluxTicks([low, high]: [number, number]): [number, string][] {
+  const toPpm = (flux: number) => Math.round((flux - 1) * 1e6);
+  return [
+    [high, `${toPpm(high)}`],
+    [1, '0'],
+    [low, `${toPpm(low)}`],
+  ];
+}
+
+function drawPoints(
+  ctx: CanvasRenderingContext2D,
+  points: Iterable<[number, number]>,
+  color: string,
+) {
+  ctx.fillStyle = color;
+  for (const [x, y] of points) ctx.fillRect(x - 0.75, y - 0.75, 1.5, 1.5);
+}
+
+function drawSeries(ctx: CanvasRenderingContext2D, curve: LightCurve) {
+  const range = fluxRange(curve);
+  const axes = plotAxes(
+    ctx,
+    [0, curve.baselineDays],
+    range,
+    'Time (days) · flux in ppm',
+    fluxTicks(range),
+  );
+  ctx.fillStyle = 'rgba(255, 200, 0, 0.8)';
+  for (const time of curve.transitTimes) {
+    ctx.fillRect(axes.x(time) - 0.5, MARGIN.top, 1, 4);
+  }
+  drawPoints(
+    ctx,
+    Array.from(curve.times, (time, i): [number, number] => [
+      axes.x(time),
+      axes.y(curve.flux[i]),
+    ]),
+    'rgba(0, 200, 255, 0.6)',
+  );
+}
+
+function drawFolded(
+  ctx: CanvasRenderingContext2D,
+  curve: LightCurve,
+  detection: BlsResult | null,
+) {
+  // Fold on the detected period once the search has run, so a wrong period
+  // visibly smears the transit out.
+  const period = detection?.periodDays ?? curve.periodDays;
+  const epoch = detection?.epochDays ?? curve.transitTimes[0];
+  const halfWindowHours = Math.max(curve.durationHours * 1.5, 3);
+  const range = fluxRange(curve);
+  const axes = plotAxes(
+    ctx,
+    [-halfWindowHours, halfWindowHours],
+    range,
+    `Hours from mid-transit (P = ${period.toFixed(3)} d)`,
+    fluxTicks(range),
+  );
+
+  const offsets: number[] = [];
+  const fluxes: number[] = [];
+  curve.times.forEach((time, i) => {
+    const cycles = (time - epoch) / period;
+    const hours = (cycles - Math.round(cycles)) * period * 24;
+    if (Math.abs(hours) <= halfWindowHours) {
+      offsets.push(hours);
+      fluxes.push(curve.flux[i]);
+    }
+  });
+  drawPoints(
+    ctx,
+    offsets.map((hours, i): [number, number] => [
+      axes.x(hours),
+      axes.y(fluxes[i]),
+    ]),
+    'rgba(0, 200, 255, 0.5)',
+  );
+
+  // Binned means bring the shape out of the noise.
+  const sums = new Array(FOLDED_BINS).fill(0);
+  const counts = new Array(FOLDED_BINS).fill(0);
+  offsets.forEach((hours, i) => {
+    const bin = Math.min(
+      FOLDED_BINS - 1,
+      Math.floor(
+        ((hours + halfWindowHours) / (2 * halfWindowHours)) * FOLDED_BINS,
+      ),
+    );
+    sums[bin] += fluxes[i];
+    counts[bin]++;
+  });
+  ctx.fillStyle = '#fff';
+  sums.forEach((sum, bin) => {
+    if (counts[bin] === 0) return;
+    const hours = ((bin + 0.5) / FOLDED_BINS) * 2 * halfWindowHours;
+    const x = axes.x(hours - halfWindowHours);
+    const y = axes.y(sum / counts[bin]);
+    ctx.fillRect(x - 1.5, y - 1.5, 3, 3);
+  });
+
+  // The noise-free model around the first transit, on the true period.
+  const center = curve.transitTimes[0];
+  ctx.strokeStyle = 'rgba(255, 200, 0, 0.9)';
+  ctx.beginPath();
+  for (let i = 0; i <= 200; i++) {
+    const hours = -halfWindowHours + (i / 200) * 2 * halfWindowHours;
+    const y = axes.y(curve.model(center + hours / 24));
+    if (i === 0) ctx.moveTo(axes.x(hours), y);
+    else ctx.lineTo(axes.x(hours), y);
+  }
+  ctx.stroke();
+}
+
+function drawPeriodogram(
+  ctx: CanvasRenderingContext2D,
+  curve: LightCurve,
+  detection: BlsResult | null,
+) {
+  if (!detection) return;
+  const {periods, power} = detection;
+  const logMin = Math.log10(periods[0]);
+  const logMax = Math.log10(periods[periods.length - 1]);
+  const maxPower = power.reduce((max, value) => Math.max(max, value), 0);
+  const axes = plotAxes(
+    ctx,
+    [logMin, logMax],
+    [0, maxPower * 1.05],
+    `Trial period (days, ${periods[0].toFixed(1)}–${periods[
+      periods.length - 1
+    ].toFixed(0)}, log scale)`,
+    [
+      [maxPower, 'max'],
+      [0, '0'],
+    ],
+  );
+  const trueX = axes.x(Math.log10(curve.periodDays));
+  ctx.strokeStyle = 'rgba(255, 200, 0, 0.6)';
+  ctx.setLineDash([3, 3]);
+  ctx.beginPath();
+  ctx.moveTo(trueX, MARGIN.top);
+  ctx.lineTo(trueX, PLOT_HEIGHT - MARGIN.bottom);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  ctx.strokeStyle = '#0cf';
+  ctx.beginPath();
+  periods.forEach((period, i) => {
+    const x = axes.x(Math.log10(period));
+    const y = axes.y(power[i]);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'axee-light-curve': AxeeLightCurve;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {estimateRadiusEarth} from './planet-dimensions';
+import {
+  OrbitalElements,
+  orbitalElementsFor,
+  orbitalPositionAt,
+} from './orbital-mechanics';
+import {PlanetData} from './planet-model';
+import {
+  createSeededRandom,
+  hashString,
+  randomGaussian,
+} from './seeded-random';
+import {SpectralClass, stellarPropertiesOf} from './stellar-classification';
+
+const SOLAR_RADII_PER_AU = 215.032;
+const SOLAR_RADII_PER_EARTH_RADIUS = 1 / 109.2;
+// Kepler's long cadence: one exposure every 29.4 minutes.
+const MIN_CADENCE_DAYS = 29.4 / 1440;
+const MAX_SAMPLES = 4000;
+// Photometric scatter per long-cadence point for a bright, quiet star.
+const NOISE_PPM_AT_MIN_CADENCE = 120;
+// Kepler's primary mission lasted about four years.
+const MAX_BASELINE_DAYS = 1460;
+const MIN_BASELINE_DAYS = 27;
+
+// Approximate quadratic limb-darkening coefficients [u1, u2] in the Kepler
+// band; cooler stars have darker limbs.
+const LIMB_DARKENING: Record<SpectralClass, [number, number]> = {
+  O: [0.15, 0.25],
+  B: [0.2, 0.25],
+  A: [0.3, 0.25],
+  F: [0.36, 0.27],
+  G: [0.42, 0.25],
+  K: [0.52, 0.19],
+  M: [0.45, 0.3],
+};
+
+/** Inputs to the simulator, in the units astronomers quote them in. */
+export interface TransitSystem {
+  radiusEarth: number;
+  starRadiusSolar: number;
+  spectralClass: SpectralClass;
+  elements: OrbitalElements;
+}
+
+export interface LightCurve {
+  // Days since the simulation epoch, shared with the 3D scene's clock.
+  times: Float64Array;
+  // Normalized flux, 1 out of transit.
+  flux: Float64Array;
+  noisePpm: number;
+  cadenceDays: number;
+  baselineDays: number;
+  periodDays: number;
+  // Mid-transit times within the baseline; empty when the planet misses the
+  // stellar disk as seen from Earth.
+  transitTimes: number[];
+  impactParameter: number;
+  depthPpm: number;
+  durationHours: number;
+  // Noise-free flux at `time`, for overplotting.
+  model: (time: number) => number;
+}
+
+function quadraticIntensity(r: number, [u1, u2]: [number, number]) {
+  const mu = Math.sqrt(1 - r * r);
+  return 1 - u1 * (1 - mu) - u2 * (1 - mu) ** 2;
+}
+
+/**
+ * Fraction of a limb-darkened star's light blocked by a planet of radius
+ * `p` (stellar radii) whose center is `z` stellar radii from the star's
+ * center. Integrates the occulted intensity over thin annuli of the disk.
+ */
+export function occultedFraction(
+  z: number,
+  p: number,
+  limbDarkening: [number, number],
+  annuli = 200,
+): number {
+  if (z >= 1 + p) return 0;
+  const [u1, u2] = limbDarkening;
+  // Total flux of the quadratic law, in units of π.
+  const total = 1 - u1 / 3 - u2 / 6;
+  const inner = Math.max(0, z - p);
+  const outer = Math.min(1, z + p);
+  const dr = (outer - inner) / annuli;
+  let blocked = 0;
+  for (let i = 0; i < annuli; i++) {
+    const r = inner + (i + 0.5) * dr;
+    let covered: number;
+    if (r <= p - z) {
+      covered = 1; // The annulus sits wholly inside the planet's disk.
+    } else {
+      const cos = (r * r + z * z - p * p) / (2 * r * z);
+      covered = cos >= 1 ? 0 : cos <= -1 ? 1 : Math.acos(cos) / Math.PI;
+    }
+    blocked += quadraticIntensity(r, limbDarkening) * covered * 2 * r * dr;
+  }
+  return blocked / total;
+}
+
+/**
+ * The observer sits far along the scene's +z axis, in the reference plane,
+ * so a planet transits when its x/y offset from the star is within the
+ * stellar disk while it is on the near side. Returns that offset in stellar
+ * radii, or Infinity behind the star.
+ */
+function skySeparation(
+  elements: OrbitalElements,
+  time: number,
+  starRadiusSolar: number,
+) {
+  const {x, y, z} = orbitalPositionAt(elements, time);
+  if (z <= 0) return Infinity;
+  return (Math.hypot(x, y) * SOLAR_RADII_PER_AU) / starRadiusSolar;
+}
+
+// Time of closest approach to the disk center within the first orbit.
+function firstConjunction(system: TransitSystem) {
+  const {elements, starRadiusSolar} = system;
+  const period = elements.periodDays;
+  const separation = (t: number) => skySeparation(elements, t, starRadiusSolar);
+  const steps = 2000;
+  let best = 0;
+  for (let i = 1; i < steps; i++) {
+    const t = (i / steps) * period;
+    if (separation(t) < separation(best)) best = t;
+  }
+  // Golden-section refinement within one coarse step either side.
+  let low = best - period / steps;
+  let high = best + period / steps;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 40; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (separation(a) < separation(b)) high = b;
+    else low = a;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Simulates a space-telescope light curve of the host star: limb-darkened
+ * transits of the planet on its Keplerian orbit, sampled at a fixed cadence
+ * with Gaussian photometric noise. Deterministic for a given `seed`.
+ */
+export function simulateLightCurve(
+  system: TransitSystem,
+  seed: number,
+): LightCurve {
+  const {elements, starRadiusSolar} = system;
+  const period = elements.periodDays;
+  const p =
+    (system.radiusEarth * SOLAR_RADII_PER_EARTH_RADIUS) / starRadiusSolar;
+  const limbDarkening = LIMB_DARKENING[system.spectralClass];
+
+  const conjunction = firstConjunction(system);
+  const impactParameter = skySeparation(elements, conjunction, starRadiusSolar);
+  const transits = impactParameter < 1 + p;
+
+  // Half-duration: the time either side of mid-transit before the planet
+  // clears the disk, found by stepping out from the conjunction.
+  let halfDuration = 0;
+  if (transits) {
+    const step = period / 20000;
+    while (
+      halfDuration < period / 4 &&
+      skySeparation(elements, conjunction + halfDuration, starRadiusSolar) <
+        1 + p
+    ) {
+      halfDuration += step;
+    }
+  }
+
+  const model = (time: number) => {
+    if (!transits) return 1;
+    const phase = time - conjunction;
+    const offset = phase - Math.round(phase / period) * period;
+    // Eccentric transits are slightly lopsided, so leave some slack.
+    if (Math.abs(offset) > 2 * halfDuration) return 1;
+    const z = skySeparation(elements, time, starRadiusSolar);
+    return 1 - occultedFraction(z, p, limbDarkening);
+  };
+
+  const baselineDays = Math.min(
+    Math.max(3.5 * period, MIN_BASELINE_DAYS),
+    MAX_BASELINE_DAYS,
+  );
+  const cadenceDays = Math.max(MIN_CADENCE_DAYS, baselineDays / MAX_SAMPLES);
+  const count = Math.floor(baselineDays / cadenceDays);
+  const noisePpm =
+    NOISE_PPM_AT_MIN_CADENCE * Math.sqrt(MIN_CADENCE_DAYS / cadenceDays);
+  const random = createSeededRandom(seed);
+  const times = new Float64Array(count);
+  const flux = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    times[i] = i * cadenceDays;
+    flux[i] = model(times[i]) + randomGaussian(random) * noisePpm * 1e-6;
+  }
+
+  const transitTimes: number[] = [];
+  if (transits) {
+    for (let t = conjunction; t <= baselineDays; t += period) {
+      transitTimes.push(t);
+    }
+  }
+
+  return {
+    times,
+    flux,
+    noisePpm,
+    cadenceDays,
+    baselineDays,
+    periodDays: period,
+    transitTimes,
+    impactParameter,
+    depthPpm: (1 - model(conjunction)) * 1e6,
+    durationHours: halfDuration * 48,
+    model,
+  };
+}
+
+/** The light curve a telescope would record for this planet's star. */
+export function simulatePlanetLightCurve(planet: PlanetData): LightCurve {
+  const star = stellarPropertiesOf(planet.starType);
+  return simulateLightCurve(
+    {
+      radiusEarth: estimateRadiusEarth(planet),
+      starRadiusSolar: star.radiusSolar,
+      spectralClass: star.spectralClass,
+      elements: orbitalElementsFor(planet),
+    },
+    hashString(`${planet.celestial_body_id}:photometry`),
+  );
+}
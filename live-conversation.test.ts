@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @vitest-environment happy-dom
+
+import {FunctionCall, LiveCallbacks} from '@google/genai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {LiveConversation, LiveSession} from './live-conversation';
+import {connectMockLive} from './mock-live-server';
+import {decode} from './utils';
+
+// 64 ms of mic audio, as the conversation's script processor delivers it.
+const FRAME_SIZE = 1024;
+
+function fakeNode() {
+  return {connect: vi.fn(), disconnect: vi.fn()};
+}
+
+class FakeBufferSource {
+  buffer: {duration: number} | null = null;
+  startTime: number | null = null;
+  connect = vi.fn();
+  addEventListener = vi.fn();
+  start = vi.fn((when: number) => {
+    this.startTime = when;
+  });
+  stop = vi.fn();
+}
+
+// Neither Node nor happy-dom has Web Audio, so contexts only record what the
+// conversation asks of them.
+class FakeAudioContext {
+  static created: FakeAudioContext[] = [];
+  readonly sampleRate: number;
+  readonly destination = fakeNode();
+  currentTime = 0;
+  processor: {onaudioprocess: ((event: unknown) => void) | null} | null = null;
+  sources: FakeBufferSource[] = [];
+
+  constructor({sampleRate}: {sampleRate: number}) {
+    this.sampleRate = sampleRate;
+    FakeAudioContext.created.push(this);
+  }
+
+  resume() {
+    return Promise.resolve();
+  }
+
+  close() {}
+
+  createGain() {
+    return fakeNode();
+  }
+
+  createMediaStreamSource() {
+    return fakeNode();
+  }
+
+  createScriptProcessor() {
+    this.processor = {...fakeNode(), onaudioprocess: null};
+    return this.processor;
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return {duration: length / sampleRate, copyToChannel() {}};
+  }
+
+  createBufferSource() {
+    const source = new FakeBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+}
+
+function contextAt(sampleRate: number) {
+  return FakeAudioContext.created.find(
+    (context) => context.sampleRate === sampleRate,
+  )!;
+}
+
+// Feeds one frame of mic audio at a constant level.
+function speak(level: number) {
+  const pcm = new Float32Array(FRAME_SIZE).fill(level);
+  contextAt(16000).processor!.onaudioprocess!({
+    inputBuffer: {getChannelData: () => pcm},
+  });
+}
+
+describe('LiveConversation against the mock live server', () => {
+  let session: LiveSession;
+  let conversation: LiveConversation;
+  const onToolCall = vi.fn(async (call: FunctionCall) => ({
+    planetName: `World for ${call.args.prompt}`,
+  }));
+  const onSpeakingChange = vi.fn();
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    FakeAudioContext.created = [];
+    conversation = new LiveConversation({
+      connect: async (callbacks: LiveCallbacks) => {
+        session = await connectMockLive(callbacks);
+        vi.spyOn(session, 'sendRealtimeInput');
+        vi.spyOn(session, 'sendToolResponse');
+        return session;
+      },
+      onToolCall,
+      onSpeakingChange,
+    });
+    await conversation.start({} as MediaStream);
+    contextAt(24000).currentTime = 5;
+  });
+
+  afterEach(() => {
+    conversation.stop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  // A loud frame, then enough silence for the mock to end the user's turn.
+  async function finishTurn() {
+    speak(0.5);
+    for (let i = 0; i < 11; i++) speak(0);
+    await vi.advanceTimersByTimeAsync(0);
+  }
+
+  it('streams mic audio as 16 kHz PCM', () => {
+    speak(0.5);
+    expect(session.sendRealtimeInput).toHaveBeenCalledTimes(1);
+    const [{media}] = vi.mocked(session.sendRealtimeInput).mock.calls[0];
+    expect(media.mimeType).toBe('audio/pcm;rate=16000');
+    const samples = new Int16Array(decode(media.data).buffer);
+    expect(samples).toHaveLength(FRAME_SIZE);
+    expect(samples[0]).toBe(16384);
+  });
+
+  it('answers the synthesize_planet tool call', async () => {
+    await finishTurn();
+    expect(onToolCall).toHaveBeenCalledTimes(1);
+    const [call] = onToolCall.mock.calls[0];
+    expect(call.name).toBe('synthesize_planet');
+    expect(session.sendToolResponse).toHaveBeenCalledWith({
+      functionResponses: [
+        {
+          id: call.id,
+          name: 'synthesize_planet',
+          response: {planetName: `World for ${call.args.prompt}`},
+        },
+      ],
+    });
+  });
+
+  it('plays the reply chunks back to back', async () => {
+    await finishTurn();
+    await vi.advanceTimersByTimeAsync(350);
+    const {sources} = contextAt(24000);
+    expect(sources).toHaveLength(3);
+    // Each 100 ms chunk starts where the previous one ends.
+    sources.forEach((source, i) => {
+      expect(source.buffer!.duration).toBeCloseTo(0.1);
+      expect(source.startTime).toBeCloseTo(5 + i * 0.1);
+    });
+    expect(onSpeakingChange).toHaveBeenLastCalledWith(true);
+  });
+
+  it('stops every queued chunk when the user barges in', async () => {
+    await finishTurn();
+    await vi.advanceTimersByTimeAsync(350);
+    speak(0.5);
+    await vi.advanceTimersByTimeAsync(0);
+    const {sources} = contextAt(24000);
+    expect(sources).toHaveLength(3);
+    for (const source of sources) expect(source.stop).toHaveBeenCalled();
+    expect(onSpeakingChange).toHaveBeenLastCalledWith(false);
+
+    // The interrupted reply does not resume.
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sources).toHaveLength(3);
+  });
+});
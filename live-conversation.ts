@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Blob,
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  LiveCallbacks,
+  LiveServerMessage,
+  Type,
+} from '@google/genai';
+import {createBlob, decode, decodeAudioData} from './utils';
+
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+// 64 ms of mic audio per realtime message.
+const INPUT_BUFFER_SIZE = 1024;
+
+export const SYNTHESIZE_PLANET_TOOL: FunctionDeclaration = {
+  name: 'synthesize_planet',
+  description:
+    'Synthesizes a new exoplanet from a description and adds it to the ' +
+    'discovery catalog. Returns a summary of the new world.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      prompt: {
+        type: Type.STRING,
+        description: 'What the user wants the new world to be like.',
+      },
+    },
+    required: ['prompt'],
+  },
+};
+
+/** The parts of a live `Session` the conversation uses. */
+export interface LiveSession {
+  sendRealtimeInput(params: {media: Blob}): void;
+  sendToolResponse(params: {functionResponses: FunctionResponse[]}): void;
+  close(): void;
+}
+
+/** Opens a live session, either against Gemini or the offline mock. */
+export type LiveConnector = (callbacks: LiveCallbacks) => Promise<LiveSession>;
+
+export interface LiveConversationOptions {
+  connect: LiveConnector;
+  onToolCall: (call: FunctionCall) => Promise<Record<string, unknown>>;
+  onStatus?: (message: string) => void;
+  onSpeakingChange?: (speaking: boolean) => void;
+}
+
+function sampleRateOf(mimeType: string | undefined) {
+  const match = /rate=(\d+)/.exec(mimeType ?? '');
+  return match ? Number(match[1]) : OUTPUT_SAMPLE_RATE;
+}
+
+/**
+ * A two-way voice conversation: streams 16 kHz mic PCM to a live session and
+ * plays the model's audio back to back. When the server reports that the user
+ * interrupted, queued playback is dropped immediately.
+ */
+export class LiveConversation {
+  private inputContext = new AudioContext({sampleRate: INPUT_SAMPLE_RATE});
+  private outputContext = new AudioContext({sampleRate: OUTPUT_SAMPLE_RATE});
+  /** Everything the model says passes through here, for visualisers. */
+  readonly outputNode = this.outputContext.createGain();
+
+  private session: LiveSession | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+
+  constructor(private options: LiveConversationOptions) {
+    this.outputNode.connect(this.outputContext.destination);
+  }
+
+  async start(stream: MediaStream) {
+    await Promise.all([
+      this.inputContext.resume(),
+      this.outputContext.resume(),
+    ]);
+    this.options.onStatus?.('Opening live channel...');
+    this.session = await this.options.connect({
+      onopen: () => this.options.onStatus?.('Live channel open. Speak freely.'),
+      onmessage: (message) => this.handleMessage(message),
+      onerror: (e) => this.options.onStatus?.(`Live error: ${e.message}`),
+      onclose: (e) =>
+        this.options.onStatus?.(
+          `Live channel closed${e.reason ? `: ${e.reason}` : '.'}`,
+        ),
+    });
+
+    this.micSource = this.inputContext.createMediaStreamSource(stream);
+    this.processor = this.inputContext.createScriptProcessor(
+      INPUT_BUFFER_SIZE,
+      1,
+      1,
+    );
+    this.processor.onaudioprocess = (event) => {
+      const pcm = event.inputBuffer.getChannelData(0);
+      this.session?.sendRealtimeInput({media: createBlob(pcm)});
+    };
+    this.micSource.connect(this.processor);
+    // Script processors only run while connected to a destination; the output
+    // buffer is left silent so the mic isn't echoed.
+    this.processor.connect(this.inputContext.destination);
+  }
+
+  stop() {
+    this.processor?.disconnect();
+    this.micSource?.disconnect();
+    this.session?.close();
+    this.session = null;
+    this.stopPlayback();
+    this.inputContext.close();
+    this.outputContext.close();
+  }
+
+  private async handleMessage(message: LiveServerMessage) {
+    const content = message.serverContent;
+    for (const part of content?.modelTurn?.parts ?? []) {
+      if (part.inlineData?.data) this.enqueueAudio(part.inlineData);
+    }
+    if (content?.interrupted) {
+      this.stopPlayback();
+    }
+    if (message.toolCall?.functionCalls) {
+      await this.answerToolCalls(message.toolCall.functionCalls);
+    }
+  }
+
+  private async enqueueAudio(audio: Blob) {
+    const buffer = await decodeAudioData(
+      decode(audio.data),
+      this.outputContext,
+      sampleRateOf(audio.mimeType),
+      1,
+    );
+    // Never schedule in the past, otherwise chunks overlap after a stall.
+    this.nextStartTime = Math.max(
+      this.nextStartTime,
+      this.outputContext.currentTime,
+    );
+    const source = this.outputContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.outputNode);
+    source.addEventListener('ended', () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0) this.options.onSpeakingChange?.(false);
+    });
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+    this.options.onSpeakingChange?.(true);
+  }
+
+  private stopPlayback() {
+    for (const source of this.sources) {
+      source.stop();
+    }
+    this.sources.clear();
+    this.nextStartTime = 0;
+    this.options.onSpeakingChange?.(false);
+  }
+
+  private async answerToolCalls(calls: FunctionCall[]) {
+    const functionResponses = await Promise.all(
+      calls.map(async (call): Promise<FunctionResponse> => {
+        let response: Record<string, unknown>;
+        try {
+          response = await this.options.onToolCall(call);
+        } catch (e) {
+          response = {error: (e as Error).message};
+        }
+        return {id: call.id, name: call.name, response};
+      }),
+    );
+    this.session?.sendToolResponse({functionResponses});
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Blob,
+  FunctionResponse,
+  LiveCallbacks,
+  LiveServerMessage,
+} from '@google/genai';
+import {
+  LiveConnector,
+  LiveSession,
+  SYNTHESIZE_PLANET_TOOL,
+} from './live-conversation';
+import {decode, encode} from './utils';
+
+const REPLY_SAMPLE_RATE = 24000;
+const REPLY_CHUNK_MS = 100;
+const REPLY_DURATION_MS = 1800;
+// RMS of 16-bit mic samples above which the user counts as speaking.
+const SPEECH_THRESHOLD = 0.02;
+// Silence after speech that ends the user's turn.
+const END_OF_TURN_MS = 700;
+
+const MOCK_PROMPTS = [
+  'a tidally locked world with a twilight ring of forests',
+  'a gas giant with violet storms',
+  'a frozen ocean moon-sized planet',
+  'a lava world circling a red dwarf',
+];
+
+function rmsOf(media: Blob) {
+  const bytes = decode(media.data);
+  const samples = new Int16Array(bytes.buffer);
+  let sum = 0;
+  for (const sample of samples) sum += (sample / 32768) ** 2;
+  return {
+    rms: Math.sqrt(sum / Math.max(samples.length, 1)),
+    durationMs: (samples.length / 16000) * 1000,
+  };
+}
+
+/** A warbling tone shaped like speech, as base64 16-bit PCM. */
+function replyChunk(index: number): Blob {
+  const count = (REPLY_SAMPLE_RATE * REPLY_CHUNK_MS) / 1000;
+  const pcm = new Int16Array(count);
+  for (let i = 0; i < count; i++) {
+    const t = (index * count + i) / REPLY_SAMPLE_RATE;
+    const syllables = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t);
+    const pitch = 180 + 40 * Math.sin(2 * Math.PI * 0.7 * t);
+    pcm[i] = Math.sin(2 * Math.PI * pitch * t) * syllables * 0.2 * 32767;
+  }
+  return {
+    data: encode(new Uint8Array(pcm.buffer)),
+    mimeType: `audio/pcm;rate=${REPLY_SAMPLE_RATE}`,
+  };
+}
+
+/**
+ * An in-process stand-in for the Gemini Live server, for working on the voice
+ * mode offline. It detects turns from mic loudness, answers each turn by
+ * calling the synthesize-planet tool, streams a synthetic spoken reply once
+ * the tool responds, and sends `interrupted` if the user talks over it.
+ */
+export class MockLiveServer implements LiveSession {
+  private userSpeaking = false;
+  private silenceMs = 0;
+  private turn = 0;
+  private pendingCallId: string | null = null;
+  private replyTimer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+
+  constructor(private callbacks: LiveCallbacks) {}
+
+  sendRealtimeInput({media}: {media: Blob}) {
+    if (this.closed) return;
+    const {rms, durationMs} = rmsOf(media);
+    if (rms > SPEECH_THRESHOLD) {
+      if (this.replyTimer) this.interrupt();
+      this.userSpeaking = true;
+      this.silenceMs = 0;
+      return;
+    }
+    if (!this.userSpeaking) return;
+    this.silenceMs += durationMs;
+    if (this.silenceMs >= END_OF_TURN_MS) {
+      this.userSpeaking = false;
+      this.respond();
+    }
+  }
+
+  sendToolResponse({
+    functionResponses,
+  }: {
+    functionResponses: FunctionResponse[];
+  }) {
+    if (this.closed) return;
+    if (functionResponses.some(({id}) => id === this.pendingCallId)) {
+      this.pendingCallId = null;
+      this.streamReply();
+    }
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.stopReply();
+    this.callbacks.onclose?.(new CloseEvent('close', {reason: 'Mock closed'}));
+  }
+
+  private emit(message: LiveServerMessage) {
+    // Deliver asynchronously, like a socket would.
+    setTimeout(() => {
+      if (!this.closed) this.callbacks.onmessage(message);
+    });
+  }
+
+  private respond() {
+    const id = `mock-call-${++this.turn}`;
+    this.pendingCallId = id;
+    this.emit({
+      toolCall: {
+        functionCalls: [
+          {
+            id,
+            name: SYNTHESIZE_PLANET_TOOL.name,
+            args: {prompt: MOCK_PROMPTS[(this.turn - 1) % MOCK_PROMPTS.length]},
+          },
+        ],
+      },
+    });
+  }
+
+  private streamReply() {
+    this.stopReply();
+    let index = 0;
+    this.replyTimer = setInterval(() => {
+      if (index * REPLY_CHUNK_MS >= REPLY_DURATION_MS) {
+        this.stopReply();
+        this.emit({serverContent: {turnComplete: true}});
+        return;
+      }
+      this.emit({
+        serverContent: {
+          modelTurn: {
+            role: 'model',
+            parts: [{inlineData: replyChunk(index++)}],
+          },
+        },
+      });
+    }, REPLY_CHUNK_MS);
+  }
+
+  private interrupt() {
+    this.stopReply();
+    this.emit({serverContent: {interrupted: true}});
+  }
+
+  private stopReply() {
+    if (this.replyTimer) clearInterval(this.replyTimer);
+    this.replyTimer = null;
+  }
+}
+
+export const connectMockLive: LiveConnector = async (callbacks) => {
+  const server = new MockLiveServer(callbacks);
+  setTimeout(() => callbacks.onopen?.());
+  return server;
+};
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {
+  OrbitalElements,
+  OrbitalPosition,
+  orbitalElementsFor,
+  orbitalPositionAt,
+  periodFromSemiMajorAxis,
+  semiMajorAxisFromPeriod,
+  solveKepler,
+} from './orbital-mechanics';
+import {stellarPropertiesOf} from './stellar-classification';
+
+function distance({x, y, z}: OrbitalPosition) {
+  return Math.hypot(x, y, z);
+}
+
+describe('solveKepler', () => {
+  for (const eccentricity of [0, 0.5, 0.95]) {
+    it(`satisfies Kepler's equation for e = ${eccentricity}`, () => {
+      for (let i = 0; i < 360; i++) {
+        const meanAnomaly = (i / 360) * 2 * Math.PI;
+        const e = solveKepler(meanAnomaly, eccentricity);
+        const residual = e - eccentricity * Math.sin(e) - meanAnomaly;
+        expect(Math.abs(residual)).toBeLessThan(1e-9);
+      }
+    });
+  }
+
+  it('wraps mean anomalies outside one revolution', () => {
+    const e = solveKepler(1.2, 0.5);
+    expect(solveKepler(1.2 + 4 * Math.PI, 0.5)).toBeCloseTo(e, 12);
+    expect(solveKepler(1.2 - 2 * Math.PI, 0.5)).toBeCloseTo(e, 12);
+  });
+});
+
+describe('orbitalElementsFor', () => {
+  const planet = {
+    celestial_body_id: 'axee-test-1',
+    planetType: 'Super-Earth',
+    starType: 'G2V',
+  };
+
+  it('puts a 1 AU orbit around a Sun-like star at one year', () => {
+    const elements = orbitalElementsFor({
+      ...planet,
+      orbit: {semiMajorAxisAU: 1, eccentricity: 0.02, inclinationDeg: 1},
+    });
+    expect(elements.periodDays).toBeCloseTo(365.25, 6);
+  });
+
+  it("ties the period to the semi-major axis by Kepler's third law", () => {
+    for (const starType of ['M5V', 'K1V', 'G2V', 'A0V', 'B3V']) {
+      const elements = orbitalElementsFor({...planet, starType});
+      const {massSolar} = stellarPropertiesOf(starType);
+      const years = elements.periodDays / 365.25;
+      expect(elements.semiMajorAxisAU ** 3 / years ** 2).toBeCloseTo(
+        massSolar,
+        9,
+      );
+      expect(
+        semiMajorAxisFromPeriod(elements.periodDays, massSolar),
+      ).toBeCloseTo(elements.semiMajorAxisAU, 9);
+    }
+  });
+
+  it('recomputes a supplied period that disagrees with the axis', () => {
+    const elements = orbitalElementsFor({
+      ...planet,
+      orbit: {
+        semiMajorAxisAU: 4,
+        eccentricity: 0,
+        inclinationDeg: 0,
+        periodDays: 10,
+      },
+    });
+    expect(elements.periodDays).toBeCloseTo(periodFromSemiMajorAxis(4, 1), 9);
+  });
+
+  it('derives the same elements for the same planet', () => {
+    expect(orbitalElementsFor(planet)).toEqual(orbitalElementsFor(planet));
+  });
+});
+
+describe('orbitalPositionAt', () => {
+  const elements: OrbitalElements = {
+    semiMajorAxisAU: 2.5,
+    eccentricity: 0.6,
+    inclinationDeg: 35,
+    periodDays: 1444,
+    argumentOfPeriapsisDeg: 70,
+    longitudeOfAscendingNodeDeg: 120,
+    meanAnomalyAtEpochDeg: 90,
+  };
+  // The mean anomaly reaches zero a quarter period before the epoch.
+  const periapsisTime = -elements.periodDays / 4;
+
+  it('reaches a(1 − e) at periapsis', () => {
+    const position = orbitalPositionAt(elements, periapsisTime);
+    expect(distance(position)).toBeCloseTo(2.5 * (1 - 0.6), 9);
+  });
+
+  it('reaches a(1 + e) at apoapsis', () => {
+    const position = orbitalPositionAt(
+      elements,
+      periapsisTime + elements.periodDays / 2,
+    );
+    expect(distance(position)).toBeCloseTo(2.5 * (1 + 0.6), 9);
+  });
+
+  it('stays between periapsis and apoapsis', () => {
+    for (let day = 0; day < elements.periodDays; day += 7) {
+      const r = distance(orbitalPositionAt(elements, day));
+      expect(r).toBeGreaterThanOrEqual(1 - 1e-9);
+      expect(r).toBeLessThanOrEqual(4 + 1e-9);
+    }
+  });
+
+  it('returns to the same place after one period', () => {
+    const start = orbitalPositionAt(elements, 100);
+    const end = orbitalPositionAt(elements, 100 + elements.periodDays);
+    expect(end.x).toBeCloseTo(start.x, 9);
+    expect(end.y).toBeCloseTo(start.y, 9);
+    expect(end.z).toBeCloseTo(start.z, 9);
+  });
+});
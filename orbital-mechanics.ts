@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData} from './planet-model';
+import {createSeededRandom, hashString, randomBetween} from './seeded-random';
+import {stellarPropertiesOf} from './stellar-classification';
+
+const DAYS_PER_YEAR = 365.25;
+const DEG_TO_RAD = Math.PI / 180;
+const TWO_PI = Math.PI * 2;
+
+/** Classical Keplerian elements of a planet around its host star. */
+export interface OrbitalElements {
+  semiMajorAxisAU: number;
+  eccentricity: number;
+  inclinationDeg: number;
+  periodDays: number;
+  argumentOfPeriapsisDeg: number;
+  longitudeOfAscendingNodeDeg: number;
+  meanAnomalyAtEpochDeg: number;
+}
+
+export interface OrbitalPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Kepler's third law: P² = a³ / M with P in years, a in AU, M in suns. */
+export function periodFromSemiMajorAxis(
+  semiMajorAxisAU: number,
+  starMassSolar: number,
+): number {
+  return Math.sqrt(semiMajorAxisAU ** 3 / starMassSolar) * DAYS_PER_YEAR;
+}
+
+export function semiMajorAxisFromPeriod(
+  periodDays: number,
+  starMassSolar: number,
+): number {
+  return Math.cbrt((periodDays / DAYS_PER_YEAR) ** 2 * starMassSolar);
+}
+
+/**
+ * Solves Kepler's equation M = E - e·sin(E) for the eccentric anomaly E with
+ * Newton-Raphson iteration. Angles are in radians.
+ */
+export function solveKepler(
+  meanAnomaly: number,
+  eccentricity: number,
+  tolerance = 1e-10,
+  maxIterations = 50,
+): number {
+  const m = ((meanAnomaly % TWO_PI) + TWO_PI) % TWO_PI;
+  // Starting at π converges reliably for highly eccentric orbits.
+  let e = eccentricity < 0.8 ? m : Math.PI;
+  for (let i = 0; i < maxIterations; i++) {
+    const delta =
+      (e - eccentricity * Math.sin(e) - m) / (1 - eccentricity * Math.cos(e));
+    e -= delta;
+    if (Math.abs(delta) < tolerance) break;
+  }
+  return e;
+}
+
+export function trueAnomalyFromEccentric(
+  eccentricAnomaly: number,
+  eccentricity: number,
+): number {
+  return (
+    2 *
+    Math.atan2(
+      Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
+      Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2),
+    )
+  );
+}
+
+/** Mean anomaly in radians at `timeDays` after the epoch. */
+export function meanAnomalyAt(elements: OrbitalElements, timeDays: number) {
+  return (
+    elements.meanAnomalyAtEpochDeg * DEG_TO_RAD +
+    (TWO_PI * timeDays) / elements.periodDays
+  );
+}
+
+/**
+ * Rotates a point in the orbital plane (periapsis along +x) into the
+ * reference frame. Returns AU with the reference plane spanning x/z and +y as
+ * the orbit normal, matching the Three.js scene's up axis.
+ */
+function toReferenceFrame(
+  elements: OrbitalElements,
+  trueAnomaly: number,
+  radius: number,
+): OrbitalPosition {
+  const omega = elements.argumentOfPeriapsisDeg * DEG_TO_RAD;
+  const node = elements.longitudeOfAscendingNodeDeg * DEG_TO_RAD;
+  const inclination = elements.inclinationDeg * DEG_TO_RAD;
+  const u = omega + trueAnomaly;
+
+  const x =
+    radius *
+    (Math.cos(node) * Math.cos(u) -
+      Math.sin(node) * Math.sin(u) * Math.cos(inclination));
+  const y =
+    radius *
+    (Math.sin(node) * Math.cos(u) +
+      Math.cos(node) * Math.sin(u) * Math.cos(inclination));
+  const z = radius * Math.sin(u) * Math.sin(inclination);
+  return {x, y: z, z: y};
+}
+
+export function positionAtTrueAnomaly(
+  elements: OrbitalElements,
+  trueAnomaly: number,
+): OrbitalPosition {
+  const {semiMajorAxisAU: a, eccentricity: e} = elements;
+  const radius = (a * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly));
+  return toReferenceFrame(elements, trueAnomaly, radius);
+}
+
+/** Position in AU relative to the host star at `timeDays` after the epoch. */
+export function orbitalPositionAt(
+  elements: OrbitalElements,
+  timeDays: number,
+): OrbitalPosition {
+  const eccentricAnomaly = solveKepler(
+    meanAnomalyAt(elements, timeDays),
+    elements.eccentricity,
+  );
+  return positionAtTrueAnomaly(
+    elements,
+    trueAnomalyFromEccentric(eccentricAnomaly, elements.eccentricity),
+  );
+}
+
+/** Evenly spaced points (in true anomaly) around the full ellipse. */
+export function orbitPathPoints(
+  elements: OrbitalElements,
+  segments = 128,
+): OrbitalPosition[] {
+  const points: OrbitalPosition[] = [];
+  for (let i = 0; i < segments; i++) {
+    points.push(positionAtTrueAnomaly(elements, (i / segments) * TWO_PI));
+  }
+  return points;
+}
+
+// Typical orbital distance ranges, in AU around a Sun-like star.
+function typicalSemiMajorAxisRange(planetType: string): [number, number] {
+  const type = planetType.toLowerCase();
+  if (type.includes('lava') || type.includes('hot')) return [0.01, 0.08];
+  if (type.includes('ice giant')) return [8, 30];
+  if (type.includes('gas')) return [2, 10];
+  if (type.includes('ice') || type.includes('frozen')) return [3, 20];
+  return [0.5, 2];
+}
+
+/**
+ * Returns the planet's orbital elements. Values the synthesis supplied are
+ * kept; anything missing is derived deterministically from the planet type,
+ * the host star and the planet's ID. The period is always recomputed from
+ * Kepler's third law so it agrees with the semi-major axis and stellar mass.
+ */
+export function orbitalElementsFor(
+  planet: Pick<PlanetData, 'celestial_body_id' | 'planetType' | 'starType'> &
+    Partial<Pick<PlanetData, 'orbit'>>,
+): OrbitalElements {
+  const star = stellarPropertiesOf(planet.starType);
+  const random = createSeededRandom(hashString(planet.celestial_body_id));
+  const [minA, maxA] = typicalSemiMajorAxisRange(planet.planetType);
+  // Stellar flux falls off as 1/r², so equivalent orbits scale with √L.
+  const derivedA =
+    randomBetween(random, minA, maxA) * Math.sqrt(star.luminositySolar);
+
+  const orbit = planet.orbit;
+  const semiMajorAxisAU = orbit?.semiMajorAxisAU ?? derivedA;
+  return {
+    semiMajorAxisAU,
+    eccentricity: orbit?.eccentricity ?? randomBetween(random, 0, 0.25),
+    inclinationDeg: orbit?.inclinationDeg ?? randomBetween(random, 0, 8),
+    periodDays: periodFromSemiMajorAxis(semiMajorAxisAU, star.massSolar),
+    argumentOfPeriapsisDeg: randomBetween(random, 0, 360),
+    longitudeOfAscendingNodeDeg: randomBetween(random, 0, 360),
+    meanAnomalyAtEpochDeg: randomBetween(random, 0, 360),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {parsePartialJson} from './partial-json';
+
+const valueOf = (text: string) => parsePartialJson(text).value;
+
+describe('parsePartialJson', () => {
+  it('parses complete documents', () => {
+    const result = parsePartialJson('{"a": [1, -2.5e3, true, null], "b": {}}');
+    expect(result.value).toEqual({a: [1, -2500, true, null], b: {}});
+    expect(result.complete).toBe(true);
+    expect([...result.closedPaths].sort()).toEqual(['', 'a', 'b']);
+  });
+
+  it('skips text before the first brace', () => {
+    expect(valueOf('```json\n{"a": 1}')).toEqual({a: 1});
+    expect(parsePartialJson('Thinking...')).toEqual({
+      value: undefined,
+      complete: false,
+      closedPaths: new Set(),
+    });
+  });
+
+  it('returns strings truncated while they arrive', () => {
+    const result = parsePartialJson('{"name": "Kepl');
+    expect(result.value).toEqual({name: 'Kepl'});
+    expect(result.closedPaths.has('name')).toBe(false);
+    expect(parsePartialJson('{"name": "Kepler"').closedPaths.has('name')).toBe(
+      true,
+    );
+  });
+
+  it('holds back escapes until they are complete', () => {
+    expect(valueOf('{"a": "line\\')).toEqual({a: 'line'});
+    expect(valueOf('{"a": "line\\n')).toEqual({a: 'line\n'});
+    expect(valueOf('{"a": "say \\"hi\\"')).toEqual({a: 'say "hi"'});
+    for (const cut of ['\\u', '\\u0', '\\u00', '\\u00e']) {
+      expect(valueOf(`{"a": "caf${cut}`)).toEqual({a: 'caf'});
+    }
+    expect(valueOf('{"a": "caf\\u00e9')).toEqual({a: 'café'});
+    expect(valueOf('["\\ud83e\\ude90"]')).toEqual(['🪐']);
+  });
+
+  it('leaves out numbers and literals cut off mid-token', () => {
+    for (const cut of ['1', '1.', '-', '1e', '1e-', '12.5E+', 'tr', 'nul']) {
+      expect(valueOf(`{"n": ${cut}`)).toEqual({});
+      expect(valueOf(`[${cut}`)).toEqual([]);
+    }
+    expect(valueOf('{"n": 1.5,')).toEqual({n: 1.5});
+    expect(valueOf('[1e3 ')).toEqual([1000]);
+    expect(valueOf('[false]')).toEqual([false]);
+  });
+
+  it('leaves out keys whose value has not started', () => {
+    expect(valueOf('{"a": 1, "b')).toEqual({a: 1});
+    expect(valueOf('{"a": 1, "b":')).toEqual({a: 1});
+    expect(valueOf('{"a": 1, "b": ')).toEqual({a: 1});
+  });
+
+  it('fills nested arrays and objects as far as they go', () => {
+    const result = parsePartialJson(
+      '{"a": [1, {"b": "c", "d": [[], ["e"]]}, [2, ',
+    );
+    expect(result.value).toEqual({
+      a: [1, {b: 'c', d: [[], ['e']]}, [2]],
+    });
+    expect(result.complete).toBe(false);
+    expect([...result.closedPaths].sort()).toEqual([
+      'a.1',
+      'a.1.b',
+      'a.1.d',
+      'a.1.d.0',
+      'a.1.d.1',
+      'a.1.d.1.0',
+    ]);
+  });
+
+  it('stops at malformed input without throwing', () => {
+    const cases: [string, unknown][] = [
+      ['{"a": 1 "b": 2}', {a: 1}],
+      ['{a: 1}', {}],
+      ['{"a" 1}', {}],
+      ['{"a": tx}', {}],
+      ['[1, ]', [1]],
+      ['[1.2.3]', []],
+      ['[1, 2}', [1, 2]],
+      ['{"a": [1}', {a: [1]}],
+      ['{', {}],
+      ['[', []],
+    ];
+    for (const [text, value] of cases) {
+      expect(() => parsePartialJson(text)).not.toThrow();
+      expect(parsePartialJson(text)).toMatchObject({value, complete: false});
+    }
+    expect(() => parsePartialJson('{"a": "\\uZZZZ"}')).not.toThrow();
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface PartialJsonResult {
+  /** Everything parsed so far; undefined until the first `{` or `[`. */
+  value: unknown;
+  /** True once the top-level value has been closed. */
+  complete: boolean;
+  /**
+   * Dotted paths (`''` for the root, `visualization`, `keyFeatures.2`) of
+   * objects, arrays and strings that have been fully received.
+   */
+  closedPaths: Set<string>;
+}
+
+// Thrown internally when the input runs out mid-token.
+const END = Symbol('end of input');
+
+/**
+ * Parses a prefix of a JSON document as it streams in. Strings that are still
+ * arriving are returned truncated; numbers and literals are only returned
+ * once complete, and a key whose value hasn't started yet is left out. Text
+ * before the first `{` or `[` (such as a Markdown fence) is skipped. Invalid
+ * JSON stops the parse at the offending character, keeping what came before.
+ */
+export function parsePartialJson(text: string): PartialJsonResult {
+  const start = text.search(/[{[]/);
+  const closedPaths = new Set<string>();
+  if (start === -1) return {value: undefined, complete: false, closedPaths};
+
+  let pos = start;
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+    if (pos >= text.length) throw END;
+  };
+  const join = (path: string, key: string | number) =>
+    path === '' ? String(key) : `${path}.${key}`;
+
+  // Each parse function stores its (possibly partial) result via `assign`
+  // before it can run out of input, so callers keep partial values.
+  // `path` is null for object keys, which aren't reported as closed.
+  function parseString(path: string | null, assign: (value: string) => void) {
+    pos++; // opening quote
+    let value = '';
+    while (true) {
+      if (pos >= text.length) {
+        assign(value);
+        throw END;
+      }
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        assign(value);
+        if (path !== null) closedPaths.add(path);
+        return;
+      }
+      if (char === '\\') {
+        const escape = text[pos + 1];
+        if (escape === undefined) {
+          assign(value);
+          throw END;
+        }
+        if (escape === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (hex.length < 4) {
+            assign(value);
+            throw END;
+          }
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else {
+          const escapes: Record<string, string> = {
+            n: '\n',
+            t: '\t',
+            r: '\r',
+            b: '\b',
+            f: '\f',
+          };
+          value += escapes[escape] ?? escape;
+          pos += 2;
+        }
+        continue;
+      }
+      value += char;
+      pos++;
+    }
+  }
+
+  function parseScalar(assign: (value: unknown) => void) {
+    const match = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(
+      text.slice(pos),
+    );
+    // A scalar is only complete once a delimiter follows it; until then a
+    // number like `0.` may still be growing.
+    const next = match ? text[pos + match[0].length] : undefined;
+    if (!match || next === undefined || /[\d.eE+-]/.test(next)) {
+      const rest = text.slice(pos);
+      const mayGrow =
+        /^-?[\d.eE+-]*$/.test(rest) ||
+        ['true', 'false', 'null'].some((literal) => literal.startsWith(rest));
+      if (!mayGrow) throw new SyntaxError(`Unexpected "${rest[0]}" at ${pos}`);
+      throw END;
+    }
+    pos += match[0].length;
+    assign(JSON.parse(match[0]));
+  }
+
+  function parseValue(path: string, assign: (value: unknown) => void) {
+    skipWhitespace();
+    const char = text[pos];
+    if (char === '{') parseObject(path, assign);
+    else if (char === '[') parseArray(path, assign);
+    else if (char === '"') parseString(path, assign);
+    else parseScalar(assign);
+  }
+
+  function parseObject(path: string, assign: (value: unknown) => void) {
+    const object: Record<string, unknown> = {};
+    assign(object);
+    pos++;
+    skipWhitespace();
+    if (text[pos] === '}') {
+      pos++;
+      closedPaths.add(path);
+      return;
+    }
+    while (true) {
+      skipWhitespace();
+      if (text[pos] !== '"') {
+        throw new SyntaxError(`Expected a key at ${pos}`);
+      }
+      let key = '';
+      const keyStart = pos;
+      parseString(null, (value) => {
+        key = value;
+      });
+      skipWhitespace();
+      if (text[pos] !== ':') {
+        throw new SyntaxError(`Expected ":" after key at ${keyStart}`);
+      }
+      pos++;
+      parseValue(join(path, key), (value) => {
+        object[key] = value;
+      });
+      skipWhitespace();
+      if (text[pos] === ',') {
+        pos++;
+      } else if (text[pos] === '}') {
+        pos++;
+        closedPaths.add(path);
+        return;
+      } else {
+        throw new SyntaxError(`Expected "," or "}" at ${pos}`);
+      }
+    }
+  }
+
+  function parseArray(path: string, assign: (value: unknown) => void) {
+    const array: unknown[] = [];
+    assign(array);
+    pos++;
+    skipWhitespace();
+    if (text[pos] === ']') {
+      pos++;
+      closedPaths.add(path);
+      return;
+    }
+    while (true) {
+      const index = array.length;
+      parseValue(join(path, index), (value) => {
+        array[index] = value;
+      });
+      skipWhitespace();
+      if (text[pos] === ',') {
+        pos++;
+      } else if (text[pos] === ']') {
+        pos++;
+        closedPaths.add(path);
+        return;
+      } else {
+        throw new SyntaxError(`Expected "," or "]" at ${pos}`);
+      }
+    }
+  }
+
+  let value: unknown;
+  try {
+    parseValue('', (parsed) => {
+      value = parsed;
+    });
+  } catch (e) {
+    if (e !== END && !(e instanceof SyntaxError)) throw e;
+  }
+  return {value, complete: closedPaths.has(''), closedPaths};
+}
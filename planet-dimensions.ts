@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData} from './planet-model';
+
+type DescribedPlanet = Pick<
+  PlanetData,
+  'planetType' | 'surfaceFeatures' | 'keyFeatures'
+> &
+  Partial<Pick<PlanetData, 'physical'>>;
+
+// Typical radii in Earth radii, most specific type first.
+const TYPICAL_RADII: [RegExp, number][] = [
+  [/super[- ]?jupiter/, 13],
+  [/hot jupiter|gas giant|jovian/, 11],
+  [/ice giant|neptun/, 4],
+  [/mini[- ]?neptune|sub[- ]?neptune/, 2.5],
+  [/super[- ]?earth|mega[- ]?earth/, 1.6],
+  [/sub[- ]?earth|dwarf planet|moon/, 0.6],
+  [/giant/, 8],
+];
+
+function describedText(planet: DescribedPlanet) {
+  return [planet.surfaceFeatures, ...(planet.keyFeatures ?? [])].join(' ');
+}
+
+// First number followed by one of the unit patterns, e.g. "1.8 Earth radii".
+function statedQuantity(text: string, unit: string) {
+  const match = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(?:x\\s*)?${unit}`, 'i').exec(
+    text,
+  );
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Planet radius in Earth radii. The synthesized `physical.radiusEarth` wins,
+ * then a radius stated in the description ("2.1 Earth radii", "1.3 Jupiter
+ * radii"); otherwise it is the typical size for the planet type, falling
+ * back to Earth-sized.
+ */
+export function estimateRadiusEarth(planet: DescribedPlanet): number {
+  if (planet.physical?.radiusEarth) return planet.physical.radiusEarth;
+  const text = describedText(planet);
+  const earthRadii = statedQuantity(text, 'earth[- ]radi(?:i|us)');
+  if (earthRadii) return earthRadii;
+  const jupiterRadii = statedQuantity(text, 'jupiter[- ]radi(?:i|us)');
+  if (jupiterRadii) return jupiterRadii * 11.2;
+
+  const type = planet.planetType.toLowerCase();
+  for (const [pattern, radius] of TYPICAL_RADII) {
+    if (pattern.test(type)) return radius;
+  }
+  return 1;
+}
+
+/** Mass in Earth masses, only when the description states one. */
+export function statedMassEarth(planet: DescribedPlanet): number | null {
+  const text = describedText(planet);
+  const earthMasses = statedQuantity(text, 'earth[- ]mass(?:es)?');
+  if (earthMasses) return earthMasses;
+  const jupiterMasses = statedQuantity(text, 'jupiter[- ]mass(?:es)?');
+  return jupiterMasses ? jupiterMasses * 317.8 : null;
+}
+
+/**
+ * Surface or equilibrium temperature in kelvin, only when the description
+ * states one in kelvin, °C or °F.
+ */
+export function statedTemperatureK(planet: DescribedPlanet): number | null {
+  const match = /(-?\d+(?:\.\d+)?)\s*(?:°\s*([CFK])|K\b|kelvin)/i.exec(
+    describedText(planet),
+  );
+  if (!match) return null;
+  const value = Number(match[1]);
+  switch (match[2]?.toUpperCase()) {
+    case 'C':
+      return value + 273.15;
+    case 'F':
+      return ((value - 32) * 5) / 9 + 273.15;
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {
+  FilterSyntaxError,
+  matchesFilter,
+  parseFilterCondition,
+} from './planet-filter';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+
+describe('parseFilterCondition', () => {
+  it('parses fields, aliases and operators', () => {
+    expect(parseFilterCondition('type=gas')).toEqual({
+      field: 'type',
+      operator: '=',
+      value: 'gas',
+    });
+    expect(parseFilterCondition(' LY <= 12.5 ')).toEqual({
+      field: 'distance',
+      operator: '<=',
+      value: '12.5',
+    });
+    expect(parseFilterCondition('starsystem!=Kepler')).toEqual({
+      field: 'system',
+      operator: '!=',
+      value: 'Kepler',
+    });
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => parseFilterCondition('color=red')).toThrow(
+      /Unknown field "color"/,
+    );
+  });
+
+  it('does not take inherited properties for fields', () => {
+    for (const field of [
+      'constructor',
+      'toString',
+      'valueOf',
+      'hasOwnProperty',
+      'isPrototypeOf',
+    ]) {
+      expect(() => parseFilterCondition(`${field}=x`)).toThrow(
+        FilterSyntaxError,
+      );
+    }
+  });
+
+  it('rejects comparisons a field does not support', () => {
+    expect(() => parseFilterCondition('distance<near')).toThrow(
+      'distance must be compared with a number.',
+    );
+    expect(() => parseFilterCondition('name>K')).toThrow(
+      'name only supports = and !=.',
+    );
+    expect(() => parseFilterCondition('type')).toThrow(FilterSyntaxError);
+  });
+});
+
+describe('matchesFilter', () => {
+  const planet = {
+    ...new ProceduralSynthesisProvider(5).generate('a gas giant'),
+    planetType: 'Gas Giant',
+    distanceLightYears: 40,
+  };
+
+  it('needs every condition to hold', () => {
+    const conditions = ['type=gas', 'distance<100'].map(parseFilterCondition);
+    expect(matchesFilter(planet, conditions)).toBe(true);
+    conditions.push(parseFilterCondition('type!=giant'));
+    expect(matchesFilter(planet, conditions)).toBe(false);
+  });
+});
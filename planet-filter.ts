@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData} from './planet-model';
+import {SpectralClass, spectralClassOf} from './stellar-classification';
+
+export type FilterField = 'name' | 'type' | 'star' | 'system' | 'distance';
+export type FilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface FilterCondition {
+  field: FilterField;
+  operator: FilterOperator;
+  value: string;
+}
+
+interface FieldSpec {
+  numeric: boolean;
+  value: (planet: PlanetData) => string | number;
+}
+
+const FIELDS: Record<FilterField, FieldSpec> = {
+  name: {numeric: false, value: (planet) => planet.planetName},
+  type: {numeric: false, value: (planet) => planet.planetType},
+  star: {numeric: false, value: (planet) => planet.starType},
+  system: {numeric: false, value: (planet) => planet.starSystem},
+  distance: {numeric: true, value: (planet) => planet.distanceLightYears},
+};
+
+const FIELD_ALIASES: Record<string, FilterField> = {
+  planet: 'name',
+  planettype: 'type',
+  startype: 'star',
+  starsystem: 'system',
+  dist: 'distance',
+  ly: 'distance',
+};
+
+export const FILTER_FIELD_NAMES = Object.keys(FIELDS) as FilterField[];
+
+export class FilterSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterSyntaxError';
+  }
+}
+
+/**
+ * Parses one condition such as `type=gas`, `distance<100` or `star!=M`. Text
+ * fields support `=` (case-insensitive substring) and `!=`; distance supports
+ * every comparison.
+ */
+export function parseFilterCondition(text: string): FilterCondition {
+  const match = /^([a-z]+)\s*(<=|>=|!=|=|<|>)\s*(.+)$/i.exec(text.trim());
+  if (!match) {
+    throw new FilterSyntaxError(`"${text}" is not a condition like type=gas.`);
+  }
+  const [, rawField, operator, value] = match;
+  const key = rawField.toLowerCase();
+  // Own properties only, so `constructor` and friends are not fields.
+  const field = Object.hasOwn(FIELDS, key)
+    ? (key as FilterField)
+    : Object.hasOwn(FIELD_ALIASES, key)
+      ? FIELD_ALIASES[key]
+      : null;
+  if (!field) {
+    throw new FilterSyntaxError(
+      `Unknown field "${rawField}". Try ${FILTER_FIELD_NAMES.join(', ')}.`,
+    );
+  }
+  if (FIELDS[field].numeric) {
+    if (!Number.isFinite(Number(value))) {
+      throw new FilterSyntaxError(`${field} must be compared with a number.`);
+    }
+  } else if (operator !== '=' && operator !== '!=') {
+    throw new FilterSyntaxError(`${field} only supports = and !=.`);
+  }
+  return {field, operator: operator as FilterOperator, value: value.trim()};
+}
+
+function matchesCondition(planet: PlanetData, condition: FilterCondition) {
+  const actual = FIELDS[condition.field].value(planet);
+  if (typeof actual === 'number') {
+    const expected = Number(condition.value);
+    switch (condition.operator) {
+      case '=':
+        return actual === expected;
+      case '!=':
+        return actual !== expected;
+      case '<':
+        return actual < expected;
+      case '<=':
+        return actual <= expected;
+      case '>':
+        return actual > expected;
+      case '>=':
+        return actual >= expected;
+    }
+  }
+  const contains = String(actual)
+    .toLowerCase()
+    .includes(condition.value.toLowerCase());
+  return condition.operator === '=' ? contains : !contains;
+}
+
+/** True when the planet satisfies every condition. */
+export function matchesFilter(
+  planet: PlanetData,
+  conditions: FilterCondition[],
+): boolean {
+  return conditions.every((condition) => matchesCondition(planet, condition));
+}
+
+export function describeFilter(conditions: FilterCondition[]): string {
+  return conditions
+    .map(({field, operator, value}) => `${field}${operator}${value}`)
+    .join(' ');
+}
+
+export type LogSortKey = 'discovered' | 'newest' | 'name' | 'distance' | 'type';
+
+export const LOG_SORT_LABELS: Record<LogSortKey, string> = {
+  discovered: 'Oldest first',
+  newest: 'Newest first',
+  name: 'Name',
+  distance: 'Distance',
+  type: 'Type',
+};
+
+/** Search, facet and ordering state of the Discovery Log. */
+export interface LogQuery {
+  search: string;
+  // Empty facet lists match everything.
+  planetTypes: string[];
+  spectralClasses: SpectralClass[];
+  minDistance: number | null;
+  maxDistance: number | null;
+  sort: LogSortKey;
+  groupBySystem: boolean;
+  // Lists imported NASA Exoplanet Archive planets alongside discoveries.
+  includeKnown: boolean;
+}
+
+export const DEFAULT_LOG_QUERY: LogQuery = {
+  search: '',
+  planetTypes: [],
+  spectralClasses: [],
+  minDistance: null,
+  maxDistance: null,
+  sort: 'discovered',
+  groupBySystem: false,
+  includeKnown: false,
+};
+
+function searchableText(planet: PlanetData) {
+  return [
+    planet.planetName,
+    planet.starSystem,
+    planet.atmosphericComposition,
+    planet.surfaceFeatures,
+    ...planet.keyFeatures,
+  ]
+    .join(' ')
+    .toLowerCase();
+}
+
+/** True when every search word appears somewhere in the planet's text. */
+export function matchesSearch(planet: PlanetData, search: string): boolean {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchableText(planet);
+  return words.every((word) => text.includes(word));
+}
+
+export function matchesLogQuery(planet: PlanetData, query: LogQuery): boolean {
+  const {planetTypes, spectralClasses, minDistance, maxDistance} = query;
+  return (
+    matchesSearch(planet, query.search) &&
+    (planetTypes.length === 0 || planetTypes.includes(planet.planetType)) &&
+    (spectralClasses.length === 0 ||
+      spectralClasses.includes(spectralClassOf(planet.starType))) &&
+    (minDistance === null || planet.distanceLightYears >= minDistance) &&
+    (maxDistance === null || planet.distanceLightYears <= maxDistance)
+  );
+}
+
+export function isDefaultLogQuery(query: LogQuery): boolean {
+  return (
+    !query.search.trim() &&
+    query.planetTypes.length === 0 &&
+    query.spectralClasses.length === 0 &&
+    query.minDistance === null &&
+    query.maxDistance === null
+  );
+}
+
+/** Sorts a copy of `planets`, which are expected in discovery order. */
+export function sortPlanets(
+  planets: PlanetData[],
+  sort: LogSortKey,
+): PlanetData[] {
+  const sorted = [...planets];
+  switch (sort) {
+    case 'newest':
+      return sorted.reverse();
+    case 'name':
+      return sorted.sort((a, b) => a.planetName.localeCompare(b.planetName));
+    case 'distance':
+      return sorted.sort((a, b) => a.distanceLightYears - b.distanceLightYears);
+    case 'type':
+      return sorted.sort((a, b) => a.planetType.localeCompare(b.planetType));
+    default:
+      return sorted;
+  }
+}
+
+/**
+ * Groups planets by star system, keeping their order within each group.
+ * Systems appear in the order their first planet does.
+ */
+export function groupBySystem(planets: PlanetData[]): [string, PlanetData[]][] {
+  const groups = new Map<string, PlanetData[]>();
+  for (const planet of planets) {
+    const group = groups.get(planet.starSystem) ?? [];
+    group.push(planet);
+    groups.set(planet.starSystem, group);
+  }
+  return Array.from(groups);
+}
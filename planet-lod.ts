@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from 'three';
+import {PlanetData} from './planet-model';
+
+/** Mesh detail for a planet, or a point sprite once it is only a speck. */
+export type DetailLevel = 'high' | 'medium' | 'low' | 'impostor';
+
+export const DETAIL_LEVELS: DetailLevel[] = [
+  'high',
+  'medium',
+  'low',
+  'impostor',
+];
+
+type MeshDetail = Exclude<DetailLevel, 'impostor'>;
+
+const SPHERE_SEGMENTS: Record<MeshDetail, number> = {
+  high: 64,
+  medium: 24,
+  low: 10,
+};
+const RING_SEGMENTS: Record<MeshDetail, number> = {
+  high: 128,
+  medium: 48,
+  low: 16,
+};
+// On-screen radius in pixels at which each level takes over.
+const HIGH_DETAIL_PIXELS = 60;
+const MEDIUM_DETAIL_PIXELS = 15;
+const MESH_PIXELS = 3;
+
+// Impostor atlas: 32×32 cells of 32 pixels on one 1024-pixel texture.
+const ATLAS_CELL_PIXELS = 32;
+const ATLAS_GRID = 32;
+export const ATLAS_CAPACITY = ATLAS_GRID * ATLAS_GRID;
+
+/** Radius in pixels of a sphere of `radius` at `distance` from `camera`. */
+export function projectedRadius(
+  radius: number,
+  distance: number,
+  camera: THREE.PerspectiveCamera,
+  viewportHeight: number,
+): number {
+  const halfFov = THREE.MathUtils.degToRad(camera.fov / 2);
+  return (radius / (distance * Math.tan(halfFov))) * (viewportHeight / 2);
+}
+
+export function detailLevelFor(pixelRadius: number): DetailLevel {
+  if (pixelRadius >= HIGH_DETAIL_PIXELS) return 'high';
+  if (pixelRadius >= MEDIUM_DETAIL_PIXELS) return 'medium';
+  if (pixelRadius >= MESH_PIXELS) return 'low';
+  return 'impostor';
+}
+
+/**
+ * Geometries shared by every planet. Spheres have unit radius and are scaled
+ * per mesh; rings depend on the planet's size, so they are cached by it.
+ * Meshes using these must never dispose their geometry themselves.
+ */
+export class PlanetGeometries {
+  private spheres = new Map<MeshDetail, THREE.SphereGeometry>();
+  private rings = new Map<string, THREE.RingGeometry>();
+
+  sphere(detail: MeshDetail) {
+    let geometry = this.spheres.get(detail);
+    if (!geometry) {
+      const segments = SPHERE_SEGMENTS[detail];
+      geometry = new THREE.SphereGeometry(1, segments, segments);
+      this.spheres.set(detail, geometry);
+    }
+    return geometry;
+  }
+
+  ring(planetSize: number, detail: MeshDetail) {
+    const key = `${planetSize.toFixed(3)}:${detail}`;
+    let geometry = this.rings.get(key);
+    if (!geometry) {
+      geometry = new THREE.RingGeometry(
+        planetSize + 0.5,
+        planetSize + 2.5,
+        RING_SEGMENTS[detail],
+      );
+      this.rings.set(key, geometry);
+    }
+    return geometry;
+  }
+
+  dispose() {
+    this.spheres.forEach((geometry) => geometry.dispose());
+    this.rings.forEach((geometry) => geometry.dispose());
+    this.spheres.clear();
+    this.rings.clear();
+  }
+}
+
+/**
+ * One texture holding a small painted disc per planet, so every impostor
+ * draws from the same texture in a single draw call.
+ */
+export class PlanetAtlas {
+  readonly texture: THREE.CanvasTexture;
+  private context: CanvasRenderingContext2D;
+  private cells = new Map<string, number>();
+  private freeCells: number[] = [];
+  private nextCell = 0;
+
+  constructor() {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = ATLAS_CELL_PIXELS * ATLAS_GRID;
+    this.context = canvas.getContext('2d')!;
+    this.texture = new THREE.CanvasTexture(canvas);
+    this.texture.colorSpace = THREE.SRGBColorSpace;
+    // Mipmaps would blend neighbouring cells together.
+    this.texture.generateMipmaps = false;
+    this.texture.minFilter = THREE.LinearFilter;
+  }
+
+  /** The planet's cell, painting it on first use; null once the atlas is full. */
+  cellFor(data: PlanetData): number | null {
+    const existing = this.cells.get(data.celestial_body_id);
+    if (existing !== undefined) return existing;
+    const cell =
+      this.freeCells.pop() ??
+      (this.nextCell < ATLAS_CAPACITY ? this.nextCell++ : null);
+    if (cell === null) return null;
+    this.cells.set(data.celestial_body_id, cell);
+    this.paint(cell, data);
+    return cell;
+  }
+
+  release(planetId: string) {
+    const cell = this.cells.get(planetId);
+    if (cell === undefined) return;
+    this.cells.delete(planetId);
+    this.freeCells.push(cell);
+  }
+
+  dispose() {
+    this.texture.dispose();
+  }
+
+  private paint(cell: number, data: PlanetData) {
+    const ctx = this.context;
+    const size = ATLAS_CELL_PIXELS;
+    const x = (cell % ATLAS_GRID) * size;
+    const y = Math.floor(cell / ATLAS_GRID) * size;
+    const center = size / 2;
+    ctx.clearRect(x, y, size, size);
+
+    // A soft atmospheric halo behind a shaded disc in the surface colors.
+    const halo = ctx.createRadialGradient(
+      x + center,
+      y + center,
+      center * 0.6,
+      x + center,
+      y + center,
+      center,
+    );
+    halo.addColorStop(0, data.visualization.atmosphereColor);
+    halo.addColorStop(1, 'transparent');
+    ctx.fillStyle = halo;
+    ctx.fillRect(x, y, size, size);
+
+    const surface = ctx.createRadialGradient(
+      x + center * 0.8,
+      y + center * 0.8,
+      0,
+      x + center,
+      y + center,
+      center * 0.75,
+    );
+    surface.addColorStop(0, data.visualization.color1);
+    surface.addColorStop(1, data.visualization.color2);
+    ctx.fillStyle = surface;
+    ctx.beginPath();
+    ctx.arc(x + center, y + center, center * 0.75, 0, Math.PI * 2);
+    ctx.fill();
+    this.texture.needsUpdate = true;
+  }
+}
+
+const impostorVs = `
+  attribute float aRadius;
+  attribute float aCell;
+  attribute float aOpacity;
+  uniform float uPixelsPerUnit;
+  varying float vCell;
+  varying float vOpacity;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    // Never shrinks below a visible dot, unlike the mesh it stands in for.
+    gl_PointSize = max(2.0 * aRadius * uPixelsPerUnit / -mvPosition.z, 2.0);
+    vCell = aCell;
+    vOpacity = aOpacity;
+  }
+`;
+
+const impostorFs = `
+  uniform sampler2D uAtlas;
+  uniform float uGrid;
+  varying float vCell;
+  varying float vOpacity;
+
+  void main() {
+    vec2 cell = vec2(mod(vCell, uGrid), floor(vCell / uGrid));
+    vec2 uv = vec2(
+      (cell.x + gl_PointCoord.x) / uGrid,
+      1.0 - (cell.y + gl_PointCoord.y) / uGrid
+    );
+    vec4 color = texture2D(uAtlas, uv);
+    if (color.a < 0.05) discard;
+    gl_FragColor = vec4(color.rgb, color.a * vOpacity);
+  }
+`;
+
+/**
+ * Draws every distant planet as a point sprite from the atlas in a single
+ * draw call. Call `begin()`, `add()` each impostor, then `end()` every frame.
+ */
+export class PlanetImpostors {
+  readonly points: THREE.Points;
+  private positions = new Float32Array(ATLAS_CAPACITY * 3);
+  private radii = new Float32Array(ATLAS_CAPACITY);
+  private cells = new Float32Array(ATLAS_CAPACITY);
+  private opacities = new Float32Array(ATLAS_CAPACITY);
+  private count = 0;
+  private material: THREE.ShaderMaterial;
+
+  constructor(atlas: PlanetAtlas) {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(this.positions, 3).setUsage(
+        THREE.DynamicDrawUsage,
+      ),
+    );
+    geometry.setAttribute(
+      'aRadius',
+      new THREE.BufferAttribute(this.radii, 1).setUsage(THREE.DynamicDrawUsage),
+    );
+    geometry.setAttribute(
+      'aCell',
+      new THREE.BufferAttribute(this.cells, 1).setUsage(THREE.DynamicDrawUsage),
+    );
+    geometry.setAttribute(
+      'aOpacity',
+      new THREE.BufferAttribute(this.opacities, 1).setUsage(
+        THREE.DynamicDrawUsage,
+      ),
+    );
+    geometry.setDrawRange(0, 0);
+    this.material = new THREE.ShaderMaterial({
+      vertexShader: impostorVs,
+      fragmentShader: impostorFs,
+      uniforms: {
+        uAtlas: {value: atlas.texture},
+        uGrid: {value: ATLAS_GRID},
+        uPixelsPerUnit: {value: 1},
+      },
+      transparent: true,
+      depthWrite: false,
+    });
+    this.points = new THREE.Points(geometry, this.material);
+    // Impostors span the whole galaxy and move every frame.
+    this.points.frustumCulled = false;
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  /**
+   * Starts a frame's impostors. `viewportHeight` is in drawing-buffer pixels,
+   * so sprites stay the size of the mesh they replace on any display.
+   */
+  begin(camera: THREE.PerspectiveCamera, viewportHeight: number) {
+    this.count = 0;
+    const halfFov = THREE.MathUtils.degToRad(camera.fov / 2);
+    this.material.uniforms.uPixelsPerUnit.value =
+      viewportHeight / (2 * Math.tan(halfFov));
+  }
+
+  add(position: THREE.Vector3, radius: number, cell: number, opacity: number) {
+    const i = this.count++;
+    position.toArray(this.positions, i * 3);
+    this.radii[i] = radius;
+    this.cells[i] = cell;
+    this.opacities[i] = opacity;
+  }
+
+  end() {
+    const geometry = this.points.geometry;
+    for (const name of ['position', 'aRadius', 'aCell', 'aOpacity']) {
+      const attribute = geometry.getAttribute(name) as THREE.BufferAttribute;
+      attribute.clearUpdateRanges();
+      attribute.addUpdateRange(0, this.count * attribute.itemSize);
+      attribute.needsUpdate = true;
+    }
+    geometry.setDrawRange(0, this.count);
+  }
+
+  dispose() {
+    this.points.geometry.dispose();
+    this.material.dispose();
+  }
+}
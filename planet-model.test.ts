@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {
+  PlanetData,
+  createPlanet,
+  createPlanetId,
+  normalizePlanet,
+} from './planet-model';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+
+function timestampOf(id: string) {
+  return Number(id.slice(id.lastIndexOf('-') + 1));
+}
+
+describe('createPlanetId', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stamps the prefix and the current time', () => {
+    vi.useFakeTimers({now: Date.now() + 60_000});
+    expect(createPlanetId()).toBe(`axee-${Date.now()}`);
+    expect(createPlanetId('import')).toMatch(/^import-\d+$/);
+  });
+
+  it('never repeats within one millisecond', () => {
+    vi.useFakeTimers({now: Date.now() + 120_000});
+    const ids = Array.from({length: 50}, () => createPlanetId());
+    expect(new Set(ids).size).toBe(50);
+    const timestamps = ids.map(timestampOf);
+    for (let i = 1; i < timestamps.length; i++) {
+      expect(timestamps[i]).toBe(timestamps[i - 1] + 1);
+    }
+  });
+
+  it('keeps counting up if the clock goes back', () => {
+    vi.useFakeTimers({now: Date.now() + 180_000});
+    const before = timestampOf(createPlanetId());
+    vi.setSystemTime(Date.now() - 60_000);
+    expect(timestampOf(createPlanetId())).toBe(before + 1);
+  });
+});
+
+describe('normalizePlanet', () => {
+  const planet = (): PlanetData => ({
+    ...new ProceduralSynthesisProvider(7).generate('a ringed giant'),
+    celestial_body_id: 'axee-1',
+  });
+
+  it('trims text and drops blank key features', () => {
+    const messy = {
+      ...planet(),
+      planetName: '  Kepler-442 b\n',
+      aiWhisper: '\tIt hums. ',
+      keyFeatures: [' Tidally locked ', '', '   ', 'Thick haze'],
+    };
+    const normalized = normalizePlanet(messy);
+    expect(normalized.planetName).toBe('Kepler-442 b');
+    expect(normalized.aiWhisper).toBe('It hums.');
+    expect(normalized.keyFeatures).toEqual(['Tidally locked', 'Thick haze']);
+  });
+
+  it('lowercases colors', () => {
+    const messy = planet();
+    messy.visualization = {
+      color1: '#A1B2C3',
+      color2: '#ffEE00',
+      atmosphereColor: '#ABCDEF',
+      hasRings: true,
+    };
+    expect(normalizePlanet(messy).visualization).toEqual({
+      color1: '#a1b2c3',
+      color2: '#ffee00',
+      atmosphereColor: '#abcdef',
+      hasRings: true,
+    });
+  });
+
+  it('leaves out absent orbit and physical blocks', () => {
+    const {orbit, physical, ...older} = planet();
+    expect(orbit).toBeDefined();
+    expect(physical).toBeDefined();
+    const normalized = normalizePlanet({
+      ...older,
+      orbit: undefined,
+      physical: null,
+    });
+    expect('orbit' in normalized).toBe(false);
+    expect('physical' in normalized).toBe(false);
+    expect(normalizePlanet({...older, orbit}).orbit).toEqual(orbit);
+  });
+
+  it('is idempotent and does not touch its input', () => {
+    const original = {...planet(), planetName: ' Vesper '};
+    const copy = structuredClone(original);
+    const normalized = normalizePlanet(original);
+    expect(original).toEqual(copy);
+    expect(normalizePlanet(normalized)).toEqual(normalized);
+  });
+});
+
+describe('createPlanet', () => {
+  it('assigns a new ID unless one is reserved', () => {
+    const {celestial_body_id, ...fields} = new ProceduralSynthesisProvider(
+      3,
+    ).generate('an ocean world');
+    expect(celestial_body_id).toBeDefined();
+    expect(createPlanet(fields).celestial_body_id).toMatch(/^axee-\d+$/);
+    expect(createPlanet(fields, 'axee-42').celestial_body_id).toBe('axee-42');
+  });
+});
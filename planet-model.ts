@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface PlanetOrbit {
+  semiMajorAxisAU: number;
+  eccentricity: number;
+  inclinationDeg: number;
+  // Informational only; the engine re-derives it from Kepler's third law.
+  periodDays?: number;
+}
+
+// Bulk properties; anything left out is estimated from the prose and type.
+export interface PlanetPhysical {
+  radiusEarth?: number;
+  massEarth?: number;
+  albedo?: number; // Bond albedo, 0..1
+}
+
+export interface PlanetData {
+  celestial_body_id: string; // Unique ID
+  planetName: string;
+  starSystem: string;
+  starType: string;
+  distanceLightYears: number;
+  planetType: string;
+  discoveryNarrative: string;
+  discoveryMethodology: string;
+  atmosphericComposition: string;
+  surfaceFeatures: string;
+  keyFeatures: string[];
+  aiWhisper: string;
+  visualization: {
+    color1: string;
+    color2: string;
+    atmosphereColor: string;
+    hasRings: boolean;
+  };
+  orbit?: PlanetOrbit; // Older discoveries predate orbital elements
+  physical?: PlanetPhysical; // Likewise for physical parameters
+}
+
+/** Everything a synthesis supplies; the catalog assigns the ID. */
+export type PlanetFields = Omit<PlanetData, 'celestial_body_id'>;
+
+const TEXT_FIELDS = [
+  'planetName',
+  'starSystem',
+  'starType',
+  'planetType',
+  'discoveryNarrative',
+  'discoveryMethodology',
+  'atmosphericComposition',
+  'surfaceFeatures',
+  'aiWhisper',
+] as const;
+
+// Last timestamp handed out, so IDs minted within one millisecond still
+// differ.
+let lastIdTimestamp = 0;
+
+/** A fresh `celestial_body_id` such as "axee-1718040000000". */
+export function createPlanetId(prefix = 'axee'): string {
+  lastIdTimestamp = Math.max(Date.now(), lastIdTimestamp + 1);
+  return `${prefix}-${lastIdTimestamp}`;
+}
+
+/**
+ * Puts a planet from any source (a synthesis, an import, the archive) into
+ * canonical form: text trimmed, blank key features dropped, colors in
+ * lowercase hex, and absent orbit or physical blocks left out rather than
+ * null. Assumes the planet already passed validatePlanetData.
+ */
+export function normalizePlanet(planet: PlanetData): PlanetData {
+  const {orbit, physical, ...rest} = planet;
+  const normalized: PlanetData = {
+    ...rest,
+    keyFeatures: planet.keyFeatures
+      .map((feature) => feature.trim())
+      .filter(Boolean),
+    visualization: {
+      color1: planet.visualization.color1.toLowerCase(),
+      color2: planet.visualization.color2.toLowerCase(),
+      atmosphereColor: planet.visualization.atmosphereColor.toLowerCase(),
+      hasRings: planet.visualization.hasRings,
+    },
+  };
+  for (const field of TEXT_FIELDS) {
+    normalized[field] = planet[field].trim();
+  }
+  if (orbit) normalized.orbit = orbit;
+  if (physical) normalized.physical = physical;
+  return normalized;
+}
+
+/**
+ * Builds a catalog-ready planet from synthesized fields under a new ID, or
+ * under `id` when the caller has already reserved one.
+ */
+export function createPlanet(
+  fields: PlanetFields,
+  id = createPlanetId(),
+): PlanetData {
+  return normalizePlanet({...fields, celestial_body_id: id});
+}
+
+export interface GroundingChunk {
+  web?: {
+    uri?: string;
+    title?: string;
+  };
+}
+
+// Ties a span of the model's response text to the chunks that support it.
+export interface GroundingSupport {
+  segment?: {
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+}
+
+export interface PlanetGrounding {
+  chunks: GroundingChunk[];
+  webSearchQueries: string[];
+  supports: GroundingSupport[];
+}
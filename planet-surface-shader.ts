@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const vs = `
+  varying vec3 vObjectPosition;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    vObjectPosition = position;
+    vWorldNormal = normalize(mat3(modelMatrix) * normal);
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+  }
+`;
+
+export const fs = `
+  uniform vec3 uColor1;
+  uniform vec3 uColor2;
+  uniform float uSeed;
+  uniform float uBands;      // 0..1, gas and ice giant cloud belts
+  uniform float uCraters;    // 0..1, impact crater density
+  uniform float uOceanLevel; // 0 for no ocean, up to ~0.7 for water worlds
+  uniform float uIceCaps;    // 0..1, polar cap extent
+  uniform float uLava;       // 0..1, glowing crack intensity
+  uniform float uDim;        // brightness multiplier, 1 unless filtered out
+  uniform vec3 uStarPosition;
+  uniform vec3 uStarColor;
+
+  varying vec3 vObjectPosition;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  // 3D simplex noise by Ian McEwan, Ashima Arts (MIT licensed).
+  vec4 permute(vec4 x) { return mod(((x * 34.0) + 1.0) * x, 289.0); }
+  vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+  float snoise(vec3 v) {
+    const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+    const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+    vec3 i = floor(v + dot(v, C.yyy));
+    vec3 x0 = v - i + dot(i, C.xxx);
+
+    vec3 g = step(x0.yzx, x0.xyz);
+    vec3 l = 1.0 - g;
+    vec3 i1 = min(g.xyz, l.zxy);
+    vec3 i2 = max(g.xyz, l.zxy);
+
+    vec3 x1 = x0 - i1 + C.xxx;
+    vec3 x2 = x0 - i2 + 2.0 * C.xxx;
+    vec3 x3 = x0 - 1.0 + 3.0 * C.xxx;
+
+    i = mod(i, 289.0);
+    vec4 p = permute(permute(permute(
+        i.z + vec4(0.0, i1.z, i2.z, 1.0))
+      + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+      + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+    float n_ = 1.0 / 7.0;
+    vec3 ns = n_ * D.wyz - D.xzx;
+
+    vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+    vec4 x_ = floor(j * ns.z);
+    vec4 y_ = floor(j - 7.0 * x_);
+
+    vec4 x = x_ * ns.x + ns.yyyy;
+    vec4 y = y_ * ns.x + ns.yyyy;
+    vec4 h = 1.0 - abs(x) - abs(y);
+
+    vec4 b0 = vec4(x.xy, y.xy);
+    vec4 b1 = vec4(x.zw, y.zw);
+    vec4 s0 = floor(b0) * 2.0 + 1.0;
+    vec4 s1 = floor(b1) * 2.0 + 1.0;
+    vec4 sh = -step(h, vec4(0.0));
+
+    vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+    vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+    vec3 p0 = vec3(a0.xy, h.x);
+    vec3 p1 = vec3(a0.zw, h.y);
+    vec3 p2 = vec3(a1.xy, h.z);
+    vec3 p3 = vec3(a1.zw, h.w);
+
+    vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+    p0 *= norm.x;
+    p1 *= norm.y;
+    p2 *= norm.z;
+    p3 *= norm.w;
+
+    vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+    m = m * m;
+    return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+  }
+
+  float fbm(vec3 p) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    for (int i = 0; i < 5; i++) {
+      value += amplitude * snoise(p);
+      p *= 2.0;
+      amplitude *= 0.5;
+    }
+    return value * 0.5 + 0.5;
+  }
+
+  vec3 hash3(vec3 p) {
+    p = vec3(
+      dot(p, vec3(127.1, 311.7, 74.7)),
+      dot(p, vec3(269.5, 183.3, 246.1)),
+      dot(p, vec3(113.5, 271.9, 124.6)));
+    return fract(sin(p) * 43758.5453123);
+  }
+
+  // Distance to the nearest randomly placed crater centre (cellular noise).
+  float craterField(vec3 p) {
+    vec3 cell = floor(p);
+    float nearest = 10.0;
+    for (int x = -1; x <= 1; x++) {
+      for (int y = -1; y <= 1; y++) {
+        for (int z = -1; z <= 1; z++) {
+          vec3 neighbour = cell + vec3(float(x), float(y), float(z));
+          vec3 centre = neighbour + hash3(neighbour + uSeed);
+          nearest = min(nearest, length(p - centre));
+        }
+      }
+    }
+    return nearest;
+  }
+
+  void main() {
+    vec3 direction = normalize(vObjectPosition);
+    vec3 p = direction * 2.0 + vec3(uSeed);
+
+    float height = fbm(p * 1.5);
+    vec3 color = mix(uColor2, uColor1, smoothstep(0.3, 0.7, height));
+    float specular = 0.0;
+    vec3 emissive = vec3(0.0);
+
+    // Gas giant belts, warped by turbulence so they swirl instead of stripe
+    if (uBands > 0.0) {
+      float turbulence = fbm(p * 3.0) - 0.5;
+      float latitude = direction.y + turbulence * 0.25;
+      float belts = sin(latitude * (14.0 + fract(uSeed) * 10.0) + uSeed) * 0.5 + 0.5;
+      belts = mix(belts, fbm(vec3(latitude * 8.0, p.xz * 0.5)), 0.35);
+      vec3 bandColor = mix(uColor2, uColor1, belts);
+      color = mix(color, bandColor, uBands);
+    }
+
+    // Impact craters: dark floors with bright raised rims
+    if (uCraters > 0.0) {
+      float distanceToCentre = craterField(p * 4.0);
+      float radius = 0.25 + 0.2 * fbm(p * 6.0);
+      float floorMask = 1.0 - smoothstep(radius * 0.7, radius, distanceToCentre);
+      float rim = smoothstep(radius * 0.8, radius, distanceToCentre) *
+        (1.0 - smoothstep(radius, radius * 1.2, distanceToCentre));
+      color *= 1.0 - floorMask * 0.3 * uCraters;
+      color += rim * 0.15 * uCraters;
+    }
+
+    // Oceans fill everything below sea level and reflect the star
+    if (uOceanLevel > 0.0 && height < uOceanLevel) {
+      float depth = (uOceanLevel - height) / max(uOceanLevel, 0.001);
+      vec3 shallow = mix(uColor1, vec3(0.1, 0.45, 0.7), 0.6);
+      vec3 deep = mix(uColor2, vec3(0.0, 0.08, 0.25), 0.7);
+      color = mix(shallow, deep, smoothstep(0.0, 0.6, depth));
+      specular = 1.0;
+    }
+
+    // Polar ice caps with ragged edges
+    if (uIceCaps > 0.0) {
+      float capEdge = 1.0 - uIceCaps * 0.45 + (fbm(p * 4.0) - 0.5) * 0.15;
+      float ice = smoothstep(capEdge, capEdge + 0.04, abs(direction.y));
+      color = mix(color, vec3(0.92, 0.96, 1.0), ice);
+      specular = mix(specular, 0.4, ice);
+    }
+
+    // Lava glows through thin cracks in the crust
+    if (uLava > 0.0) {
+      float ridge = 1.0 - abs(snoise(p * 3.0 + vec3(0.0, uSeed, 0.0)));
+      float cracks = smoothstep(0.92, 0.99, ridge);
+      color = mix(color, color * 0.35, uLava * 0.6);
+      emissive = vec3(1.0, 0.35, 0.05) * cracks * uLava * 1.5;
+    }
+
+    vec3 normal = normalize(vWorldNormal);
+    vec3 lightDirection = normalize(uStarPosition - vWorldPosition);
+    vec3 viewDirection = normalize(cameraPosition - vWorldPosition);
+    float diffuse = max(dot(normal, lightDirection), 0.0);
+    vec3 halfway = normalize(lightDirection + viewDirection);
+    float highlight = pow(max(dot(normal, halfway), 0.0), 60.0) * specular;
+
+    vec3 lit = color * (0.12 + diffuse * uStarColor) + highlight * uStarColor;
+    gl_FragColor = vec4((lit + emissive) * uDim, 1.0);
+  }
+`;
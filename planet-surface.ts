@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData} from './planet-model';
+import {hashString} from './seeded-random';
+
+/** Feature weights for the procedural surface shader, each in 0..1. */
+export interface PlanetSurfaceParams {
+  seed: number;
+  bands: number;
+  craters: number;
+  oceanLevel: number;
+  iceCaps: number;
+  lava: number;
+}
+
+function mentions(text: string, keywords: string[]) {
+  return keywords.some((keyword) => text.includes(keyword));
+}
+
+/**
+ * Chooses shader features from the planet type and the keywords in its
+ * surface description. The seed comes from `celestial_body_id`, so a world
+ * looks the same every time it is rendered.
+ */
+export function planetSurfaceParams(
+  planet: Pick<
+    PlanetData,
+    'celestial_body_id' | 'planetType' | 'surfaceFeatures'
+  >,
+): PlanetSurfaceParams {
+  const type = planet.planetType.toLowerCase();
+  const surface = planet.surfaceFeatures.toLowerCase();
+  const isGiant = mentions(type, ['gas', 'giant', 'jovian', 'neptun']);
+
+  const params: PlanetSurfaceParams = {
+    // Kept small so it stays precise as a GLSL float offset.
+    seed: (hashString(planet.celestial_body_id) % 10000) / 100,
+    bands: isGiant ? 1 : 0,
+    craters: 0,
+    oceanLevel: 0,
+    iceCaps: 0,
+    lava: 0,
+  };
+  if (isGiant) {
+    // Ice giants have soft, muted belts.
+    if (type.includes('ice')) params.bands = 0.5;
+    return params;
+  }
+
+  if (mentions(surface + type, ['crater', 'impact', 'barren', 'rock'])) {
+    params.craters = 1;
+  } else if (mentions(surface, ['desert', 'canyon', 'mesa', 'dust'])) {
+    params.craters = 0.4;
+  }
+  if (mentions(surface + type, ['ocean', 'sea', 'water', 'lake'])) {
+    params.oceanLevel = mentions(type, ['ocean', 'water world']) ? 0.7 : 0.45;
+  }
+  if (mentions(surface + type, ['ice', 'frozen', 'glacier', 'polar', 'snow'])) {
+    params.iceCaps = mentions(type, ['ice', 'frozen']) ? 1 : 0.5;
+  }
+  if (mentions(surface + type, ['lava', 'volcan', 'magma', 'molten'])) {
+    params.lava = 1;
+  }
+  return params;
+}
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {readFileSync} from 'fs';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {parsePartialJson} from './partial-json';
+import {
+  PlanetValidationError,
+  parsePlanetResponse,
+  parsePlanetWithRepair,
+  streamedScenePlanet,
+  validatePlanetData,
+} from './planet-validation';
+
+// Model responses in the shapes Gemini returns them: grounded replies wrapped
+// in prose and fences, structured-output JSON, and the usual failures.
+function response(name: string) {
+  return readFileSync(
+    new URL(`./fixtures/planet-responses/${name}`, import.meta.url),
+    'utf8',
+  );
+}
+
+function errorPaths(text: string) {
+  return parsePlanetResponse(text).errors.map((error) => error.path);
+}
+
+describe('validatePlanetData', () => {
+  const valid = () => JSON.parse(response('structured-repair.json'));
+
+  it('accepts a complete planet', () => {
+    const planet = valid();
+    expect(validatePlanetData(planet)).toEqual({value: planet, errors: []});
+  });
+
+  it('rejects anything but an object', () => {
+    for (const value of [null, 'planet', 42, [valid()]]) {
+      expect(validatePlanetData(value).errors).toEqual([
+        {path: '$', message: 'must be a JSON object'},
+      ]);
+    }
+  });
+
+  it('reports every offending field', () => {
+    const planet = valid();
+    delete planet.planetName;
+    planet.distanceLightYears = -3;
+    planet.keyFeatures = [];
+    planet.visualization.color2 = '#12345';
+    const {value, errors} = validatePlanetData(planet);
+    expect(value).toBeNull();
+    expect(errors.map((error) => error.path)).toEqual([
+      'planetName',
+      'distanceLightYears',
+      'keyFeatures',
+      'visualization.color2',
+    ]);
+  });
+
+  it('checks distance against the galaxy', () => {
+    const planet = {...valid(), distanceLightYears: 250000};
+    expect(validatePlanetData(planet).errors).toEqual([
+      {
+        path: 'distanceLightYears',
+        message: 'must be greater than 0 and at most 100000',
+      },
+    ]);
+  });
+
+  it('checks optional orbit and physical blocks only when present', () => {
+    const planet = {
+      ...valid(),
+      orbit: {semiMajorAxisAU: 0.05, eccentricity: 1, inclinationDeg: 90},
+      physical: {radiusEarth: 1.2, albedo: 1.5},
+    };
+    expect(validatePlanetData(planet).errors.map((e) => e.path)).toEqual([
+      'orbit.eccentricity',
+      'physical.albedo',
+    ]);
+  });
+});
+
+describe('parsePlanetResponse', () => {
+  it('extracts a planet from prose and markdown fences', () => {
+    const {value, errors} = parsePlanetResponse(
+      response('grounded-with-prose.txt'),
+    );
+    expect(errors).toEqual([]);
+    expect(value?.planetName).toBe('Veridian Drift');
+    expect(value?.visualization.hasRings).toBe(false);
+  });
+
+  it('parses structured output as is', () => {
+    const {value, errors} = parsePlanetResponse(
+      response('structured-repair.json'),
+    );
+    expect(errors).toEqual([]);
+    expect(value?.keyFeatures).toHaveLength(3);
+  });
+
+  it('reports wrongly typed fields', () => {
+    expect(errorPaths(response('named-colors.txt'))).toEqual([
+      'distanceLightYears',
+      'keyFeatures[1]',
+      'visualization.color1',
+      'visualization.atmosphereColor',
+      'visualization.hasRings',
+    ]);
+  });
+
+  it('reports missing fields', () => {
+    expect(errorPaths(response('missing-visualization.txt'))).toEqual([
+      'surfaceFeatures',
+      'visualization',
+    ]);
+  });
+
+  it('rejects responses without a JSON object', () => {
+    for (const name of ['refusal.txt', 'truncated.txt']) {
+      expect(parsePlanetResponse(response(name)).errors).toEqual([
+        {path: '$', message: 'response did not contain a JSON object'},
+      ]);
+    }
+  });
+
+  it('rejects malformed JSON', () => {
+    const [error] = parsePlanetResponse("{'planetName': 'Nope'}").errors;
+    expect(error.path).toBe('$');
+    expect(error.message).toMatch(/^is not valid JSON/);
+  });
+});
+
+describe('parsePlanetWithRepair', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('does not ask for a repair when the response is valid', async () => {
+    const requestRepair = vi.fn();
+    const planet = await parsePlanetWithRepair(
+      response('grounded-with-prose.txt'),
+      requestRepair,
+    );
+    expect(planet.starSystem).toBe('TOI-1452');
+    expect(requestRepair).not.toHaveBeenCalled();
+  });
+
+  it('sends the errors and the previous response back to the model', async () => {
+    const invalid = response('named-colors.txt');
+    const requestRepair = vi
+      .fn<(prompt: string) => Promise<string>>()
+      .mockResolvedValue(response('structured-repair.json'));
+    const planet = await parsePlanetWithRepair(invalid, requestRepair);
+    expect(planet.planetName).toBe('Veridian Drift');
+    expect(requestRepair).toHaveBeenCalledTimes(1);
+    const [prompt] = requestRepair.mock.calls[0];
+    expect(prompt).toContain('- visualization.color1: must be a hex color');
+    expect(prompt).toContain('- visualization.hasRings: must be a boolean');
+    expect(prompt).toContain(invalid);
+  });
+
+  it('repairs the latest response on each attempt', async () => {
+    const requestRepair = vi
+      .fn<(prompt: string) => Promise<string>>()
+      .mockResolvedValueOnce(response('missing-visualization.txt'))
+      .mockResolvedValueOnce(response('structured-repair.json'));
+    await parsePlanetWithRepair(response('refusal.txt'), requestRepair);
+    expect(requestRepair).toHaveBeenCalledTimes(2);
+    const [secondPrompt] = requestRepair.mock.calls[1];
+    expect(secondPrompt).toContain('- visualization: must be an object');
+    expect(secondPrompt).toContain('Hollow Lantern');
+  });
+
+  it('gives up once the repair budget runs out', async () => {
+    const requestRepair = vi
+      .fn<(prompt: string) => Promise<string>>()
+      .mockResolvedValue(response('truncated.txt'));
+    const result = parsePlanetWithRepair(
+      response('named-colors.txt'),
+      requestRepair,
+      3,
+    );
+    await expect(result).rejects.toThrow(PlanetValidationError);
+    await expect(result).rejects.toMatchObject({
+      errors: [{path: '$', message: 'response did not contain a JSON object'}],
+    });
+    expect(requestRepair).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails without repairing when the budget is zero', async () => {
+    const requestRepair = vi.fn();
+    await expect(
+      parsePlanetWithRepair(response('refusal.txt'), requestRepair, 0),
+    ).rejects.toThrow(PlanetValidationError);
+    expect(requestRepair).not.toHaveBeenCalled();
+  });
+});
+
+describe('streamedScenePlanet', () => {
+  it('draws nothing until the visualization has fully arrived', () => {
+    const text = response('grounded-with-prose.txt');
+    const visualizationEnd = text.indexOf('}', text.indexOf('"visualization"'));
+    let firstDrawn = -1;
+    // Every prefix of the response, as the stream delivers it.
+    for (let end = 1; end <= text.length; end++) {
+      const {value, closedPaths} = parsePartialJson(text.slice(0, end));
+      const planet = streamedScenePlanet(value, 'axee-1');
+      if (planet && closedPaths.has('visualization') && firstDrawn < 0) {
+        firstDrawn = end;
+      }
+    }
+    expect(firstDrawn).toBe(visualizationEnd + 1);
+  });
+
+  it('fills fields that have not arrived with empty values', () => {
+    const planet = JSON.parse(response('structured-repair.json'));
+    const {planetName, starSystem, planetType, distanceLightYears} = planet;
+    expect(
+      streamedScenePlanet(
+        {
+          planetName,
+          starSystem,
+          planetType,
+          distanceLightYears,
+          visualization: planet.visualization,
+        },
+        'axee-1',
+      ),
+    ).toEqual({
+      celestial_body_id: 'axee-1',
+      planetName,
+      starSystem,
+      starType: '',
+      distanceLightYears,
+      planetType,
+      discoveryNarrative: '',
+      discoveryMethodology: '',
+      atmosphericComposition: '',
+      surfaceFeatures: '',
+      keyFeatures: [],
+      aiWhisper: '',
+      visualization: planet.visualization,
+    });
+  });
+
+  it('waits for the fields the scene lays out and draws', () => {
+    const planet = JSON.parse(response('structured-repair.json'));
+    expect(streamedScenePlanet(planet, 'axee-1')).not.toBeNull();
+    for (const field of ['planetName', 'starSystem', 'planetType']) {
+      expect(streamedScenePlanet({...planet, [field]: ''}, 'axee-1')).toBe(
+        null,
+      );
+    }
+    expect(
+      streamedScenePlanet({...planet, distanceLightYears: -1}, 'axee-1'),
+    ).toBeNull();
+  });
+
+  it('rejects visualizations that validatePlanetData rejects', () => {
+    const planet = JSON.parse(response('structured-repair.json'));
+    for (const change of [
+      {color1: 'teal'},
+      {atmosphereColor: '#12'},
+      {hasRings: 'false'},
+    ]) {
+      const visualization = {...planet.visualization, ...change};
+      expect(
+        streamedScenePlanet({...planet, visualization}, 'axee-1'),
+      ).toBeNull();
+    }
+  });
+});
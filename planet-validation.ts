@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Schema, Type} from '@google/genai';
+import {PlanetData} from './planet-model';
+
+export interface PlanetFieldError {
+  path: string;
+  message: string;
+}
+
+// `value` is only set when `errors` is empty.
+export interface PlanetValidationResult {
+  value: PlanetData | null;
+  errors: PlanetFieldError[];
+}
+
+/**
+ * Thrown when a model response still fails validation after every repair
+ * attempt has been used up.
+ */
+export class PlanetValidationError extends Error {
+  constructor(readonly errors: PlanetFieldError[]) {
+    super(
+      `Invalid planet data: ${errors
+        .map((error) => `${error.path} ${error.message}`)
+        .join('; ')}`,
+    );
+    this.name = 'PlanetValidationError';
+  }
+}
+
+export const MAX_DISTANCE_LIGHT_YEARS = 100000; // Roughly the Milky Way's diameter
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const REQUIRED_TEXT_FIELDS = [
+  'planetName',
+  'starSystem',
+  'starType',
+  'planetType',
+  'discoveryNarrative',
+  'discoveryMethodology',
+  'atmosphericComposition',
+  'surfaceFeatures',
+  'aiWhisper',
+] as const;
+
+const COLOR_FIELDS = ['color1', 'color2', 'atmosphereColor'] as const;
+
+// Mirrors PlanetData for structured-output requests. `celestial_body_id` is
+// left out because the engine always assigns its own.
+export const PLANET_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    planetName: {type: Type.STRING},
+    starSystem: {type: Type.STRING},
+    starType: {type: Type.STRING},
+    distanceLightYears: {type: Type.NUMBER},
+    planetType: {type: Type.STRING},
+    discoveryNarrative: {type: Type.STRING},
+    discoveryMethodology: {type: Type.STRING},
+    atmosphericComposition: {type: Type.STRING},
+    surfaceFeatures: {type: Type.STRING},
+    keyFeatures: {type: Type.ARRAY, items: {type: Type.STRING}},
+    aiWhisper: {type: Type.STRING},
+    visualization: {
+      type: Type.OBJECT,
+      properties: {
+        color1: {type: Type.STRING},
+        color2: {type: Type.STRING},
+        atmosphereColor: {type: Type.STRING},
+        hasRings: {type: Type.BOOLEAN},
+      },
+      required: ['color1', 'color2', 'atmosphereColor', 'hasRings'],
+    },
+    orbit: {
+      type: Type.OBJECT,
+      properties: {
+        semiMajorAxisAU: {type: Type.NUMBER},
+        eccentricity: {type: Type.NUMBER},
+        inclinationDeg: {type: Type.NUMBER},
+        periodDays: {type: Type.NUMBER},
+      },
+      required: ['semiMajorAxisAU', 'eccentricity', 'inclinationDeg'],
+    },
+    physical: {
+      type: Type.OBJECT,
+      properties: {
+        radiusEarth: {type: Type.NUMBER},
+        massEarth: {type: Type.NUMBER},
+        albedo: {type: Type.NUMBER},
+      },
+    },
+  },
+  required: [
+    ...REQUIRED_TEXT_FIELDS,
+    'distanceLightYears',
+    'keyFeatures',
+    'visualization',
+  ],
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function validateDistance(distance: unknown): PlanetFieldError[] {
+  if (!isFiniteNumber(distance)) {
+    return [{path: 'distanceLightYears', message: 'must be a number'}];
+  }
+  if (distance <= 0 || distance > MAX_DISTANCE_LIGHT_YEARS) {
+    return [
+      {
+        path: 'distanceLightYears',
+        message: `must be greater than 0 and at most ${MAX_DISTANCE_LIGHT_YEARS}`,
+      },
+    ];
+  }
+  return [];
+}
+
+function validateVisualization(visualization: unknown): PlanetFieldError[] {
+  if (!isRecord(visualization)) {
+    return [{path: 'visualization', message: 'must be an object'}];
+  }
+  const errors: PlanetFieldError[] = [];
+  for (const field of COLOR_FIELDS) {
+    const color = visualization[field];
+    if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+      errors.push({
+        path: `visualization.${field}`,
+        message: 'must be a hex color such as "#1a2b3c"',
+      });
+    }
+  }
+  if (typeof visualization.hasRings !== 'boolean') {
+    errors.push({
+      path: 'visualization.hasRings',
+      message: 'must be a boolean',
+    });
+  }
+  return errors;
+}
+
+function isVisualization(
+  value: unknown,
+): value is PlanetData['visualization'] {
+  return validateVisualization(value).length === 0;
+}
+
+function validateOrbit(orbit: unknown): PlanetFieldError[] {
+  if (!isRecord(orbit)) {
+    return [{path: 'orbit', message: 'must be an object'}];
+  }
+  const errors: PlanetFieldError[] = [];
+  const {semiMajorAxisAU, eccentricity, inclinationDeg, periodDays} = orbit;
+  if (!isFiniteNumber(semiMajorAxisAU) || semiMajorAxisAU <= 0) {
+    errors.push({
+      path: 'orbit.semiMajorAxisAU',
+      message: 'must be a positive number',
+    });
+  }
+  if (!isFiniteNumber(eccentricity) || eccentricity < 0 || eccentricity >= 1) {
+    errors.push({
+      path: 'orbit.eccentricity',
+      message: 'must be a number from 0 up to (but excluding) 1',
+    });
+  }
+  if (
+    !isFiniteNumber(inclinationDeg) ||
+    inclinationDeg < 0 ||
+    inclinationDeg > 180
+  ) {
+    errors.push({
+      path: 'orbit.inclinationDeg',
+      message: 'must be a number between 0 and 180',
+    });
+  }
+  if (
+    periodDays !== undefined &&
+    (!isFiniteNumber(periodDays) || periodDays <= 0)
+  ) {
+    errors.push({
+      path: 'orbit.periodDays',
+      message: 'must be a positive number',
+    });
+  }
+  return errors;
+}
+
+function validatePhysical(physical: unknown): PlanetFieldError[] {
+  if (!isRecord(physical)) {
+    return [{path: 'physical', message: 'must be an object'}];
+  }
+  const errors: PlanetFieldError[] = [];
+  for (const field of ['radiusEarth', 'massEarth'] as const) {
+    const value = physical[field];
+    if (value !== undefined && (!isFiniteNumber(value) || value <= 0)) {
+      errors.push({
+        path: `physical.${field}`,
+        message: 'must be a positive number',
+      });
+    }
+  }
+  const {albedo} = physical;
+  if (
+    albedo !== undefined &&
+    (!isFiniteNumber(albedo) || albedo < 0 || albedo >= 1)
+  ) {
+    errors.push({
+      path: 'physical.albedo',
+      message: 'must be a number from 0 up to (but excluding) 1',
+    });
+  }
+  return errors;
+}
+
+/**
+ * Checks an untrusted value against the PlanetData contract and reports every
+ * offending field rather than stopping at the first one. The
+ * `celestial_body_id` is not checked because callers always assign their own.
+ */
+export function validatePlanetData(value: unknown): PlanetValidationResult {
+  if (!isRecord(value)) {
+    return {
+      value: null,
+      errors: [{path: '$', message: 'must be a JSON object'}],
+    };
+  }
+  const errors: PlanetFieldError[] = [];
+
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    if (!isNonEmptyString(value[field])) {
+      errors.push({path: field, message: 'must be a non-empty string'});
+    }
+  }
+
+  errors.push(...validateDistance(value.distanceLightYears));
+
+  const keyFeatures = value.keyFeatures;
+  if (!Array.isArray(keyFeatures) || keyFeatures.length === 0) {
+    errors.push({path: 'keyFeatures', message: 'must be a non-empty array'});
+  } else {
+    keyFeatures.forEach((feature, index) => {
+      if (!isNonEmptyString(feature)) {
+        errors.push({
+          path: `keyFeatures[${index}]`,
+          message: 'must be a non-empty string',
+        });
+      }
+    });
+  }
+
+  errors.push(...validateVisualization(value.visualization));
+
+  if (value.orbit !== undefined) {
+    errors.push(...validateOrbit(value.orbit));
+  }
+  if (value.physical !== undefined) {
+    errors.push(...validatePhysical(value.physical));
+  }
+
+  if (errors.length > 0) {
+    return {value: null, errors};
+  }
+  return {value: value as unknown as PlanetData, errors};
+}
+
+/**
+ * Builds the planet the 3D scene can draw while a response is still
+ * streaming in. Returns null until the name, star system, type, distance and
+ * visualization have arrived and pass the same checks as validatePlanetData;
+ * text fields that have not arrived yet are left empty, and the orbit is left
+ * out because it streams in after the visualization.
+ */
+export function streamedScenePlanet(
+  partial: unknown,
+  id: string,
+): PlanetData | null {
+  if (!isRecord(partial)) return null;
+  const {planetName, starSystem, planetType, visualization} = partial;
+  const distanceLightYears = partial.distanceLightYears;
+  if (
+    !isNonEmptyString(planetName) ||
+    !isNonEmptyString(starSystem) ||
+    !isNonEmptyString(planetType) ||
+    !isFiniteNumber(distanceLightYears) ||
+    validateDistance(distanceLightYears).length > 0 ||
+    !isVisualization(visualization)
+  ) {
+    return null;
+  }
+  const text = (field: string) => {
+    const value = partial[field];
+    return typeof value === 'string' ? value : '';
+  };
+  const keyFeatures = partial.keyFeatures;
+  return {
+    celestial_body_id: id,
+    planetName,
+    starSystem,
+    starType: text('starType'),
+    distanceLightYears,
+    planetType,
+    discoveryNarrative: text('discoveryNarrative'),
+    discoveryMethodology: text('discoveryMethodology'),
+    atmosphericComposition: text('atmosphericComposition'),
+    surfaceFeatures: text('surfaceFeatures'),
+    keyFeatures: Array.isArray(keyFeatures)
+      ? keyFeatures.filter(isNonEmptyString)
+      : [],
+    aiWhisper: text('aiWhisper'),
+    visualization: {
+      color1: visualization.color1,
+      color2: visualization.color2,
+      atmosphereColor: visualization.atmosphereColor,
+      hasRings: visualization.hasRings,
+    },
+  };
+}
+
+/**
+ * Pulls the outermost JSON object out of a model response, tolerating prose or
+ * markdown fences around it.
+ */
+export function extractJsonObject(text: string): string | null {
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    return null;
+  }
+  return text.substring(firstBrace, lastBrace + 1);
+}
+
+/** Parses and validates a raw model response in one step. */
+export function parsePlanetResponse(text: string): PlanetValidationResult {
+  const jsonString = extractJsonObject(text);
+  if (jsonString === null) {
+    return {
+      value: null,
+      errors: [{path: '$', message: 'response did not contain a JSON object'}],
+    };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
+  } catch (e) {
+    return {
+      value: null,
+      errors: [
+        {path: '$', message: `is not valid JSON (${(e as Error).message})`},
+      ],
+    };
+  }
+  return validatePlanetData(parsed);
+}
+
+export function buildRepairPrompt(
+  previousResponse: string,
+  errors: PlanetFieldError[],
+): string {
+  return `Your previous response could not be used because it did not match the required exoplanet JSON structure.
+
+      Validation errors:
+      ${errors.map((error) => `- ${error.path}: ${error.message}`).join('\n      ')}
+
+      Previous response:
+      ${previousResponse}
+
+      Return the corrected exoplanet as a single JSON object. Keep every valid field unchanged, fix only the fields listed above, and do not include any text outside of the JSON object.`;
+}
+
+/**
+ * Validates `initialResponse` and, while it is invalid, asks the model to fix
+ * it by sending the validation errors back through `requestRepair`. Gives up
+ * with a PlanetValidationError after `maxRepairAttempts` failed repairs.
+ */
+export async function parsePlanetWithRepair(
+  initialResponse: string,
+  requestRepair: (repairPrompt: string) => Promise<string>,
+  maxRepairAttempts = 2,
+): Promise<PlanetData> {
+  let response = initialResponse;
+  let result = parsePlanetResponse(response);
+  for (let attempt = 0; attempt < maxRepairAttempts; attempt++) {
+    if (result.value) break;
+    console.warn(
+      `Planet data failed validation, requesting repair (attempt ${attempt + 1} of ${maxRepairAttempts}).`,
+      result.errors,
+    );
+    response = await requestRepair(buildRepairPrompt(response, result.errors));
+    result = parsePlanetResponse(response);
+  }
+  if (!result.value) {
+    throw new PlanetValidationError(result.errors);
+  }
+  return result.value;
+}
@@ -0,0 +1,392 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {EMPTY_GROUNDING} from './grounding';
+import {massFromRadius} from './habitability';
+import {orbitalElementsFor} from './orbital-mechanics';
+import {PlanetData, PlanetPhysical} from './planet-model';
+import {
+  RandomSource,
+  createSeededRandom,
+  hashString,
+  pick,
+  pickMany,
+  randomBetween,
+  randomInt,
+} from './seeded-random';
+import {
+  PlanetSynthesisProvider,
+  SynthesisCancelledError,
+  SynthesisRequest,
+  SynthesisResult,
+} from './synthesis-provider';
+
+interface PlanetArchetype {
+  planetType: string;
+  keywords: string[];
+  palettes: [string, string, string][]; // color1, color2, atmosphereColor
+  ringChance: number;
+  radiusRangeEarth: [number, number];
+  albedo: number;
+  atmospheres: string[];
+  surfaces: string[];
+  features: string[];
+}
+
+const ARCHETYPES: PlanetArchetype[] = [
+  {
+    planetType: 'Gas Giant',
+    keywords: ['gas', 'giant', 'jupiter', 'storm', 'ring', 'banded'],
+    palettes: [
+      ['#d9a066', '#8a5a2b', '#f3c98b'],
+      ['#c2b280', '#6b4f2a', '#ffe0a3'],
+      ['#7fa7d9', '#2d4a7a', '#a8d0ff'],
+    ],
+    ringChance: 0.6,
+    radiusRangeEarth: [9, 14],
+    albedo: 0.34,
+    atmospheres: [
+      'Hydrogen and helium with ammonia ice clouds',
+      'Hydrogen-dominated envelope streaked with sodium and potassium haze',
+      'Turbulent hydrogen layers laced with water vapor and phosphine',
+    ],
+    surfaces: [
+      'No solid surface; banded cloud belts wrap a metallic hydrogen interior',
+      'Storm systems larger than Earth drift across pastel cloud bands',
+      'A deep, crushing atmosphere fading into a supercritical fluid mantle',
+    ],
+    features: [
+      'A centuries-old anticyclone visible from orbit',
+      'Auroral rings powered by an intense magnetosphere',
+      'A retinue of icy moons in orbital resonance',
+      'Lightning storms that flicker across the night side',
+      'Jet streams exceeding 1,500 km/h',
+    ],
+  },
+  {
+    planetType: 'Ice Giant',
+    keywords: ['ice', 'frozen', 'cold', 'neptune', 'uranus', 'blue'],
+    palettes: [
+      ['#6fc3df', '#1e5f8a', '#9ee7ff'],
+      ['#8fd8d2', '#2b6f77', '#c6fff7'],
+    ],
+    ringChance: 0.35,
+    radiusRangeEarth: [3.3, 4.5],
+    albedo: 0.3,
+    atmospheres: [
+      'Hydrogen and helium tinted by methane absorption',
+      'Thick methane haze above layered water and ammonia clouds',
+    ],
+    surfaces: [
+      'A slushy mantle of water, ammonia and methane ices under high pressure',
+      'Diamond rain falling through a superionic water ocean',
+    ],
+    features: [
+      'A dramatically tilted rotation axis',
+      'Dark vortices that appear and fade over decades',
+      'Faint, narrow rings of dark dust',
+      'Supersonic winds near the equator',
+    ],
+  },
+  {
+    planetType: 'Ocean World',
+    keywords: ['ocean', 'water', 'sea', 'wave', 'tidal', 'aquatic'],
+    palettes: [
+      ['#2a7fbf', '#0b3a5c', '#8fd3ff'],
+      ['#3fa7a0', '#124d52', '#b5f5ee'],
+    ],
+    ringChance: 0.1,
+    radiusRangeEarth: [1.2, 2.4],
+    albedo: 0.25,
+    atmospheres: [
+      'Nitrogen and water vapor with drifting cirrus clouds',
+      'Humid nitrogen-oxygen atmosphere with trace carbon dioxide',
+    ],
+    surfaces: [
+      'A global ocean hundreds of kilometers deep with scattered volcanic islands',
+      'Endless seas broken only by drifting rafts of pumice',
+    ],
+    features: [
+      'Tides driven by a close-orbiting moon',
+      'Bioluminescent-like glow along storm fronts',
+      'Hydrothermal plumes rising from the seafloor',
+      'Hurricanes that circle the globe for years',
+    ],
+  },
+  {
+    planetType: 'Lava World',
+    keywords: ['lava', 'volcan', 'fire', 'molten', 'hot', 'magma'],
+    palettes: [
+      ['#ff6a00', '#3b0a00', '#ffb347'],
+      ['#e2401c', '#2a0f0a', '#ff8a5c'],
+    ],
+    ringChance: 0.05,
+    radiusRangeEarth: [0.8, 1.8],
+    albedo: 0.1,
+    atmospheres: [
+      'Thin vapor of vaporized silicates and sodium',
+      'Sulfur dioxide haze with mineral clouds that rain pebbles',
+    ],
+    surfaces: [
+      'Glowing magma oceans on the dayside freezing into black glass at night',
+      'Fissures of molten rock crisscrossing a basaltic crust',
+    ],
+    features: [
+      'Tidally locked with a permanent molten hemisphere',
+      'Volcanic plumes reaching into space',
+      'A dayside hot enough to melt iron',
+      'Rivers of lava visible in infrared',
+    ],
+  },
+  {
+    planetType: 'Desert World',
+    keywords: ['desert', 'sand', 'dune', 'arid', 'dry', 'dust'],
+    palettes: [
+      ['#d8a25e', '#7a4a1f', '#f2d1a0'],
+      ['#c96f4a', '#5a2a17', '#f0b08a'],
+    ],
+    ringChance: 0.1,
+    radiusRangeEarth: [0.6, 1.4],
+    albedo: 0.35,
+    atmospheres: [
+      'Thin carbon dioxide atmosphere carrying fine dust',
+      'Dry nitrogen atmosphere with seasonal dust storms',
+    ],
+    surfaces: [
+      'Expansive deserts of red sand and deep, wind-carved canyons',
+      'Salt flats and towering dune seas scoured by constant winds',
+    ],
+    features: [
+      'Planet-wide dust storms every few orbits',
+      'Polar caps of frozen carbon dioxide',
+      'Ancient riverbeds hinting at a wetter past',
+      'Mesas taller than Olympus Mons',
+    ],
+  },
+  {
+    planetType: 'Terrestrial Super-Earth',
+    keywords: ['earth', 'rock', 'habitable', 'temperate', 'life', 'forest'],
+    palettes: [
+      ['#4f8a4b', '#1f3d5a', '#9fd4ff'],
+      ['#7a9a5c', '#2e4a3a', '#bfe6ff'],
+      ['#8a7f6a', '#2b3d52', '#a7c7e7'],
+    ],
+    ringChance: 0.1,
+    radiusRangeEarth: [1.3, 2.2],
+    albedo: 0.3,
+    atmospheres: [
+      'Primarily nitrogen and oxygen with traces of argon',
+      'Dense nitrogen atmosphere with elevated carbon dioxide',
+    ],
+    surfaces: [
+      'Continents of dark basalt separated by shallow, temperate seas',
+      'Mountain ranges carved by glaciers above broad river plains',
+    ],
+    features: [
+      'Orbits within the habitable zone of its star',
+      'A strong magnetic field shielding the surface',
+      'Active plate tectonics recycling its crust',
+      'Long twilight bands along the terminator',
+    ],
+  },
+];
+
+const STAR_TYPES = [
+  'G-type star (Yellow Dwarf)',
+  'K-type star (Orange Dwarf)',
+  'M-type red dwarf',
+  'F-type star (Yellow-White Dwarf)',
+  'A-type star (White Main Sequence)',
+  'Binary K and M dwarf pair',
+];
+
+const NAME_PREFIXES = [
+  'Aure',
+  'Vael',
+  'Cy',
+  'Ostra',
+  'Nim',
+  'Thal',
+  'Ery',
+  'Kor',
+  'Lumi',
+  'Zeph',
+  'Ira',
+  'Sol',
+];
+
+const NAME_SUFFIXES = [
+  'lion',
+  'thra',
+  'dris',
+  'vane',
+  'mora',
+  'xis',
+  'quen',
+  'tara',
+  'lune',
+  'phos',
+];
+
+const CATALOG_PREFIXES = ['Kepler', 'TOI', 'TRAPPIST', 'HD', 'Gliese', 'K2'];
+
+const WHISPERS = [
+  'Here, {name} hums a slow song that only its {star} can hear.',
+  '{name} keeps its secrets folded beneath {surface}.',
+  'Around a {star}, {name} turns like a thought that never quite ends.',
+  'Light arrives at {name} tired from its journey, and the world holds it gently.',
+];
+
+const NARRATIVES = [
+  'While sifting through {catalog} light curves, AXEE noticed a faint, periodic dip of {depth}% that the standard pipeline had flagged as noise. Folding the data revealed {name}, crossing its star every {period} days.',
+  'A subtle wobble in the spectrum of {system} caught AXEE’s attention. Radial velocity residuals, cross-checked against transit hints, pointed to {name}, a {type} hiding in plain sight.',
+  'During an overnight sweep of archival photometry, AXEE matched a recurring shadow across {system} to a single unseen companion. It named the world {name}.',
+];
+
+const METHODOLOGIES = [
+  'AXEE began by analyzing the TESS Objects of Interest (TOI) catalog and processing Kepler KOI data for the host star. A Lightkurve analysis detrended the light curves, after which a Random Forest classifier separated the {period}-day transit signal from eclipsing-binary false positives.',
+  'Kepler KOI data and TESS sector photometry were combined in a Lightkurve analysis to extend the observational baseline. Candidate events were vetted with a Random Forest classifier trained on confirmed planets, yielding a {depth}% transit depth consistent with a {type}.',
+];
+
+const PROMPT_STOP_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'of',
+  'with',
+  'and',
+  'world',
+]);
+
+function physicalFor(
+  random: RandomSource,
+  archetype: PlanetArchetype,
+): PlanetPhysical {
+  const radiusEarth = randomBetween(random, ...archetype.radiusRangeEarth);
+  // Scatter around the typical mass, as real planets of one size do.
+  const massEarth =
+    massFromRadius(radiusEarth) * randomBetween(random, 0.8, 1.2);
+  return {
+    radiusEarth: Number(radiusEarth.toFixed(2)),
+    massEarth: Number(massEarth.toFixed(2)),
+    albedo: archetype.albedo,
+  };
+}
+
+function fillTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '');
+}
+
+function chooseArchetype(random: RandomSource, prompt: string) {
+  const lowered = prompt.toLowerCase();
+  const matches = ARCHETYPES.filter((archetype) =>
+    archetype.keywords.some((keyword) => lowered.includes(keyword)),
+  );
+  return pick(random, matches.length > 0 ? matches : ARCHETYPES);
+}
+
+// Picks a distinctive word from the prompt so generated worlds echo it.
+function promptMotif(prompt: string): string | null {
+  const words = prompt
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((word) => word.length > 3 && !PROMPT_STOP_WORDS.has(word));
+  return words.length > 0 ? words[words.length - 1] : null;
+}
+
+/**
+ * Offline, deterministic world generator. Every synthesis derives its own
+ * random stream from the seed, a running counter and the prompt, so the same
+ * seed and prompt sequence always produce the same catalog.
+ */
+export class ProceduralSynthesisProvider implements PlanetSynthesisProvider {
+  readonly id = 'procedural';
+  readonly label = 'Offline';
+
+  private count = 0;
+
+  constructor(private seed = 42) {}
+
+  setSeed(seed: number) {
+    this.seed = seed;
+    this.count = 0;
+  }
+
+  async synthesize({
+    prompt,
+    signal,
+  }: SynthesisRequest): Promise<SynthesisResult> {
+    if (signal?.aborted) throw new SynthesisCancelledError();
+    return {planet: this.generate(prompt), grounding: EMPTY_GROUNDING};
+  }
+
+  generate(prompt: string): PlanetData {
+    const index = this.count++;
+    const random = createSeededRandom(
+      hashString(`${this.seed}:${index}:${prompt.trim().toLowerCase()}`),
+    );
+
+    const archetype = chooseArchetype(random, prompt);
+    const name = `${pick(random, NAME_PREFIXES)}${pick(random, NAME_SUFFIXES)}`;
+    const starSystem = `${pick(random, CATALOG_PREFIXES)}-${randomInt(random, 10, 9999)}`;
+    const starType = pick(random, STAR_TYPES);
+    const [color1, color2, atmosphereColor] = pick(random, archetype.palettes);
+    const surfaceFeatures = pick(random, archetype.surfaces);
+    const id = `proc-${this.seed}-${index}`;
+    const orbit = orbitalElementsFor({
+      celestial_body_id: id,
+      planetType: archetype.planetType,
+      starType,
+    });
+    const period = orbit.periodDays.toFixed(1);
+    const depth = randomBetween(random, 0.01, 2.5).toFixed(2);
+
+    const keyFeatures = pickMany(random, archetype.features, 3);
+    const motif = promptMotif(prompt);
+    if (motif) {
+      keyFeatures.push(`Faint echoes of "${motif}" in its spectral signature`);
+    }
+
+    const values = {
+      name,
+      system: starSystem,
+      star: starType.split(' (')[0],
+      type: archetype.planetType.toLowerCase(),
+      surface: surfaceFeatures.toLowerCase(),
+      catalog: pick(random, ['Kepler', 'TESS']),
+      period,
+      depth,
+    };
+
+    return {
+      celestial_body_id: id,
+      planetName: name,
+      starSystem,
+      starType,
+      distanceLightYears: Math.round(randomBetween(random, 4, 3000)),
+      planetType: archetype.planetType,
+      discoveryNarrative: fillTemplate(pick(random, NARRATIVES), values),
+      discoveryMethodology: fillTemplate(pick(random, METHODOLOGIES), values),
+      atmosphericComposition: pick(random, archetype.atmospheres),
+      surfaceFeatures,
+      keyFeatures,
+      aiWhisper: fillTemplate(pick(random, WHISPERS), values),
+      visualization: {
+        color1,
+        color2,
+        atmosphereColor,
+        hasRings: random() < archetype.ringChance,
+      },
+      orbit: {
+        semiMajorAxisAU: Number(orbit.semiMajorAxisAU.toFixed(3)),
+        eccentricity: Number(orbit.eccentricity.toFixed(3)),
+        inclinationDeg: Number(orbit.inclinationDeg.toFixed(1)),
+        periodDays: Number(period),
+      },
+      // Drawn last so a seed still yields the same values for older fields.
+      physical: physicalFor(random, archetype),
+    };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const STORAGE_KEY = 'axee-prompt-history';
+const MAX_ENTRIES = 50;
+
+/**
+ * Shell-style prompt history for the command console. `previous` and `next`
+ * walk backwards and forwards from the newest prompt; the text being typed
+ * when browsing started comes back after stepping past the newest entry.
+ */
+export class PromptHistory {
+  private entries: string[] = [];
+  // Index into `entries` while browsing; equals entries.length otherwise.
+  private cursor = 0;
+  private draft = '';
+
+  constructor(private storage: Storage | null = globalThis.localStorage) {
+    try {
+      const saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '[]');
+      if (Array.isArray(saved)) {
+        this.entries = saved.filter((entry) => typeof entry === 'string');
+      }
+    } catch {
+      // Corrupt history is not worth surfacing; start afresh.
+    }
+    this.cursor = this.entries.length;
+  }
+
+  add(prompt: string) {
+    const trimmed = prompt.trim();
+    if (!trimmed) return;
+    this.entries = this.entries.filter((entry) => entry !== trimmed);
+    this.entries.push(trimmed);
+    this.entries = this.entries.slice(-MAX_ENTRIES);
+    this.reset();
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch {
+      // Storage can be full or disabled; history still works in memory.
+    }
+  }
+
+  previous(current: string): string {
+    if (this.cursor === this.entries.length) this.draft = current;
+    this.cursor = Math.max(this.cursor - 1, 0);
+    return this.entries[this.cursor] ?? current;
+  }
+
+  next(): string {
+    this.cursor = Math.min(this.cursor + 1, this.entries.length);
+    return this.cursor === this.entries.length
+      ? this.draft
+      : this.entries[this.cursor];
+  }
+
+  reset() {
+    this.cursor = this.entries.length;
+    this.draft = '';
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, PropertyValues, css, html, nothing} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {PlanetData} from './planet-model';
+import {
+  RadialVelocityCurve,
+  orbitalPhaseAt,
+  radialVelocityAt,
+  simulateRadialVelocity,
+} from './radial-velocity';
+
+const PLOT_WIDTH = 350;
+const PLOT_HEIGHT = 170;
+const MARGIN = {top: 8, right: 8, bottom: 22, left: 44};
+const EARTH_MASSES_PER_SOLAR_MASS = 332946;
+const CURVE_SAMPLES = 200;
+
+function phaseX(phase: number) {
+  return MARGIN.left + phase * (PLOT_WIDTH - MARGIN.left - MARGIN.right);
+}
+
+// Maps velocities in [-range, range] m/s onto the plot, receding at the top.
+function velocityY(velocity: number, range: number) {
+  return (
+    MARGIN.top +
+    ((range - velocity) / (2 * range)) *
+      (PLOT_HEIGHT - MARGIN.top - MARGIN.bottom)
+  );
+}
+
+/**
+ * The star's reflex wobble: the radial-velocity curve over one orbit with
+ * simulated spectrograph measurements folded onto it, and a marker that
+ * tracks the planet's current position in the 3D scene.
+ */
+@customElement('axee-radial-velocity')
+export class AxeeRadialVelocity extends LitElement {
+  @property({attribute: false})
+  planet: PlanetData | null = null;
+
+  // Current simulated time in days, read every frame so the phase marker
+  // follows the scene's clock, including pauses and reversed time.
+  @property({attribute: false})
+  simulationClock: () => number = () => 0;
+
+  @state() private curve: RadialVelocityCurve | null = null;
+
+  // The curve and measurements only change with the planet, so they are
+  // drawn once here and copied under the moving marker each frame.
+  private background: HTMLCanvasElement | null = null;
+  private animationFrameId = 0;
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+    canvas {
+      width: ${PLOT_WIDTH}px;
+      height: ${PLOT_HEIGHT}px;
+      max-width: 100%;
+      display: block;
+    }
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.2rem 1rem;
+      margin: 0.5rem 0 0 0;
+      font-size: 0.85rem;
+    }
+    dt {
+      color: #0ff;
+    }
+    dd {
+      margin: 0;
+    }
+    .note {
+      font-size: 0.85rem;
+      opacity: 0.7;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.animationFrameId = requestAnimationFrame(() => this.drawFrame());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    cancelAnimationFrame(this.animationFrameId);
+  }
+
+  protected willUpdate(changed: PropertyValues<this>) {
+    if (!changed.has('planet')) return;
+    this.curve = this.planet ? simulateRadialVelocity(this.planet) : null;
+    this.background = null;
+  }
+
+  private get massRatio() {
+    return (
+      this.curve.planetMassEarth /
+      (this.curve.starMassSolar * EARTH_MASSES_PER_SOLAR_MASS)
+    );
+  }
+
+  // Simulated time at which the orbit reaches `phase` after periastron.
+  private timeAtPhase(phase: number) {
+    const {elements} = this.curve;
+    return (phase - elements.meanAnomalyAtEpochDeg / 360) * elements.periodDays;
+  }
+
+  private velocityRange() {
+    const {semiAmplitude, measurements} = this.curve;
+    const extent = measurements.reduce(
+      (max, point) =>
+        Math.max(max, Math.abs(point.velocity) + point.uncertainty),
+      semiAmplitude * (1 + this.curve.elements.eccentricity),
+    );
+    return extent * 1.1;
+  }
+
+  private drawBackground() {
+    const scale = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = PLOT_WIDTH * scale;
+    canvas.height = PLOT_HEIGHT * scale;
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+
+    const {elements, measurements} = this.curve;
+    const range = this.velocityRange();
+    const x = phaseX;
+    const y = (velocity: number) => velocityY(velocity, range);
+
+    ctx.strokeStyle = 'rgba(0, 170, 255, 0.5)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      MARGIN.left,
+      MARGIN.top,
+      PLOT_WIDTH - MARGIN.left - MARGIN.right,
+      PLOT_HEIGHT - MARGIN.top - MARGIN.bottom,
+    );
+    ctx.beginPath();
+    ctx.moveTo(x(0), y(0));
+    ctx.lineTo(x(1), y(0));
+    ctx.stroke();
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    const tick = Number(range.toPrecision(2));
+    for (const value of [tick, 0, -tick]) {
+      ctx.fillText(
+        `${value > 0 ? '+' : ''}${value}`,
+        MARGIN.left - 4,
+        y(value),
+      );
+    }
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(
+      'Orbital phase from periastron · star velocity in m/s',
+      MARGIN.left + (PLOT_WIDTH - MARGIN.left - MARGIN.right) / 2,
+      PLOT_HEIGHT - 2,
+    );
+
+    ctx.strokeStyle = 'rgba(255, 200, 0, 0.9)';
+    ctx.beginPath();
+    for (let i = 0; i <= CURVE_SAMPLES; i++) {
+      const phase = i / CURVE_SAMPLES;
+      const velocity = radialVelocityAt(
+        elements,
+        this.massRatio,
+        this.timeAtPhase(phase),
+      );
+      if (i === 0) ctx.moveTo(x(phase), y(velocity));
+      else ctx.lineTo(x(phase), y(velocity));
+    }
+    ctx.stroke();
+
+    ctx.strokeStyle = 'rgba(0, 200, 255, 0.6)';
+    ctx.fillStyle = '#0cf';
+    for (const point of measurements) {
+      const px = x(orbitalPhaseAt(elements, point.timeDays));
+      ctx.beginPath();
+      ctx.moveTo(px, y(point.velocity - point.uncertainty));
+      ctx.lineTo(px, y(point.velocity + point.uncertainty));
+      ctx.stroke();
+      ctx.fillRect(px - 1.5, y(point.velocity) - 1.5, 3, 3);
+    }
+    return canvas;
+  }
+
+  private drawFrame() {
+    this.animationFrameId = requestAnimationFrame(() => this.drawFrame());
+    const canvas = this.shadowRoot?.querySelector('canvas');
+    if (!canvas || !this.curve) return;
+    if (!this.background) this.background = this.drawBackground();
+    if (canvas.width !== this.background.width) {
+      canvas.width = this.background.width;
+      canvas.height = this.background.height;
+    }
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(this.background, 0, 0);
+
+    const scale = canvas.width / PLOT_WIDTH;
+    ctx.scale(scale, scale);
+    const time = this.simulationClock();
+    const phase = orbitalPhaseAt(this.curve.elements, time);
+    const velocity = radialVelocityAt(
+      this.curve.elements,
+      this.massRatio,
+      time,
+    );
+    const x = phaseX(phase);
+    const y = velocityY(velocity, this.velocityRange());
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.beginPath();
+    ctx.moveTo(x, MARGIN.top);
+    ctx.lineTo(x, PLOT_HEIGHT - MARGIN.bottom);
+    ctx.stroke();
+    ctx.fillStyle = '#fff';
+    ctx.shadowColor = '#fff';
+    ctx.shadowBlur = 6;
+    ctx.beginPath();
+    ctx.arc(x, y, 3.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  }
+
+  protected render() {
+    const curve = this.curve;
+    if (!curve) return nothing;
+    const meanUncertainty =
+      curve.measurements.reduce((sum, point) => sum + point.uncertainty, 0) /
+      curve.measurements.length;
+    const minimumMass =
+      curve.planetMassEarth *
+      Math.sin((curve.skyInclinationDeg * Math.PI) / 180);
+    return html`
+      <canvas></canvas>
+      <dl>
+        <dt>Semi-amplitude K</dt>
+        <dd>${curve.semiAmplitude.toPrecision(3)} m/s</dd>
+        <dt>Minimum Mass</dt>
+        <dd>${minimumMass.toPrecision(3)} M⊕ (m sin i)</dd>
+        <dt>Inclination</dt>
+        <dd>${curve.skyInclinationDeg.toFixed(1)}° to the sky</dd>
+        <dt>Eccentricity</dt>
+        <dd>${curve.elements.eccentricity.toFixed(2)}</dd>
+        <dt>Measurements</dt>
+        <dd>
+          ${curve.measurements.length}, ±${meanUncertainty.toFixed(1)} m/s
+        </dd>
+      </dl>
+      ${
+        curve.semiAmplitude < meanUncertainty
+          ? html`<p class="note">
+              K is below the per-point precision; the wobble only emerges from
+              hundreds of measurements.
+            </p>`
+          : nothing
+      }
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'axee-radial-velocity': AxeeRadialVelocity;
+  }
+}
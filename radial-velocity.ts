@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {estimatePhysicalParameters} from './habitability';
+import {
+  OrbitalElements,
+  meanAnomalyAt,
+  orbitalElementsFor,
+  orbitalPositionAt,
+} from './orbital-mechanics';
+import {PlanetData} from './planet-model';
+import {
+  createSeededRandom,
+  hashString,
+  randomBetween,
+  randomGaussian,
+} from './seeded-random';
+import {stellarPropertiesOf} from './stellar-classification';
+
+const METERS_PER_SECOND_PER_AU_PER_DAY = 1.495978707e11 / 86400;
+const EARTH_MASSES_PER_SOLAR_MASS = 332946;
+const EARTH_MASSES_PER_JUPITER = 317.8;
+// K for a Jupiter-mass planet on a circular, edge-on one-year orbit around
+// the Sun.
+const JUPITER_K_AT_ONE_YEAR = 28.4329;
+const DAYS_PER_YEAR = 365.25;
+const MEASUREMENTS = 40;
+// Per-point uncertainty of a stabilized spectrograph such as HARPS.
+const MIN_UNCERTAINTY = 0.8;
+const MAX_UNCERTAINTY = 2;
+
+export interface RadialVelocityMeasurement {
+  // Days since the simulation epoch, shared with the 3D scene's clock.
+  timeDays: number;
+  // Line-of-sight velocity of the star in m/s, positive when receding.
+  velocity: number;
+  uncertainty: number;
+}
+
+export interface RadialVelocityCurve {
+  elements: OrbitalElements;
+  planetMassEarth: number;
+  starMassSolar: number;
+  // Semi-amplitude K in m/s.
+  semiAmplitude: number;
+  // Inclination of the orbit to the plane of the sky; 90° is edge-on.
+  skyInclinationDeg: number;
+  measurements: RadialVelocityMeasurement[];
+}
+
+/**
+ * Semi-amplitude K in m/s of the star's reflex motion:
+ * K = 28.43 m/s · (m sin i / M♃) · (M★ + m)^-⅔ · P^-⅓ / √(1 - e²), with
+ * masses in solar masses and P in years.
+ */
+export function semiAmplitude(
+  planetMassEarth: number,
+  starMassSolar: number,
+  periodDays: number,
+  eccentricity = 0,
+  sinInclination = 1,
+): number {
+  const totalMassSolar =
+    starMassSolar + planetMassEarth / EARTH_MASSES_PER_SOLAR_MASS;
+  return (
+    (JUPITER_K_AT_ONE_YEAR *
+      (planetMassEarth / EARTH_MASSES_PER_JUPITER) *
+      sinInclination) /
+    (totalMassSolar ** (2 / 3) *
+      Math.cbrt(periodDays / DAYS_PER_YEAR) *
+      Math.sqrt(1 - eccentricity ** 2))
+  );
+}
+
+/**
+ * The star's radial velocity in m/s at `timeDays`, for an observer along the
+ * scene's +z axis (the same vantage as the light curve). The star moves
+ * opposite the planet, scaled by their mass ratio, so it recedes while the
+ * planet approaches.
+ */
+export function radialVelocityAt(
+  elements: OrbitalElements,
+  massRatio: number,
+  timeDays: number,
+): number {
+  const step = elements.periodDays * 1e-5;
+  const before = orbitalPositionAt(elements, timeDays - step);
+  const after = orbitalPositionAt(elements, timeDays + step);
+  const planetVelocityZ = (after.z - before.z) / (2 * step);
+  return (
+    (massRatio / (1 + massRatio)) *
+    planetVelocityZ *
+    METERS_PER_SECOND_PER_AU_PER_DAY
+  );
+}
+
+/** Fraction of an orbit since periastron, in [0, 1). */
+export function orbitalPhaseAt(elements: OrbitalElements, timeDays: number) {
+  const cycles = meanAnomalyAt(elements, timeDays) / (2 * Math.PI);
+  return cycles - Math.floor(cycles);
+}
+
+// Inclination between the orbit's normal and the line of sight (+z).
+function skyInclination(elements: OrbitalElements) {
+  const step = elements.periodDays * 1e-3;
+  const a = orbitalPositionAt(elements, 0);
+  const b = orbitalPositionAt(elements, step);
+  const normal = {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+  const length = Math.hypot(normal.x, normal.y, normal.z);
+  return Math.acos(Math.abs(normal.z) / length);
+}
+
+/**
+ * Simulates a radial-velocity campaign on the planet's host star: the
+ * Keplerian reflex motion from the planet's estimated mass on the same orbit
+ * the 3D scene draws, observed on randomly spaced nights with Gaussian
+ * errors. Deterministic for a given planet.
+ */
+export function simulateRadialVelocity(
+  planet: PlanetData,
+): RadialVelocityCurve {
+  const elements = orbitalElementsFor(planet);
+  const starMassSolar = stellarPropertiesOf(planet.starType).massSolar;
+  const planetMassEarth = estimatePhysicalParameters(planet).massEarth;
+  const massRatio =
+    planetMassEarth / (starMassSolar * EARTH_MASSES_PER_SOLAR_MASS);
+  const inclination = skyInclination(elements);
+
+  // Long enough to cover a few orbits, but no survey runs beyond a decade.
+  const baselineDays = Math.min(Math.max(2.5 * elements.periodDays, 60), 3650);
+  const random = createSeededRandom(
+    hashString(`${planet.celestial_body_id}:rv`),
+  );
+  const measurements: RadialVelocityMeasurement[] = [];
+  for (let i = 0; i < MEASUREMENTS; i++) {
+    const timeDays = randomBetween(random, 0, baselineDays);
+    const uncertainty = randomBetween(random, MIN_UNCERTAINTY, MAX_UNCERTAINTY);
+    measurements.push({
+      timeDays,
+      velocity:
+        radialVelocityAt(elements, massRatio, timeDays) +
+        randomGaussian(random) * uncertainty,
+      uncertainty,
+    });
+  }
+  measurements.sort((a, b) => a.timeDays - b.timeDays);
+
+  return {
+    elements,
+    planetMassEarth,
+    starMassSolar,
+    semiAmplitude: semiAmplitude(
+      planetMassEarth,
+      starMassSolar,
+      elements.periodDays,
+      elements.eccentricity,
+      Math.sin(inclination),
+    ),
+    skyInclinationDeg: (inclination * 180) / Math.PI,
+    measurements,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Containers tried in order; browsers differ in which codecs they record.
+const VIDEO_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+const VIDEO_FPS = 30;
+// Flushes recorded data every second so a long recording never sits in one
+// giant buffer inside the encoder.
+const RECORDER_TIMESLICE_MS = 1000;
+
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+/** Text for the card drawn over the bottom-left corner of a still. */
+export interface CaptureCaption {
+  title: string;
+  text: string;
+}
+
+export interface StillCaptureOptions {
+  width: number;
+  height: number;
+  caption?: CaptureCaption | null;
+}
+
+// Greedy word wrap; a single over-long word gets a line of its own.
+function wrapText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Draws a caption card in the HUD's style, scaled to the image so it reads
+ * the same at any resolution.
+ */
+export function drawCaptionCard(
+  ctx: CanvasRenderingContext2D,
+  caption: CaptureCaption,
+) {
+  const {width, height} = ctx.canvas;
+  const unit = Math.min(width, height) / 1080;
+  const margin = 48 * unit;
+  const padding = 28 * unit;
+  const cardWidth = Math.min(width - 2 * margin, 900 * unit);
+  const textWidth = cardWidth - 2 * padding;
+  const titleSize = 44 * unit;
+  const bodySize = 24 * unit;
+  const lineHeight = bodySize * 1.45;
+
+  ctx.save();
+  ctx.font = `italic ${bodySize}px sans-serif`;
+  const lines = wrapText(ctx, caption.text, textWidth);
+  const cardHeight =
+    2 * padding +
+    titleSize +
+    (lines.length > 0 ? 16 * unit + lines.length * lineHeight : 0);
+  const x = margin;
+  const y = height - margin - cardHeight;
+
+  ctx.fillStyle = 'rgba(0, 20, 40, 0.8)';
+  ctx.strokeStyle = '#0af';
+  ctx.lineWidth = 2 * unit;
+  ctx.shadowColor = '#0af';
+  ctx.shadowBlur = 16 * unit;
+  ctx.beginPath();
+  ctx.roundRect(x, y, cardWidth, cardHeight, 8 * unit);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.shadowBlur = 8 * unit;
+  ctx.fillStyle = '#0ff';
+  ctx.textBaseline = 'top';
+  ctx.font = `${titleSize}px 'Orbitron', sans-serif`;
+  ctx.fillText(caption.title, x + padding, y + padding, textWidth);
+
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = `italic ${bodySize}px sans-serif`;
+  lines.forEach((line, i) => {
+    ctx.fillText(
+      line,
+      x + padding,
+      y + padding + titleSize + 16 * unit + i * lineHeight,
+    );
+  });
+  ctx.restore();
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(new CaptureError('Could not encode PNG.')),
+      'image/png',
+    );
+  });
+}
+
+/**
+ * Records a canvas to WebM along with one audio source at a time. Audio is
+ * mixed through a context of the recorder's own, since the source may live
+ * in another AudioContext (a live conversation plays from its own) and can
+ * change mid-recording.
+ */
+export class SceneRecorder {
+  readonly mimeType: string;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private audioContext: AudioContext;
+  private mix: MediaStreamAudioDestinationNode;
+  private audioSource: {
+    node: AudioNode;
+    tap: MediaStreamAudioDestinationNode;
+    input: MediaStreamAudioSourceNode;
+  } | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new CaptureError('This browser cannot record video.');
+    }
+    const mimeType = VIDEO_MIME_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type),
+    );
+    if (!mimeType) {
+      throw new CaptureError('This browser cannot record WebM video.');
+    }
+    this.mimeType = mimeType;
+    this.audioContext = new AudioContext();
+    this.mix = this.audioContext.createMediaStreamDestination();
+    const stream = new MediaStream([
+      ...canvas.captureStream(VIDEO_FPS).getVideoTracks(),
+      ...this.mix.stream.getAudioTracks(),
+    ]);
+    this.recorder = new MediaRecorder(stream, {mimeType});
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+  }
+
+  get isRecording() {
+    return this.recorder.state === 'recording';
+  }
+
+  /** Routes `node` into the recording, replacing any previous source. */
+  setAudioSource(node: AudioNode | null) {
+    if (this.audioSource?.node === node) return;
+    if (this.audioSource) {
+      this.audioSource.node.disconnect(this.audioSource.tap);
+      this.audioSource.input.disconnect();
+      this.audioSource = null;
+    }
+    if (!node) return;
+    // Speech plays through realtime contexts, never offline ones.
+    const tap = (node.context as AudioContext).createMediaStreamDestination();
+    node.connect(tap);
+    const input = this.audioContext.createMediaStreamSource(tap.stream);
+    input.connect(this.mix);
+    this.audioSource = {node, tap, input};
+  }
+
+  /** Starts recording; call from a user gesture so the audio can start. */
+  start() {
+    this.chunks = [];
+    this.audioContext.resume();
+    this.recorder.start(RECORDER_TIMESLICE_MS);
+  }
+
+  /** Stops recording and releases the audio graph. */
+  stop(): Promise<Blob> {
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.setAudioSource(null);
+        this.recorder.stream.getTracks().forEach((track) => track.stop());
+        this.audioContext.close();
+        resolve(new Blob(this.chunks, {type: this.mimeType}));
+      };
+      if (this.recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      this.recorder.onstop = finish;
+      this.recorder.stop();
+    });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A pseudo-random source returning floats in [0, 1). */
+export type RandomSource = () => number;
+
+/**
+ * Mulberry32 generator: tiny, fast and good enough for procedural content.
+ * The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a hash, used to turn strings such as IDs or prompts into seeds. */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function randomBetween(random: RandomSource, min: number, max: number) {
+  return min + random() * (max - min);
+}
+
+/** Standard normal deviate, by the Box-Muller transform. */
+export function randomGaussian(random: RandomSource) {
+  // 1 - random() is in (0, 1], which keeps the logarithm finite.
+  return (
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+  );
+}
+
+export function randomInt(random: RandomSource, min: number, max: number) {
+  return Math.floor(randomBetween(random, min, max + 1));
+}
+
+export function pick<T>(random: RandomSource, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/** Picks `count` distinct items, preserving no particular order. */
+export function pickMany<T>(
+  random: RandomSource,
+  items: readonly T[],
+  count: number,
+): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+}
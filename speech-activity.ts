@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Average time the browser spends speaking one character of text.
+const SECONDS_PER_CHARACTER = 0.06;
+
+/**
+ * The Web Speech API plays synthesized speech outside the Web Audio graph, so
+ * its output can't be analysed directly. This produces a stand-in signal with
+ * a voice-like spectrum that swells on each word boundary the utterance
+ * reports, plus a syllable-rate wobble for voices that report no boundaries.
+ * `output` is meant for an analyser and is never connected to the speakers.
+ */
+export class SpeechActivity {
+  readonly output: GainNode;
+  private voice: GainNode;
+  private sources: OscillatorNode[] = [];
+  private utterance: SpeechSynthesisUtterance | null = null;
+
+  constructor(private context: AudioContext) {
+    this.output = context.createGain();
+    this.output.gain.value = 0;
+    this.voice = context.createGain();
+    this.voice.gain.value = 0.4;
+    this.voice.connect(this.output);
+
+    // A sawtooth carrier and its first formant fill low and high bins.
+    for (const [type, frequency] of [
+      ['sawtooth', 140],
+      ['triangle', 900],
+    ] as const) {
+      const oscillator = context.createOscillator();
+      oscillator.type = type;
+      oscillator.frequency.value = frequency;
+      oscillator.connect(this.voice);
+      oscillator.start();
+      this.sources.push(oscillator);
+    }
+
+    const syllables = context.createOscillator();
+    syllables.frequency.value = 4.5;
+    const depth = context.createGain();
+    depth.gain.value = 0.3;
+    syllables.connect(depth).connect(this.voice.gain);
+    syllables.start();
+    this.sources.push(syllables);
+  }
+
+  /** Follows the word boundaries of `utterance` until it ends. */
+  track(utterance: SpeechSynthesisUtterance | null) {
+    this.utterance?.removeEventListener('boundary', this.onBoundary);
+    this.utterance = utterance;
+    utterance?.addEventListener('boundary', this.onBoundary);
+  }
+
+  setSpeaking(speaking: boolean) {
+    const now = this.context.currentTime;
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setTargetAtTime(speaking ? 0.6 : 0, now, 0.05);
+  }
+
+  private onBoundary = (event: SpeechSynthesisEvent) => {
+    const duration = Math.max(
+      (event.charLength || 4) * SECONDS_PER_CHARACTER,
+      0.12,
+    );
+    const now = this.context.currentTime;
+    const gain = this.output.gain;
+    gain.cancelScheduledValues(now);
+    gain.setTargetAtTime(1, now, 0.02);
+    gain.setTargetAtTime(0.6, now + duration, 0.08);
+  };
+
+  dispose() {
+    this.track(null);
+    this.sources.forEach((source) => source.stop());
+    this.output.disconnect();
+  }
+}
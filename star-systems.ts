@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData} from './planet-model';
+import {createSeededRandom, hashString} from './seeded-random';
+
+type SystemMember = Pick<
+  PlanetData,
+  'celestial_body_id' | 'starSystem' | 'starType' | 'distanceLightYears'
+>;
+
+export interface StarSystemLayout {
+  name: string;
+  starType: string;
+  distanceLightYears: number;
+  position: {x: number; y: number; z: number};
+  planetIds: string[];
+}
+
+/**
+ * Maps distance from Earth to galaxy-view units. Logarithmic, so a system four
+ * light-years away and one four thousand away both fit on screen, with a floor
+ * that keeps neighbouring systems' orbits from overlapping the origin.
+ */
+export function galaxyViewDistance(distanceLightYears: number) {
+  return 150 + 80 * Math.log10(1 + Math.max(distanceLightYears, 0));
+}
+
+/**
+ * Places a system in the galaxy view. The direction is derived from the system
+ * name so it never moves between sessions; the disc is flattened to suggest
+ * the galactic plane.
+ */
+export function galaxyPosition(name: string, distanceLightYears: number) {
+  const random = createSeededRandom(hashString(name));
+  const azimuth = random() * Math.PI * 2;
+  const elevation = (random() - 0.5) * 0.6;
+  const radius = galaxyViewDistance(distanceLightYears);
+  return {
+    x: Math.cos(azimuth) * Math.cos(elevation) * radius,
+    y: Math.sin(elevation) * radius,
+    z: Math.sin(azimuth) * Math.cos(elevation) * radius,
+  };
+}
+
+/** Groups planets by `starSystem`, averaging the members' distances. */
+export function layoutStarSystems(
+  planets: SystemMember[],
+): Map<string, StarSystemLayout> {
+  const members = new Map<string, SystemMember[]>();
+  for (const planet of planets) {
+    const name = planet.starSystem.trim() || 'Unknown System';
+    members.set(name, [...(members.get(name) ?? []), planet]);
+  }
+
+  const systems = new Map<string, StarSystemLayout>();
+  members.forEach((group, name) => {
+    const distanceLightYears =
+      group.reduce((sum, planet) => sum + planet.distanceLightYears, 0) /
+      group.length;
+    systems.set(name, {
+      name,
+      starType: group[0].starType,
+      distanceLightYears,
+      position: galaxyPosition(name, distanceLightYears),
+      planetIds: group.map((planet) => planet.celestial_body_id),
+    });
+  });
+  return systems;
+}
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type SpectralClass = 'O' | 'B' | 'A' | 'F' | 'G' | 'K' | 'M';
+
+// Hottest to coolest.
+export const SPECTRAL_CLASSES: SpectralClass[] = [
+  'O',
+  'B',
+  'A',
+  'F',
+  'G',
+  'K',
+  'M',
+];
+
+export interface StellarProperties {
+  spectralClass: SpectralClass;
+  massSolar: number;
+  radiusSolar: number;
+  luminositySolar: number;
+  temperatureK: number;
+}
+
+// Representative main-sequence values for the middle of each class.
+const MAIN_SEQUENCE: Record<SpectralClass, StellarProperties> = {
+  O: {
+    spectralClass: 'O',
+    massSolar: 30,
+    radiusSolar: 10,
+    luminositySolar: 100000,
+    temperatureK: 38000,
+  },
+  B: {
+    spectralClass: 'B',
+    massSolar: 6,
+    radiusSolar: 4,
+    luminositySolar: 800,
+    temperatureK: 18000,
+  },
+  A: {
+    spectralClass: 'A',
+    massSolar: 2,
+    radiusSolar: 1.7,
+    luminositySolar: 20,
+    temperatureK: 8500,
+  },
+  F: {
+    spectralClass: 'F',
+    massSolar: 1.3,
+    radiusSolar: 1.3,
+    luminositySolar: 2.5,
+    temperatureK: 6600,
+  },
+  G: {
+    spectralClass: 'G',
+    massSolar: 1,
+    radiusSolar: 1,
+    luminositySolar: 1,
+    temperatureK: 5770,
+  },
+  K: {
+    spectralClass: 'K',
+    massSolar: 0.7,
+    radiusSolar: 0.75,
+    luminositySolar: 0.3,
+    temperatureK: 4400,
+  },
+  M: {
+    spectralClass: 'M',
+    massSolar: 0.3,
+    radiusSolar: 0.35,
+    luminositySolar: 0.02,
+    temperatureK: 3200,
+  },
+};
+
+const COLOR_NAMES: [RegExp, SpectralClass][] = [
+  [/\bred dwarf\b/i, 'M'],
+  [/\borange dwarf\b/i, 'K'],
+  [/\byellow dwarf\b/i, 'G'],
+  [/\bblue giant\b/i, 'B'],
+];
+
+/**
+ * Reads the spectral class out of free-form star descriptions such as
+ * "G-type star (Yellow Dwarf)", "M4V" or "Binary K and M dwarf pair". The
+ * first class mentioned wins; unrecognized stars are treated as Sun-like.
+ */
+export function spectralClassOf(starType: string): SpectralClass {
+  const match =
+    /\b([OBAFGKM])(?:-type|-class|\d)/.exec(starType) ??
+    /\b([OBAFGKM])\b(?=\s+(?:and|or|dwarf|star|giant|subgiant|main))/.exec(
+      starType,
+    );
+  if (match) return match[1] as SpectralClass;
+  for (const [pattern, spectralClass] of COLOR_NAMES) {
+    if (pattern.test(starType)) return spectralClass;
+  }
+  return 'G';
+}
+
+// Lower effective-temperature bound of each class, hottest first.
+const CLASS_MIN_TEMPERATURES: [SpectralClass, number][] = [
+  ['O', 30000],
+  ['B', 10000],
+  ['A', 7500],
+  ['F', 6000],
+  ['G', 5200],
+  ['K', 3700],
+];
+
+export function spectralClassFromTemperature(
+  temperatureK: number,
+): SpectralClass {
+  const match = CLASS_MIN_TEMPERATURES.find(([, min]) => temperatureK >= min);
+  return match ? match[0] : 'M';
+}
+
+export function stellarPropertiesOf(starType: string): StellarProperties {
+  return MAIN_SEQUENCE[spectralClassOf(starType)];
+}
+
+/**
+ * Approximate sRGB color of a blackbody at `temperatureK`, as [r, g, b] in
+ * 0..1. Based on Tanner Helland's fit, valid from about 1000 K to 40000 K.
+ */
+export function blackbodyColor(temperatureK: number): [number, number, number] {
+  const t = Math.min(Math.max(temperatureK, 1000), 40000) / 100;
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 255) / 255;
+
+  const r = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592;
+  const g =
+    t <= 66
+      ? 99.4708025861 * Math.log(t) - 161.1195681661
+      : 288.1221695283 * (t - 60) ** -0.0755148492;
+  const b =
+    t >= 66
+      ? 255
+      : t <= 19
+        ? 0
+        : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  return [clamp(r), clamp(g), clamp(b)];
+}
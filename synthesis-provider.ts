@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PlanetData, PlanetGrounding} from './planet-model';
+
+export interface SynthesisRequest {
+  prompt: string;
+  // Lets long-running providers surface progress in the status bar.
+  onStatus?: (message: string) => void;
+  // Aborting rejects the synthesis with a SynthesisCancelledError.
+  signal?: AbortSignal;
+  // Streaming providers report the planet as its fields arrive.
+  onProgress?: (progress: SynthesisProgress) => void;
+  // One-line summaries of real exoplanets to ground the synthesis in.
+  referencePlanets?: string[];
+}
+
+/** A planet still streaming in; fields are unvalidated until it resolves. */
+export interface SynthesisProgress {
+  planet: Partial<PlanetData>;
+  // True once the whole `visualization` block has arrived.
+  visualizationComplete: boolean;
+}
+
+export interface SynthesisResult {
+  planet: PlanetData;
+  grounding: PlanetGrounding;
+}
+
+/**
+ * A source of new worlds. The interface only depends on this contract, so the
+ * Gemini-backed engine and the offline generator are interchangeable.
+ */
+export interface PlanetSynthesisProvider {
+  readonly id: string;
+  readonly label: string;
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+}
+
+export class SynthesisCancelledError extends Error {
+  constructor() {
+    super('Synthesis cancelled.');
+    this.name = 'SynthesisCancelledError';
+  }
+}
+
+/**
+ * Settles like `promise`, unless `signal` aborts first, in which case it
+ * rejects with a SynthesisCancelledError and the eventual result is dropped.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new SynthesisCancelledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new SynthesisCancelledError());
+    signal.addEventListener('abort', onAbort, {once: true});
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
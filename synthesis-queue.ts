@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {SynthesisCancelledError} from './synthesis-provider';
+
+/** Who asked for a synthesis, shown next to it in the queue. */
+export type SynthesisSource = 'user' | 'autonomous' | 'voice';
+
+export interface QueuedSynthesis {
+  id: number;
+  prompt: string;
+  source: SynthesisSource;
+  status: 'queued' | 'running';
+}
+
+interface QueueItem<T> extends QueuedSynthesis {
+  controller: AbortController;
+  resolve: (result: T | null) => void;
+}
+
+/**
+ * Runs synthesis requests one at a time in the order they were issued.
+ * Queued and running requests can be cancelled; a cancelled request resolves
+ * to null instead of rejecting, as do requests whose run rejects with a
+ * SynthesisCancelledError.
+ */
+export class SynthesisQueue<T> {
+  private items: QueueItem<T>[] = [];
+  private nextId = 1;
+
+  constructor(
+    private run: (prompt: string, signal: AbortSignal) => Promise<T | null>,
+    private onChange?: (items: QueuedSynthesis[]) => void,
+  ) {}
+
+  get pending(): QueuedSynthesis[] {
+    return this.items.map(({id, prompt, source, status}) => ({
+      id,
+      prompt,
+      source,
+      status,
+    }));
+  }
+
+  enqueue(prompt: string, source: SynthesisSource = 'user') {
+    return new Promise<T | null>((resolve) => {
+      this.items.push({
+        id: this.nextId++,
+        prompt,
+        source,
+        status: 'queued',
+        controller: new AbortController(),
+        resolve,
+      });
+      this.notify();
+      this.drain();
+    });
+  }
+
+  cancel(id: number) {
+    const item = this.items.find((candidate) => candidate.id === id);
+    if (!item) return;
+    item.controller.abort();
+    if (item.status === 'queued') {
+      this.items = this.items.filter((candidate) => candidate !== item);
+      item.resolve(null);
+      this.notify();
+    }
+    // A running item is removed once its run settles.
+  }
+
+  cancelAll() {
+    for (const {id} of [...this.items]) this.cancel(id);
+  }
+
+  private async drain() {
+    const item = this.items[0];
+    if (!item || item.status === 'running') return;
+    item.status = 'running';
+    this.notify();
+
+    let result: T | null = null;
+    try {
+      result = await this.run(item.prompt, item.controller.signal);
+    } catch (e) {
+      if (!(e instanceof SynthesisCancelledError)) {
+        console.error('Queued synthesis failed:', e);
+      }
+    }
+    this.items = this.items.filter((candidate) => candidate !== item);
+    item.resolve(item.controller.signal.aborted ? null : result);
+    this.notify();
+    this.drain();
+  }
+
+  private notify() {
+    this.onChange?.(this.pending);
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {DEFAULT_TIMERS, SchedulerTimers} from './discovery-scheduler';
+import {PlanetData} from './planet-model';
+
+export const TOUR_FORMAT = 'axee-tour';
+export const TOUR_VERSION = 1;
+// How long the camera lingers after a narration ends.
+export const DEFAULT_DWELL_MS = 4000;
+// Moves on anyway if the camera never reports arriving, e.g. because the
+// stop's planet is not in the scene.
+const ARRIVAL_TIMEOUT_MS = 8000;
+
+export interface TourStop {
+  planetId: string;
+  narration: string;
+  dwellMs: number;
+}
+
+/** A fly-through of the catalog, saved as plain JSON. */
+export interface Tour {
+  format: typeof TOUR_FORMAT;
+  version: number;
+  name: string;
+  stops: TourStop[];
+}
+
+export class TourParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TourParseError';
+  }
+}
+
+/** One stop per planet, in order, narrated with the planet's whisper. */
+export function createCatalogTour(name: string, planets: PlanetData[]): Tour {
+  return {
+    format: TOUR_FORMAT,
+    version: TOUR_VERSION,
+    name,
+    stops: planets.map((planet) => ({
+      planetId: planet.celestial_body_id,
+      narration: `${planet.planetName}. ${planet.aiWhisper}`,
+      dwellMs: DEFAULT_DWELL_MS,
+    })),
+  };
+}
+
+export function serializeTour(tour: Tour): string {
+  return JSON.stringify(tour, null, 2);
+}
+
+/**
+ * Reads a tour saved by serializeTour, rejecting the whole file if any stop
+ * is malformed.
+ */
+export function parseTour(text: string): Tour {
+  let raw: Partial<Tour>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new TourParseError('File is not valid JSON.');
+  }
+  if (raw?.format !== TOUR_FORMAT) {
+    throw new TourParseError('File is not an AXEE tour.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > TOUR_VERSION) {
+    throw new TourParseError(`Unsupported tour version: ${raw.version}.`);
+  }
+  if (!Array.isArray(raw.stops) || raw.stops.length === 0) {
+    throw new TourParseError('Tour has no stops.');
+  }
+  const stops = raw.stops.map((stop, index): TourStop => {
+    if (typeof stop?.planetId !== 'string' || !stop.planetId) {
+      throw new TourParseError(`Stop ${index}: planetId is required.`);
+    }
+    if (stop.narration !== undefined && typeof stop.narration !== 'string') {
+      throw new TourParseError(`Stop ${index}: narration must be a string.`);
+    }
+    if (
+      stop.dwellMs !== undefined &&
+      (typeof stop.dwellMs !== 'number' || !(stop.dwellMs >= 0))
+    ) {
+      throw new TourParseError(
+        `Stop ${index}: dwellMs must be a non-negative number.`,
+      );
+    }
+    return {
+      planetId: stop.planetId,
+      narration: stop.narration ?? '',
+      dwellMs: stop.dwellMs ?? DEFAULT_DWELL_MS,
+    };
+  });
+  return {
+    format: TOUR_FORMAT,
+    version: TOUR_VERSION,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Untitled tour',
+    stops,
+  };
+}
+
+export type TourState = 'idle' | 'playing' | 'paused' | 'stopped' | 'complete';
+// What a playing tour is waiting on at the current stop.
+export type TourStage = 'flying' | 'narrating' | 'dwelling';
+
+export interface TourSnapshot {
+  state: TourState;
+  stage: TourStage;
+  tourName: string;
+  stopIndex: number;
+  stopCount: number;
+  planetId: string | null;
+}
+
+export interface TourPlayerOptions {
+  /** Points the camera at the stop; the host calls `arrived()` once there. */
+  visit: (stop: TourStop) => void;
+  /** Speaks the narration, resolving when it has finished. */
+  narrate: (text: string) => Promise<void>;
+  /** Cuts off any narration in progress. */
+  silence: () => void;
+  timers?: SchedulerTimers;
+  onChange?: (snapshot: TourSnapshot) => void;
+}
+
+/**
+ * Plays a tour stop by stop: fly to the planet, read its narration, linger,
+ * move on. Pausing silences the narration; resuming replays the interrupted
+ * stop from its flight, since the user has usually moved the camera.
+ */
+export class TourPlayer {
+  private visit: TourPlayerOptions['visit'];
+  private narrate: TourPlayerOptions['narrate'];
+  private silence: TourPlayerOptions['silence'];
+  private timers: SchedulerTimers;
+  private onChange?: (snapshot: TourSnapshot) => void;
+
+  private tour: Tour | null = null;
+  private state: TourState = 'idle';
+  private stage: TourStage = 'flying';
+  private stopIndex = 0;
+  private timer: unknown = null;
+  // Bumped at every step, so narrations and timers that finish late are
+  // ignored.
+  private generation = 0;
+
+  constructor(options: TourPlayerOptions) {
+    this.visit = options.visit;
+    this.narrate = options.narrate;
+    this.silence = options.silence;
+    this.timers = options.timers ?? DEFAULT_TIMERS;
+    this.onChange = options.onChange;
+  }
+
+  get snapshot(): TourSnapshot {
+    return {
+      state: this.state,
+      stage: this.stage,
+      tourName: this.tour?.name ?? '',
+      stopIndex: this.stopIndex,
+      stopCount: this.tour?.stops.length ?? 0,
+      planetId: this.tour?.stops[this.stopIndex]?.planetId ?? null,
+    };
+  }
+
+  get currentTour(): Tour | null {
+    return this.tour;
+  }
+
+  start(tour: Tour) {
+    this.halt();
+    this.tour = tour;
+    this.state = 'playing';
+    this.goTo(0);
+  }
+
+  pause() {
+    if (this.state !== 'playing') return;
+    this.halt();
+    this.state = 'paused';
+    this.notify();
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.state = 'playing';
+    this.goTo(this.stopIndex);
+  }
+
+  /** Skips to the next stop, or finishes the tour after the last one. */
+  next() {
+    if (this.state !== 'playing' && this.state !== 'paused') return;
+    this.halt();
+    this.state = 'playing';
+    this.goTo(this.stopIndex + 1);
+  }
+
+  stop() {
+    if (this.state !== 'playing' && this.state !== 'paused') return;
+    this.halt();
+    this.state = 'stopped';
+    this.notify();
+  }
+
+  /** Reports that the camera reached `planetId`. */
+  arrived(planetId: string | null) {
+    if (
+      this.state !== 'playing' ||
+      this.stage !== 'flying' ||
+      planetId !== this.snapshot.planetId
+    ) {
+      return;
+    }
+    this.beginNarration();
+  }
+
+  private goTo(index: number) {
+    if (!this.tour || index >= this.tour.stops.length) {
+      this.state = 'complete';
+      this.notify();
+      return;
+    }
+    const generation = ++this.generation;
+    this.stopIndex = index;
+    this.stage = 'flying';
+    this.notify();
+    this.visit(this.tour.stops[index]);
+    this.schedule(generation, ARRIVAL_TIMEOUT_MS, () => this.beginNarration());
+  }
+
+  private beginNarration() {
+    const generation = ++this.generation;
+    const stop = this.tour.stops[this.stopIndex];
+    this.clearTimer();
+    this.stage = 'narrating';
+    this.notify();
+    const dwell = () => {
+      if (generation !== this.generation || this.state !== 'playing') return;
+      this.stage = 'dwelling';
+      this.notify();
+      this.schedule(generation, stop.dwellMs, () =>
+        this.goTo(this.stopIndex + 1),
+      );
+    };
+    if (stop.narration) this.narrate(stop.narration).then(dwell, dwell);
+    else dwell();
+  }
+
+  private schedule(generation: number, delayMs: number, run: () => void) {
+    this.clearTimer();
+    this.timer = this.timers.setTimeout(() => {
+      this.timer = null;
+      if (generation === this.generation && this.state === 'playing') run();
+    }, delayMs);
+  }
+
+  // Cancels everything in flight for the current stop.
+  private halt() {
+    this.generation++;
+    this.clearTimer();
+    if (this.state === 'playing') this.silence();
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      this.timers.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify() {
+    this.onChange?.(this.snapshot);
+  }
+}
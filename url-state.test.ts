@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {DEFAULT_LOG_QUERY, matchesFilter} from './planet-filter';
+import {PlanetData} from './planet-model';
+import {ProceduralSynthesisProvider} from './procedural-provider';
+import {
+  DEFAULT_VIEW_STATE,
+  SharedPlanetError,
+  ViewState,
+  decodeSharedPlanet,
+  encodeSharedPlanet,
+  formatViewHash,
+  parseViewHash,
+} from './url-state';
+
+const planet = new ProceduralSynthesisProvider(9).generate('a desert moon');
+
+describe('formatViewHash and parseViewHash', () => {
+  it('round-trip a full view', () => {
+    const view: ViewState = {
+      planetId: 'axee-1',
+      system: 'Kepler-22',
+      camera: {target: [1, 2, 3], offset: [0, 4.5, -10]},
+      filter: [
+        {field: 'type', operator: '=', value: 'ice giant'},
+        {field: 'distance', operator: '<', value: '100'},
+      ],
+      query: {
+        search: 'rings',
+        planetTypes: ['Gas Giant', 'Super-Earth'],
+        spectralClasses: ['G', 'M'],
+        minDistance: 4,
+        maxDistance: 900,
+        sort: 'distance',
+        groupBySystem: true,
+        includeKnown: true,
+      },
+    };
+    const hash = formatViewHash(view, 'abc');
+    expect(parseViewHash(hash)).toEqual({view, world: 'abc'});
+  });
+
+  it('leaves out defaults', () => {
+    expect(formatViewHash(DEFAULT_VIEW_STATE)).toBe('');
+    expect(parseViewHash('')).toEqual({view: DEFAULT_VIEW_STATE, world: null});
+  });
+});
+
+describe('parseViewHash on malformed and hostile links', () => {
+  const query = (hash: string) => parseViewHash(hash).view.query;
+
+  it('drops filters it cannot parse and keeps the rest', () => {
+    const {filter} = parseViewHash(
+      '#filter=constructor%3Dx&filter=__proto__%3Dx&filter=toString%3Dx' +
+        '&filter=type%3Dgas&filter=distance%3Cfar&filter=%3D%3D',
+    ).view;
+    expect(filter).toEqual([{field: 'type', operator: '=', value: 'gas'}]);
+    expect(() => matchesFilter(planet, filter)).not.toThrow();
+  });
+
+  it('only accepts known sort keys', () => {
+    for (const sort of ['constructor', 'toString', '__proto__', 'bogus']) {
+      expect(query(`#sort=${sort}`).sort).toBe(DEFAULT_LOG_QUERY.sort);
+    }
+    expect(query('#sort=name').sort).toBe('name');
+  });
+
+  it('ignores cameras without six finite numbers', () => {
+    for (const cam of ['1,2,3', '1,2,3,4,5,6,7', '1,2,3,4,5,x', 'Infinity']) {
+      expect(parseViewHash(`#cam=${cam}`).view.camera).toBeNull();
+    }
+  });
+
+  it('ignores unreadable distances and unknown spectral classes', () => {
+    expect(query('#min=near&max=Infinity')).toMatchObject({
+      minDistance: null,
+      maxDistance: null,
+    });
+    expect(query('#classes=G,constructor,Z,,M').spectralClasses).toEqual([
+      'G',
+      'M',
+    ]);
+  });
+
+  it('survives broken escapes and stray separators', () => {
+    expect(() =>
+      parseViewHash('#planet=%E0%A4%A&&=&filter&sort'),
+    ).not.toThrow();
+    expect(parseViewHash('#planet=&system=').view).toMatchObject({
+      planetId: null,
+      system: null,
+    });
+  });
+});
+
+describe('shared planets', () => {
+  it('round-trip through a link', async () => {
+    const decoded = await decodeSharedPlanet(await encodeSharedPlanet(planet));
+    expect(decoded).toEqual(planet);
+  });
+
+  it('reject damaged links', async () => {
+    const text = await encodeSharedPlanet(planet);
+    for (const damaged of [text.slice(0, 20), '!!!', '']) {
+      await expect(decodeSharedPlanet(damaged)).rejects.toThrow(
+        SharedPlanetError,
+      );
+    }
+  });
+
+  it('validate the planet a link carries', async () => {
+    const hostile = {
+      ...planet,
+      celestial_body_id: '',
+      visualization: {...planet.visualization, color1: 'red'},
+    };
+    const text = await encodeSharedPlanet(hostile as PlanetData);
+    await expect(decodeSharedPlanet(text)).rejects.toThrow(
+      /visualization\.color1 .*; celestial_body_id is required/,
+    );
+    const notAPlanet = await encodeSharedPlanet([
+      1, 2,
+    ] as unknown as PlanetData);
+    await expect(decodeSharedPlanet(notAPlanet)).rejects.toThrow(
+      SharedPlanetError,
+    );
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DEFAULT_LOG_QUERY,
+  FilterCondition,
+  LOG_SORT_LABELS,
+  LogQuery,
+  LogSortKey,
+  describeFilter,
+  parseFilterCondition,
+} from './planet-filter';
+import {PlanetData, normalizePlanet} from './planet-model';
+import {validatePlanetData} from './planet-validation';
+import {SPECTRAL_CLASSES, SpectralClass} from './stellar-classification';
+
+export type Vector3Tuple = [number, number, number];
+
+/**
+ * Where the camera is, as the point it orbits and its offset from there.
+ * Storing the offset lets a link keep its angle on a planet that has since
+ * moved along its orbit.
+ */
+export interface CameraPose {
+  target: Vector3Tuple;
+  offset: Vector3Tuple;
+}
+
+/** Everything the URL hash records about what is on screen. */
+export interface ViewState {
+  planetId: string | null;
+  system: string | null;
+  camera: CameraPose | null;
+  filter: FilterCondition[];
+  query: LogQuery;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  planetId: null,
+  system: null,
+  camera: null,
+  filter: [],
+  query: DEFAULT_LOG_QUERY,
+};
+
+export class SharedPlanetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharedPlanetError';
+  }
+}
+
+// Centimetre precision in scene units is far finer than anyone can see.
+function formatNumbers(values: number[]) {
+  return values.map((value) => Number(value.toFixed(2))).join(',');
+}
+
+function parseNumbers(text: string | null, count: number): number[] | null {
+  const values = text?.split(',').map(Number);
+  return values?.length === count && values.every(Number.isFinite)
+    ? values
+    : null;
+}
+
+function parseDistance(text: string | null) {
+  if (text === null || text === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Formats a view as a hash such as `#planet=axee-1&cam=0,0,0,0,3,10`,
+ * leaving out everything at its default. `world` carries a whole planet from
+ * encodeSharedPlanet.
+ */
+export function formatViewHash(view: ViewState, world?: string): string {
+  const params = new URLSearchParams();
+  if (view.planetId) params.set('planet', view.planetId);
+  if (view.system) params.set('system', view.system);
+  if (view.camera) {
+    params.set(
+      'cam',
+      formatNumbers([...view.camera.target, ...view.camera.offset]),
+    );
+  }
+  // One parameter per condition, since values may contain spaces.
+  for (const condition of view.filter) {
+    params.append('filter', describeFilter([condition]));
+  }
+  const {query} = view;
+  if (query.search.trim()) params.set('q', query.search.trim());
+  if (query.planetTypes.length > 0) {
+    params.set('types', query.planetTypes.join(','));
+  }
+  if (query.spectralClasses.length > 0) {
+    params.set('classes', query.spectralClasses.join(','));
+  }
+  if (query.minDistance !== null) params.set('min', `${query.minDistance}`);
+  if (query.maxDistance !== null) params.set('max', `${query.maxDistance}`);
+  if (query.sort !== DEFAULT_LOG_QUERY.sort) params.set('sort', query.sort);
+  if (query.groupBySystem) params.set('group', '1');
+  if (query.includeKnown) params.set('known', '1');
+  if (world) params.set('world', world);
+  const text = params.toString();
+  return text ? `#${text}` : '';
+}
+
+/**
+ * Reads a hash written by formatViewHash. Links get edited and truncated, and
+ * anyone can write one, so anything malformed is dropped rather than
+ * rejecting the whole link.
+ */
+export function parseViewHash(hash: string): {
+  view: ViewState;
+  world: string | null;
+} {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const numbers = parseNumbers(params.get('cam'), 6);
+  const filter: FilterCondition[] = [];
+  for (const text of params.getAll('filter')) {
+    try {
+      filter.push(parseFilterCondition(text));
+    } catch {
+      // Skip conditions this version no longer understands.
+    }
+  }
+  const list = (name: string) =>
+    (params.get(name) ?? '').split(',').filter(Boolean);
+  const sort = params.get('sort') as LogSortKey;
+  return {
+    view: {
+      planetId: params.get('planet') || null,
+      system: params.get('system') || null,
+      camera: numbers && {
+        target: numbers.slice(0, 3) as Vector3Tuple,
+        offset: numbers.slice(3) as Vector3Tuple,
+      },
+      filter,
+      query: {
+        search: params.get('q') ?? '',
+        planetTypes: list('types'),
+        spectralClasses: list('classes').filter((spectralClass) =>
+          SPECTRAL_CLASSES.includes(spectralClass as SpectralClass),
+        ) as SpectralClass[],
+        minDistance: parseDistance(params.get('min')),
+        maxDistance: parseDistance(params.get('max')),
+        sort: Object.hasOwn(LOG_SORT_LABELS, sort)
+          ? sort
+          : DEFAULT_LOG_QUERY.sort,
+        groupBySystem: params.get('group') === '1',
+        includeKnown: params.get('known') === '1',
+      },
+    },
+    world: params.get('world'),
+  };
+}
+
+// Base64url without padding, so the text needs no escaping in a URL.
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: GenericTransformStream) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Packs a planet into a URL-safe string: its JSON, deflated and base64url
+ * encoded. A typical planet comes to about 1 KB, well within URL limits.
+ */
+export async function encodeSharedPlanet(planet: PlanetData): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(planet));
+  return toBase64Url(
+    await transform(json, new CompressionStream('deflate-raw')),
+  );
+}
+
+/** Unpacks a planet from encodeSharedPlanet, validating it like an import. */
+export async function decodeSharedPlanet(text: string): Promise<PlanetData> {
+  let value: unknown;
+  try {
+    const json = await transform(
+      fromBase64Url(text),
+      new DecompressionStream('deflate-raw'),
+    );
+    value = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new SharedPlanetError('The link is damaged or incomplete.');
+  }
+  const {errors} = validatePlanetData(value);
+  const id = (value as Partial<PlanetData>)?.celestial_body_id;
+  if (typeof id !== 'string' || !id) {
+    errors.push({path: 'celestial_body_id', message: 'is required'});
+  }
+  if (errors.length > 0) {
+    throw new SharedPlanetError(
+      `The shared planet is invalid: ${errors
+        .map((error) => `${error.path} ${error.message}`)
+        .join('; ')}`,
+    );
+  }
+  return normalizePlanet(value as PlanetData);
+}
@@ -12,22 +12,60 @@ import {EffectComposer} from 'three/addons/postprocessing/EffectComposer.js';
 import {RenderPass} from 'three/addons/postprocessing/RenderPass.js';
 import {UnrealBloomPass} from 'three/addons/postprocessing/UnrealBloomPass.js';
 import {fs as aiEntityFs, vs as aiEntityVs} from './ai-entity-shader';
+import {Analyser} from './analyser';
+import {CameraDirector, CameraShot} from './camera-director';
 import {
   fs as atmosphereFs,
   vs as atmosphereVs,
 } from './atmosphere-shader.js';
+import {
+  OrbitalElements,
+  orbitPathPoints,
+  orbitalElementsFor,
+  orbitalPositionAt,
+} from './orbital-mechanics';
+import {estimateRadiusEarth} from './planet-dimensions';
+import {
+  DETAIL_LEVELS,
+  DetailLevel,
+  PlanetAtlas,
+  PlanetGeometries,
+  PlanetImpostors,
+  detailLevelFor,
+  projectedRadius,
+} from './planet-lod';
+import {PlanetData} from './planet-model';
+import {planetSurfaceParams} from './planet-surface';
+import {
+  fs as planetSurfaceFs,
+  vs as planetSurfaceVs,
+} from './planet-surface-shader';
+import {
+  CaptureError,
+  SceneRecorder,
+  StillCaptureOptions,
+  canvasToPng,
+  drawCaptionCard,
+} from './scene-capture';
+import {SpeechActivity} from './speech-activity';
+import {StarSystemLayout, layoutStarSystems} from './star-systems';
+import {blackbodyColor, stellarPropertiesOf} from './stellar-classification';
+import {CameraPose, Vector3Tuple} from './url-state';
 
-interface PlanetData {
-  celestial_body_id: string;
-  planetName: string;
-  planetType: string;
-  visualization: {
-    color1: string;
-    color2: string;
-    atmosphereColor: string;
-    hasRings: boolean;
-  };
-}
+// Simulated days that pass per real second at a time scale of 1.
+const DAYS_PER_SECOND = 5;
+// Frequency bins uploaded to the AI entity's `uAudioData` texture.
+const AUDIO_BINS = 32;
+// Scene radius of the largest planet in the comparison view, and the extent
+// (including rings) each comparison camera keeps in frame.
+const COMPARISON_PLANET_SIZE = 2.5;
+const COMPARISON_FRAME_RADIUS = 5.5;
+// Comparison planets sit this far apart so their viewports never overlap.
+const COMPARISON_SPACING = 100;
+// Hover tests run at most this often, and only after the pointer moves.
+const HOVER_INTERVAL_SECONDS = 0.05;
+// How often the performance HUD refreshes its averages.
+const STATS_INTERVAL_SECONDS = 0.5;
 
 @customElement('axee-visuals-3d')
 export class AxeeVisuals3D extends LitElement {
@@ -36,8 +74,8 @@ export class AxeeVisuals3D extends LitElement {
   private renderer!: THREE.WebGLRenderer;
   private composer!: EffectComposer;
   private controls!: OrbitControls;
+  private director!: CameraDirector;
   private starfield!: THREE.Points;
-  private star!: THREE.Mesh;
   private clock = new THREE.Clock();
   private animationFrameId = 0;
   private boundOnWindowResize = this.onWindowResize.bind(this);
@@ -45,29 +83,79 @@ export class AxeeVisuals3D extends LitElement {
   private pointer = new THREE.Vector2();
   private tooltipElement!: HTMLDivElement;
   private hoveredPlanetId: string | null = null;
-  private targetPosition = new THREE.Vector3();
-  private targetLookAt = new THREE.Vector3();
+  private hoveredSystem: string | null = null;
+  private pointerMoved = false;
+  private lastHoverTest = 0;
+
+  private simulationDays = 0;
+
+  // Level of detail
+  private geometries = new PlanetGeometries();
+  // Distant planets are drawn as sprites from one shared texture
+  private atlas = new PlanetAtlas();
+  private impostors = new PlanetImpostors(this.atlas);
+  private detailCounts = new Map<DetailLevel, number>();
+  private worldPosition = new THREE.Vector3();
+
+  // Performance HUD, averaged over STATS_INTERVAL_SECONDS
+  private statsElement!: HTMLDivElement;
+  private frameStats = {frames: 0, seconds: 0, cpuMs: 0};
 
   // Scene objects
+  private systems: Map<string, THREE.Group> = new Map();
   private planets: Map<string, THREE.Group> = new Map();
+  private orbitLines: Map<string, THREE.LineLoop> = new Map();
   private aiEntity: THREE.Mesh | null = null;
   private dataTrails: THREE.Group | null = null;
   private neuralNetwork: THREE.LineSegments | null = null;
+  private comparisonScene: THREE.Scene | null = null;
+  // Serialized `comparedPlanets`, so re-renders with an equal list keep the
+  // existing comparison meshes.
+  private comparisonKey = '';
+  private comparisonViews: {
+    planet: THREE.Group;
+    camera: THREE.PerspectiveCamera;
+  }[] = [];
 
   // Audio
   private audioContext: AudioContext | null = null;
-  private analyserNode: AnalyserNode | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private micAnalyser: Analyser | null = null;
+  private speechActivity: SpeechActivity | null = null;
+  private speechAnalyser: Analyser | null = null;
+  private outputAnalyser: Analyser | null = null;
   private audioDataTexture: THREE.DataTexture | null = null;
 
+  private recorder: SceneRecorder | null = null;
+
   @property({type: Array})
   planetsData: PlanetData[] = [];
 
   @property({type: String})
   selectedPlanetId: string | null = null;
 
+  // Star system the camera frames when no planet is selected; null shows the
+  // galaxy overview.
+  @property({type: String})
+  focusedSystem: string | null = null;
+
+  // Two or more planets replace the galaxy with side-by-side viewports that
+  // show them at true relative scale.
+  @property({attribute: false})
+  comparedPlanets: PlanetData[] = [];
+
+  // Planets filtered out of the Discovery Log. They stay in place but fade
+  // back and stop responding to the pointer.
+  @property({attribute: false})
+  dimmedPlanetIds: Set<string> = new Set();
+
   @property({type: Boolean})
   isScanning = false;
 
+  // Overlays frame time, draw calls, triangles and detail levels.
+  @property({type: Boolean})
+  showStats = false;
+
   @property({type: Object})
   micStream: MediaStream | null = null;
 
@@ -77,6 +165,54 @@ export class AxeeVisuals3D extends LitElement {
   @property({type: Boolean})
   isSpeaking = false;
 
+  // The utterance currently being spoken, whose word boundaries drive the
+  // AI entity while AXEE talks.
+  @property({attribute: false})
+  speechUtterance: SpeechSynthesisUtterance | null = null;
+
+  // Real speech audio, such as a live conversation's playback. While set it
+  // replaces the stand-in signal derived from `speechUtterance`.
+  @property({attribute: false})
+  speechOutputNode: AudioNode | null = null;
+
+  // Multiplier on simulated time: 0 pauses, negative values run backwards.
+  @property({type: Number})
+  timeScale = 1;
+
+  /**
+   * Days of simulated time since the epoch the orbital elements refer to.
+   * Panels that animate with the scene poll it each frame.
+   */
+  get simulationTime() {
+    return this.simulationDays;
+  }
+
+  /** The camera's current pose, or null before the scene exists. */
+  get cameraPose(): CameraPose | null {
+    if (!this.controls) return null;
+    const offset = this.camera.position.clone().sub(this.controls.target);
+    return {
+      target: this.controls.target.toArray() as Vector3Tuple,
+      offset: offset.toArray() as Vector3Tuple,
+    };
+  }
+
+  /**
+   * Moves the camera to `pose` without a flight. With a planet selected only
+   * the offset applies, keeping the camera on the planet.
+   */
+  setCameraPose(pose: CameraPose) {
+    if (!this.director) return;
+    this.director.jumpTo(
+      new THREE.Vector3(...pose.target),
+      new THREE.Vector3(...pose.offset),
+    );
+  }
+
+  get isRecording() {
+    return this.recorder !== null;
+  }
+
   static styles = css`
     :host {
       position: relative;
@@ -100,6 +236,23 @@ export class AxeeVisuals3D extends LitElement {
       text-shadow: 0 0 5px #0af;
       z-index: 10;
     }
+    .perf-hud {
+      position: absolute;
+      top: 0.5rem;
+      left: 50%;
+      transform: translateX(-50%);
+      background-color: rgba(0, 20, 34, 0.8);
+      color: #0f0;
+      padding: 4px 8px;
+      border: 1px solid #0a0;
+      font: 11px monospace;
+      white-space: pre;
+      pointer-events: none;
+      z-index: 10;
+    }
+    .perf-hud[hidden] {
+      display: none;
+    }
   `;
 
   connectedCallback() {
@@ -115,12 +268,20 @@ export class AxeeVisuals3D extends LitElement {
     this.removeEventListener('click', this.onCanvasClick);
     cancelAnimationFrame(this.animationFrameId);
 
+    this.recorder?.stop();
+    this.recorder = null;
     this.micStream?.getTracks().forEach((track) => track.stop());
+    this.speechActivity?.dispose();
     this.audioContext?.close();
+    this.audioDataTexture?.dispose();
 
+    this.disposeComparison();
+    this.impostors.dispose();
+    this.atlas.dispose();
+    this.geometries.dispose();
     this.controls?.dispose();
     this.scene?.traverse((object) => {
-      if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
         object.geometry?.dispose();
         if (Array.isArray(object.material)) {
           object.material.forEach((material) => material.dispose());
@@ -148,13 +309,35 @@ export class AxeeVisuals3D extends LitElement {
     this.renderer = new THREE.WebGLRenderer({canvas, antialias: true});
     this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.setPixelRatio(window.devicePixelRatio);
+    // The composer renders several passes a frame; _animate resets the
+    // counters once per frame so the HUD sees them all.
+    this.renderer.info.autoReset = false;
 
     this.controls = new OrbitControls(this.camera, this.renderer.domElement);
     this.controls.enableDamping = true;
     this.controls.minDistance = 5;
-    this.controls.maxDistance = 100;
+    this.controls.maxDistance = 1200;
     this.controls.autoRotate = true;
     this.controls.autoRotateSpeed = 0.1;
+    this.director = new CameraDirector(this.camera, this.controls);
+    this.director.onArrive = () => {
+      this.dispatchEvent(
+        new CustomEvent('camera-arrived', {
+          detail: {planetId: this.selectedPlanetId},
+          bubbles: true,
+          composed: true,
+        }),
+      );
+      this.dispatchCameraMoved();
+    };
+    // Fired when the user starts dragging or zooming.
+    this.controls.addEventListener('start', () => {
+      this.director.interrupt();
+      this.dispatchEvent(
+        new CustomEvent('camera-interrupted', {bubbles: true, composed: true}),
+      );
+    });
+    this.controls.addEventListener('end', () => this.dispatchCameraMoved());
 
     // Starfield
     const starVertices = [];
@@ -172,20 +355,14 @@ export class AxeeVisuals3D extends LitElement {
     );
     this.scene.add(this.starfield);
 
-    // Star
-    this.star = new THREE.Mesh(
-      new THREE.IcosahedronGeometry(3, 15),
-      new THREE.MeshBasicMaterial({color: 0xfffde1}),
-    );
-    this.scene.add(this.star);
-
     // AI Entity & Visuals
     this.createAiEntity();
     this.createDataTrails();
     this.createNeuralNetwork();
 
-    // Lights
-    this.scene.add(new THREE.PointLight(0xffffff, 3, 300));
+    this.scene.add(this.impostors.points);
+
+    // Lights (each star system adds its own point light)
     this.scene.add(new THREE.AmbientLight(0xffffff, 0.2));
 
     // Post-processing
@@ -204,15 +381,27 @@ export class AxeeVisuals3D extends LitElement {
     this.composer.addPass(bloomPass);
 
     window.addEventListener('resize', this.boundOnWindowResize);
+    this.updatePlanets();
+    this.applyDimming();
+    this.focusOnSelectedPlanet();
+    this.updateComparison();
     this._animate();
   }
 
   private createAiEntity() {
     const geometry = new THREE.SphereGeometry(1.5, 64, 64);
+    this.audioDataTexture = new THREE.DataTexture(
+      new Uint8Array(AUDIO_BINS),
+      AUDIO_BINS,
+      1,
+      THREE.RedFormat,
+    );
+    this.audioDataTexture.magFilter = THREE.LinearFilter;
+    this.audioDataTexture.needsUpdate = true;
     const material = new THREE.ShaderMaterial({
       uniforms: {
         uTime: {value: 0},
-        uAudioData: {value: null},
+        uAudioData: {value: this.audioDataTexture},
         uState: {value: 0},
       },
       vertexShader: aiEntityVs,
@@ -254,8 +443,52 @@ export class AxeeVisuals3D extends LitElement {
     this.scene.add(this.neuralNetwork);
   }
 
+  private ensureAudioContext() {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.speechActivity = new SpeechActivity(this.audioContext);
+      this.speechAnalyser = new Analyser(
+        this.speechActivity.output,
+        AUDIO_BINS * 2,
+      );
+    }
+    // Contexts created outside a user gesture start suspended.
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume();
+    }
+    return this.audioContext;
+  }
+
   private setupAudioProcessing() {
-    // ... setup remains the same
+    this.micAnalyser?.disconnect();
+    this.micSource?.disconnect();
+    this.micAnalyser = null;
+    this.micSource = null;
+    if (!this.micStream) return;
+
+    // The analyser is the only consumer, so the mic is never played back.
+    const context = this.ensureAudioContext();
+    this.micSource = context.createMediaStreamSource(this.micStream);
+    this.micAnalyser = new Analyser(this.micSource, AUDIO_BINS * 2);
+  }
+
+  // Uploads the louder of the mic and speech spectra, bin by bin.
+  private updateAudioTexture() {
+    if (!this.audioDataTexture) return;
+    const bins = this.audioDataTexture.image.data as Uint8Array;
+    bins.fill(0);
+    for (const analyser of [
+      this.micAnalyser,
+      this.speechAnalyser,
+      this.outputAnalyser,
+    ]) {
+      if (!analyser) continue;
+      analyser.update();
+      analyser.data.forEach((value, i) => {
+        bins[i] = Math.max(bins[i], value);
+      });
+    }
+    this.audioDataTexture.needsUpdate = true;
   }
 
   private onWindowResize() {
@@ -269,12 +502,41 @@ export class AxeeVisuals3D extends LitElement {
     if (changedProperties.has('planetsData')) {
       this.updatePlanets();
     }
-    if (changedProperties.has('selectedPlanetId')) {
+    if (
+      changedProperties.has('planetsData') ||
+      changedProperties.has('dimmedPlanetIds')
+    ) {
+      this.applyDimming();
+    }
+    if (
+      changedProperties.has('selectedPlanetId') ||
+      changedProperties.has('focusedSystem')
+    ) {
       this.focusOnSelectedPlanet();
     }
+    if (changedProperties.has('comparedPlanets')) {
+      this.updateComparison();
+    }
     if (changedProperties.has('micStream')) {
       this.setupAudioProcessing();
     }
+    if (changedProperties.has('speechOutputNode')) {
+      this.outputAnalyser?.disconnect();
+      this.outputAnalyser = this.speechOutputNode
+        ? new Analyser(this.speechOutputNode, AUDIO_BINS * 2)
+        : null;
+      this.recorder?.setAudioSource(this.speechOutputNode);
+    }
+    if (
+      changedProperties.has('isSpeaking') ||
+      changedProperties.has('speechUtterance') ||
+      changedProperties.has('speechOutputNode')
+    ) {
+      const simulateSpeech = this.isSpeaking && !this.speechOutputNode;
+      if (simulateSpeech) this.ensureAudioContext();
+      this.speechActivity?.track(this.speechUtterance);
+      this.speechActivity?.setSpeaking(simulateSpeech);
+    }
     if (changedProperties.has('isScanning')) {
       if (this.dataTrails) this.dataTrails.visible = this.isScanning;
       if (this.neuralNetwork) this.neuralNetwork.visible = this.isScanning;
@@ -282,6 +544,7 @@ export class AxeeVisuals3D extends LitElement {
   }
 
   private updatePlanets() {
+    if (!this.scene) return; // init() calls back once the scene exists
     const currentPlanetIds = this.planetsData.map(
       (p) => p.celestial_body_id,
     );
@@ -291,49 +554,172 @@ export class AxeeVisuals3D extends LitElement {
         this.removePlanet(id);
       }
     }
+    // Add, move or remove star systems
+    const layout = layoutStarSystems(this.planetsData);
+    for (const name of this.systems.keys()) {
+      if (!layout.has(name)) {
+        this.removeStarSystem(name);
+      }
+    }
+    layout.forEach((system) => {
+      const group =
+        this.systems.get(system.name) ?? this.createStarSystem(system);
+      const {x, y, z} = system.position;
+      group.position.set(x, y, z);
+    });
     // Add new planets
-    this.planetsData.forEach((planetData, index) => {
-      if (!this.planets.has(planetData.celestial_body_id)) {
-        this.createPlanet(planetData, index);
+    this.planetsData.forEach((planetData) => {
+      const existing = this.planets.get(planetData.celestial_body_id);
+      if (!existing) {
+        const systemName = Array.from(layout.values()).find((system) =>
+          system.planetIds.includes(planetData.celestial_body_id),
+        )!.name;
+        this.createPlanet(planetData, this.systems.get(systemName)!);
+      } else {
+        // Keeps tooltips in sync when a planet is renamed.
+        existing.name = planetData.planetName;
+        // A streamed planet is drawn before its orbit block arrives.
+        if (existing.userData.orbitKey !== JSON.stringify(planetData.orbit)) {
+          this.applyOrbit(existing, planetData);
+        }
       }
     });
   }
 
-  private createPlanet(data: PlanetData, index: number) {
-    const planetGroup = new THREE.Group();
-    planetGroup.name = data.planetName;
-    planetGroup.userData = {id: data.celestial_body_id};
+  private createStarSystem(system: StarSystemLayout) {
+    const star = stellarPropertiesOf(system.starType);
+    const color = new THREE.Color(...blackbodyColor(star.temperatureK));
+    const systemGroup = new THREE.Group();
+    systemGroup.name = system.name;
+
+    const starSize = THREE.MathUtils.clamp(
+      1.5 + 1.5 * Math.sqrt(star.radiusSolar),
+      1.5,
+      8,
+    );
+    const starMesh = new THREE.Mesh(
+      new THREE.IcosahedronGeometry(starSize, 15),
+      new THREE.MeshBasicMaterial({color}),
+    );
+    starMesh.name = system.name;
+    starMesh.userData = {systemName: system.name};
+    systemGroup.add(starMesh);
+    systemGroup.userData = {starMesh, starColor: color};
+
+    // Brighter stars light their planets more strongly, on a log scale.
+    const intensity = THREE.MathUtils.clamp(
+      2 + 0.5 * Math.log10(star.luminositySolar),
+      0.8,
+      4,
+    );
+    systemGroup.add(new THREE.PointLight(color, intensity, 160, 0));
+
+    this.systems.set(system.name, systemGroup);
+    this.scene.add(systemGroup);
+    return systemGroup;
+  }
+
+  private removeStarSystem(name: string) {
+    const systemGroup = this.systems.get(name);
+    if (!systemGroup) return;
+    this.scene.remove(systemGroup);
+    systemGroup.traverse((object) => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+        object.geometry?.dispose();
+        (object.material as THREE.Material).dispose();
+      } else if (object instanceof THREE.Light) {
+        object.dispose();
+      }
+    });
+    this.systems.delete(name);
+  }
 
+  // Compresses orbital distances so hot Jupiters and ice giants share a view.
+  private sceneOrbitRadius(semiMajorAxisAU: number) {
+    return 8 + 12 * Math.sqrt(semiMajorAxisAU);
+  }
+
+  private createOrbitLine(
+    data: PlanetData,
+    elements: OrbitalElements,
+    systemGroup: THREE.Group,
+  ) {
+    const scale = this.sceneOrbitRadius(elements.semiMajorAxisAU);
+    const points = orbitPathPoints(elements).map(
+      (p) =>
+        new THREE.Vector3(p.x, p.y, p.z).multiplyScalar(
+          scale / elements.semiMajorAxisAU,
+        ),
+    );
+    const orbitLine = new THREE.LineLoop(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({
+        color: new THREE.Color(data.visualization.atmosphereColor),
+        transparent: true,
+        opacity: 0.25,
+      }),
+    );
+    this.orbitLines.set(data.celestial_body_id, orbitLine);
+    systemGroup.add(orbitLine);
+  }
+
+  private createPlanet(data: PlanetData, systemGroup: THREE.Group) {
     const isGasGiant = data.planetType.toLowerCase().includes('gas');
-    const planetSize = isGasGiant ? 2.5 : 1.5;
-    const segments = 64;
-    const planetGeometry = new THREE.SphereGeometry(
-      planetSize,
-      segments,
-      segments,
+    const planetGroup = this.createPlanetBody(
+      data,
+      isGasGiant ? 2.5 : 1.5,
+      // System groups sit directly in the scene, so the group's position is
+      // the star's world position; sharing the vector keeps it in sync.
+      systemGroup.position,
+      systemGroup.userData.starColor,
     );
+    this.planets.set(data.celestial_body_id, planetGroup);
+    systemGroup.add(planetGroup);
+    this.applyOrbit(planetGroup, data);
+  }
 
-    // Simplified procedural texture
-    const textureCanvas = document.createElement('canvas');
-    textureCanvas.width = 512;
-    textureCanvas.height = 256;
-    const ctx = textureCanvas.getContext('2d')!;
-    const color1 = new THREE.Color(data.visualization.color1);
-    const color2 = new THREE.Color(data.visualization.color2);
-    const grd = ctx.createLinearGradient(0, 0, 0, textureCanvas.height);
-    grd.addColorStop(0, color1.getStyle());
-    grd.addColorStop(1, color2.getStyle());
-    ctx.fillStyle = grd;
-    ctx.fillRect(0, 0, textureCanvas.width, textureCanvas.height);
-    const texture = new THREE.CanvasTexture(textureCanvas);
-
-    const planetMaterial = new THREE.MeshStandardMaterial({
-      map: texture,
-      roughness: 0.8,
-      metalness: 0.1,
+  // The planet's surface, atmosphere and rings, lit by a star at
+  // `starPosition` in world space.
+  private createPlanetBody(
+    data: PlanetData,
+    planetSize: number,
+    starPosition: THREE.Vector3,
+    starColor: THREE.Color,
+  ) {
+    const planetGroup = new THREE.Group();
+    planetGroup.name = data.planetName;
+    planetGroup.userData = {
+      id: data.celestial_body_id,
+      data,
+      size: planetSize,
+      detail: 'high',
+    };
+
+    const surface = planetSurfaceParams(data);
+    const planetMaterial = new THREE.ShaderMaterial({
+      vertexShader: planetSurfaceVs,
+      fragmentShader: planetSurfaceFs,
+      uniforms: {
+        uColor1: {value: new THREE.Color(data.visualization.color1)},
+        uColor2: {value: new THREE.Color(data.visualization.color2)},
+        uSeed: {value: surface.seed},
+        uBands: {value: surface.bands},
+        uCraters: {value: surface.craters},
+        uOceanLevel: {value: surface.oceanLevel},
+        uIceCaps: {value: surface.iceCaps},
+        uLava: {value: surface.lava},
+        uDim: {value: 1},
+        uStarPosition: {value: starPosition},
+        uStarColor: {value: starColor},
+      },
     });
-    const planetMesh = new THREE.Mesh(planetGeometry, planetMaterial);
+    const planetMesh = new THREE.Mesh(
+      this.geometries.sphere('high'),
+      planetMaterial,
+    );
+    planetMesh.scale.setScalar(planetSize);
     planetGroup.add(planetMesh);
+    planetGroup.userData.surfaceMesh = planetMesh;
 
     // Atmosphere
     const atmosphereMaterial = new THREE.ShaderMaterial({
@@ -349,44 +735,129 @@ export class AxeeVisuals3D extends LitElement {
       transparent: true,
     });
     const atmosphereMesh = new THREE.Mesh(
-      new THREE.SphereGeometry(planetSize + 0.1, segments, segments),
+      this.geometries.sphere('high'),
       atmosphereMaterial,
     );
+    atmosphereMesh.scale.setScalar(planetSize + 0.1);
     planetGroup.add(atmosphereMesh);
+    planetGroup.userData.atmosphereMesh = atmosphereMesh;
 
     // Rings
     if (data.visualization.hasRings) {
-      const ringGeom = new THREE.RingGeometry(
-        planetSize + 0.5,
-        planetSize + 2.5,
-        128,
-      );
       const ringMat = new THREE.MeshBasicMaterial({
         color: new THREE.Color(data.visualization.color2).multiplyScalar(0.5),
         transparent: true,
         opacity: 0.6,
         side: THREE.DoubleSide,
       });
-      const ringMesh = new THREE.Mesh(ringGeom, ringMat);
+      const ringMesh = new THREE.Mesh(
+        this.geometries.ring(planetSize, 'high'),
+        ringMat,
+      );
       ringMesh.rotation.x = Math.PI * 0.52;
       planetGroup.add(ringMesh);
+      planetGroup.userData.ringMesh = ringMesh;
     }
-    const orbitalRadius = 15 + index * 8;
-    planetGroup.userData.orbitalRadius = orbitalRadius;
-    planetGroup.userData.orbitSpeed = 0.1 + Math.random() * 0.1;
-    planetGroup.position.x = orbitalRadius;
+    return planetGroup;
+  }
 
-    this.planets.set(data.celestial_body_id, planetGroup);
-    this.scene.add(planetGroup);
+  private setPlanetDetail(
+    planetGroup: THREE.Group,
+    detail: Exclude<DetailLevel, 'impostor'>,
+  ) {
+    const {surfaceMesh, atmosphereMesh, ringMesh, size} =
+      planetGroup.userData;
+    surfaceMesh.geometry = this.geometries.sphere(detail);
+    atmosphereMesh.geometry = this.geometries.sphere(detail);
+    if (ringMesh) ringMesh.geometry = this.geometries.ring(size, detail);
+    planetGroup.userData.detail = detail;
+  }
+
+  /**
+   * Picks each planet's mesh detail from its radius on screen. Planets too
+   * small for a mesh are hidden and drawn as impostor sprites instead; they
+   * stay in the scene graph, so hover tests and camera follows still work.
+   * Their orbit lines are hidden too, or a crowded catalog would still draw
+   * one line per planet.
+   */
+  private updateLevelsOfDetail() {
+    const bufferHeight = this.renderer.getContext().drawingBufferHeight;
+    const viewportHeight = bufferHeight / this.renderer.getPixelRatio();
+    const counts = new Map<DetailLevel, number>(
+      DETAIL_LEVELS.map((level) => [level, 0]),
+    );
+    this.impostors.begin(this.camera, bufferHeight);
+    this.planets.forEach((group, id) => {
+      const position = group.getWorldPosition(this.worldPosition);
+      const size: number = group.userData.size;
+      let detail = detailLevelFor(
+        projectedRadius(
+          size,
+          position.distanceTo(this.camera.position),
+          this.camera,
+          viewportHeight,
+        ),
+      );
+      const cell =
+        detail === 'impostor' ? this.atlas.cellFor(group.userData.data) : null;
+      // Once the atlas is full, far planets keep their coarsest mesh.
+      if (detail === 'impostor' && cell === null) detail = 'low';
+      counts.set(detail, counts.get(detail) + 1);
+      group.visible = detail !== 'impostor';
+      const orbitLine = this.orbitLines.get(id);
+      if (orbitLine) orbitLine.visible = group.visible;
+      if (detail === 'impostor') {
+        const opacity = this.dimmedPlanetIds.has(id) ? 0.15 : 1;
+        this.impostors.add(position, size, cell, opacity);
+      }
+      // Hidden meshes are still hover-tested, which is cheapest when coarse.
+      const meshDetail = detail === 'impostor' ? 'low' : detail;
+      if (group.userData.detail !== meshDetail) {
+        this.setPlanetDetail(group, meshDetail);
+      }
+    });
+    this.impostors.end();
+    this.detailCounts = counts;
+  }
+
+  private applyOrbit(planetGroup: THREE.Group, data: PlanetData) {
+    const elements = orbitalElementsFor(data);
+    planetGroup.userData.orbit = elements;
+    planetGroup.userData.orbitKey = JSON.stringify(data.orbit);
+    planetGroup.userData.orbitScale =
+      this.sceneOrbitRadius(elements.semiMajorAxisAU) /
+      elements.semiMajorAxisAU;
+    this.updatePlanetPosition(planetGroup);
+    this.removeOrbitLine(data.celestial_body_id);
+    this.createOrbitLine(data, elements, planetGroup.parent as THREE.Group);
+  }
+
+  private applyDimming() {
+    this.planets.forEach((group, id) => {
+      const dimmed = this.dimmedPlanetIds.has(id);
+      const surfaceMesh = group.userData.surfaceMesh as THREE.Mesh;
+      const material = surfaceMesh.material as THREE.ShaderMaterial;
+      material.uniforms.uDim.value = dimmed ? 0.15 : 1;
+      // Additive atmospheres and rings would still glow, so hide them.
+      group.children.forEach((child) => {
+        if (child !== surfaceMesh) child.visible = !dimmed;
+      });
+      const orbitLine = this.orbitLines.get(id);
+      if (orbitLine) {
+        (orbitLine.material as THREE.LineBasicMaterial).opacity = dimmed
+          ? 0.05
+          : 0.25;
+      }
+    });
   }
 
   private removePlanet(id: string) {
     const planetGroup = this.planets.get(id);
     if (planetGroup) {
-      this.scene.remove(planetGroup);
+      planetGroup.removeFromParent();
+      // Geometries are shared with other planets; only materials go.
       planetGroup.traverse((object) => {
         if (object instanceof THREE.Mesh) {
-          object.geometry?.dispose();
           if (Array.isArray(object.material)) {
             object.material.forEach((mat) => mat.dispose());
           } else if (object.material) {
@@ -396,24 +867,249 @@ export class AxeeVisuals3D extends LitElement {
       });
       this.planets.delete(id);
     }
+    this.atlas.release(id);
+    this.removeOrbitLine(id);
+  }
+
+  private removeOrbitLine(id: string) {
+    const orbitLine = this.orbitLines.get(id);
+    if (!orbitLine) return;
+    orbitLine.removeFromParent();
+    orbitLine.geometry.dispose();
+    (orbitLine.material as THREE.Material).dispose();
+    this.orbitLines.delete(id);
+  }
+
+  private updatePlanetPosition(group: THREE.Group) {
+    const position = orbitalPositionAt(
+      group.userData.orbit,
+      this.simulationDays,
+    );
+    group.position
+      .set(position.x, position.y, position.z)
+      .multiplyScalar(group.userData.orbitScale);
+  }
+
+  /**
+   * Renders the galaxy view at `width`×`height`, whatever the window size,
+   * and encodes it as a PNG with an optional caption card. The canvas is
+   * resized, drawn, copied and restored within one task, so the browser
+   * never paints the oversized frame.
+   */
+  async captureStill({
+    width,
+    height,
+    caption,
+  }: StillCaptureOptions): Promise<Blob> {
+    if (!this.renderer) throw new CaptureError('The scene is not ready yet.');
+    if (this.comparisonScene) {
+      throw new CaptureError('Close the planet comparison to capture a still.');
+    }
+    const gl = this.renderer.getContext();
+    const [maxWidth, maxHeight] = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
+    if (width > maxWidth || height > maxHeight) {
+      throw new CaptureError(
+        `This GPU renders at most ${maxWidth}×${maxHeight} pixels.`,
+      );
+    }
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d')!;
+    const pixelRatio = this.renderer.getPixelRatio();
+    let rendered = false;
+    try {
+      this.renderer.setPixelRatio(1);
+      this.composer.setPixelRatio(1);
+      this.renderer.setSize(width, height, false);
+      this.composer.setSize(width, height);
+      this.camera.aspect = width / height;
+      this.camera.updateProjectionMatrix();
+      // Browsers may silently shrink a drawing buffer they cannot allocate.
+      if (
+        gl.drawingBufferWidth === width &&
+        gl.drawingBufferHeight === height
+      ) {
+        this.updateLevelsOfDetail();
+        this.composer.render();
+        ctx.drawImage(this.renderer.domElement, 0, 0);
+        rendered = true;
+      }
+    } finally {
+      this.renderer.setPixelRatio(pixelRatio);
+      this.composer.setPixelRatio(pixelRatio);
+      this.onWindowResize();
+      this.updateLevelsOfDetail();
+      this.composer.render();
+    }
+    if (!rendered) {
+      throw new CaptureError(
+        `Not enough graphics memory for ${width}×${height} pixels.`,
+      );
+    }
+    if (caption) drawCaptionCard(ctx, caption);
+    return canvasToPng(output);
+  }
+
+  /**
+   * Records the canvas as it plays, with AXEE's voice when it comes from
+   * `speechOutputNode`. Browser speech synthesis plays outside the page's
+   * audio graph, so it cannot be recorded. Call from a user gesture.
+   */
+  startRecording() {
+    if (this.recorder || !this.renderer) return;
+    const recorder = new SceneRecorder(this.renderer.domElement);
+    recorder.setAudioSource(this.speechOutputNode);
+    recorder.start();
+    this.recorder = recorder;
+  }
+
+  /** Ends the recording, resolving with the WebM video. */
+  async stopRecording(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    this.recorder = null;
+    return recorder ? recorder.stop() : null;
+  }
+
+  // Fired once the camera settles after a flight or the user's drag.
+  private dispatchCameraMoved() {
+    this.dispatchEvent(
+      new CustomEvent('camera-moved', {bubbles: true, composed: true}),
+    );
+  }
+
+  /**
+   * Flies to the current selection again, e.g. to revisit a planet that is
+   * already selected after the user has wandered off.
+   */
+  refocus() {
+    this.focusOnSelectedPlanet();
   }
 
   private focusOnSelectedPlanet() {
-    if (!this.controls) return;
+    if (!this.director) return;
     this.controls.autoRotate = !this.selectedPlanetId;
-    if (this.selectedPlanetId) {
-      const planetGroup = this.planets.get(this.selectedPlanetId);
-      if (planetGroup) {
-        // Calculate target camera position
-        const offset = new THREE.Vector3(0, 3, 10);
-        this.targetPosition.copy(planetGroup.position).add(offset);
-        this.targetLookAt.copy(planetGroup.position);
-      }
+    const planetGroup = this.selectedPlanetId
+      ? this.planets.get(this.selectedPlanetId)
+      : undefined;
+    const systemGroup = this.focusedSystem
+      ? this.systems.get(this.focusedSystem)
+      : undefined;
+    let shot: CameraShot;
+    if (planetGroup) {
+      // Ride along with the planet as it orbits
+      shot = {
+        kind: 'follow',
+        target: planetGroup,
+        offset: new THREE.Vector3(0, 3, 10),
+      };
+    } else if (systemGroup) {
+      // Frame the whole system from above its orbital plane
+      shot = {
+        kind: 'static',
+        position: systemGroup.position
+          .clone()
+          .add(new THREE.Vector3(0, 45, 100)),
+        lookAt: systemGroup.position.clone(),
+      };
+    } else if (this.systems.size > 0) {
+      // Galaxy overview, pulled back far enough to see every system
+      let radius = 0;
+      this.systems.forEach((group) => {
+        radius = Math.max(radius, group.position.length());
+      });
+      shot = {
+        kind: 'static',
+        position: new THREE.Vector3(0, radius * 0.8, radius * 1.6),
+        lookAt: new THREE.Vector3(),
+      };
     } else {
       // Return to default view
-      this.targetPosition.set(0, 15, 40);
-      this.targetLookAt.set(0, 0, 0);
+      shot = {
+        kind: 'static',
+        position: new THREE.Vector3(0, 15, 40),
+        lookAt: new THREE.Vector3(),
+      };
     }
+    this.director.flyTo(shot);
+  }
+
+  private updateComparison() {
+    if (!this.renderer) return; // init() calls back once the scene exists
+    const key = JSON.stringify(this.comparedPlanets);
+    if (key === this.comparisonKey) return;
+    this.comparisonKey = key;
+    this.disposeComparison();
+    if (this.comparedPlanets.length < 2) return;
+
+    this.comparisonScene = new THREE.Scene();
+    const radii = this.comparedPlanets.map(estimateRadiusEarth);
+    const largest = Math.max(...radii);
+    const starColor = new THREE.Color(1, 1, 1);
+    this.comparedPlanets.forEach((data, i) => {
+      const position = new THREE.Vector3(i * COMPARISON_SPACING, 0, 0);
+      const planet = this.createPlanetBody(
+        data,
+        (COMPARISON_PLANET_SIZE * radii[i]) / largest,
+        // Every planet is lit from the same upper-left direction.
+        position.clone().add(new THREE.Vector3(-40, 20, 30)),
+        starColor,
+      );
+      planet.position.copy(position);
+      this.comparisonScene!.add(planet);
+      this.comparisonViews.push({
+        planet,
+        camera: new THREE.PerspectiveCamera(30, 1, 0.1, 500),
+      });
+    });
+  }
+
+  private disposeComparison() {
+    // Comparison planets use the shared geometries too.
+    this.comparisonScene?.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    this.comparisonScene = null;
+    this.comparisonViews = [];
+  }
+
+  // Renders one viewport per compared planet across the width of the canvas.
+  // Every camera shares a distance, so apparent sizes stay proportional.
+  private renderComparison(delta: number) {
+    const width = window.innerWidth / this.comparisonViews.length;
+    const height = window.innerHeight;
+    const aspect = width / height;
+    const tanHalfFov = Math.tan(THREE.MathUtils.degToRad(15));
+    // Planets sit in the upper part of the view, clear of the comparison
+    // table; the lower part of the frame is the limiting one vertically.
+    const lift = 0.35;
+    const distance = Math.max(
+      COMPARISON_FRAME_RADIUS / (tanHalfFov * (1 - lift)),
+      COMPARISON_FRAME_RADIUS / (tanHalfFov * aspect),
+    );
+
+    this.renderer.setScissorTest(true);
+    this.comparisonViews.forEach(({planet, camera}, i) => {
+      planet.rotation.y += delta * 0.5 * this.timeScale;
+      camera.aspect = aspect;
+      camera.updateProjectionMatrix();
+      camera.position.copy(planet.position).add(
+        new THREE.Vector3(0, 0, distance),
+      );
+      camera.lookAt(
+        planet.position.x,
+        planet.position.y - lift * distance * tanHalfFov,
+        planet.position.z,
+      );
+      this.renderer.setViewport(i * width, 0, width, height);
+      this.renderer.setScissor(i * width, 0, width, height);
+      this.renderer.render(this.comparisonScene!, camera);
+    });
+    this.renderer.setScissorTest(false);
+    this.renderer.setViewport(0, 0, window.innerWidth, window.innerHeight);
   }
 
   private onPointerMove(event: PointerEvent) {
@@ -421,9 +1117,12 @@ export class AxeeVisuals3D extends LitElement {
     const rect = this.renderer.domElement.getBoundingClientRect();
     this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
     this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    this.pointerMoved = true;
   }
 
   private onCanvasClick() {
+    // Hover tests are throttled, so bring them up to date with the click.
+    if (this.renderer && !this.comparisonScene) this.updateHover();
     if (this.hoveredPlanetId) {
       this.dispatchEvent(
         new CustomEvent('planet-selected', {
@@ -432,49 +1131,51 @@ export class AxeeVisuals3D extends LitElement {
           composed: true,
         }),
       );
+    } else if (this.hoveredSystem) {
+      this.dispatchEvent(
+        new CustomEvent('system-selected', {
+          detail: {systemName: this.hoveredSystem},
+          bubbles: true,
+          composed: true,
+        }),
+      );
     }
   }
 
-  private _animate() {
-    this.animationFrameId = requestAnimationFrame(this._animate.bind(this));
-    if (!this.renderer || !this.composer || !this.controls) return;
-
-    const delta = this.clock.getDelta();
-    const elapsed = this.clock.getElapsedTime();
-
-    // Animate planets
-    this.planets.forEach((group) => {
-      group.rotation.y += delta * 0.5;
-      const radius = group.userData.orbitalRadius;
-      const speed = group.userData.orbitSpeed;
-      group.position.set(
-        Math.cos(elapsed * speed) * radius,
-        0,
-        Math.sin(elapsed * speed) * radius,
-      );
-    });
-
-    // Camera animation
-    this.camera.position.lerp(this.targetPosition, 0.05);
-    this.controls.target.lerp(this.targetLookAt, 0.05);
-    this.controls.update();
-
-    // Hover logic
+  // Raycasts the pointer against planets and stars, updating the cursor and
+  // tooltip.
+  private updateHover() {
+    this.pointerMoved = false;
     this.raycaster.setFromCamera(this.pointer, this.camera);
+    const starMeshes = Array.from(
+      this.systems.values(),
+      (group) => group.userData.starMesh as THREE.Mesh,
+    );
+    const hoverablePlanets = Array.from(this.planets).flatMap(([id, group]) =>
+      this.dimmedPlanetIds.has(id) ? [] : [group],
+    );
     const intersects = this.raycaster.intersectObjects(
-      Array.from(this.planets.values()),
+      [...hoverablePlanets, ...starMeshes],
       true,
     );
     let isHovering = false;
+    this.hoveredPlanetId = null;
+    this.hoveredSystem = null;
     if (intersects.length > 0) {
-      const intersectedObject = intersects[0].object.parent; // Get the group
+      const hitObject = intersects[0].object;
+      // Planet meshes sit inside their group; stars are hit directly.
+      const intersectedObject = hitObject.userData.systemName
+        ? hitObject
+        : hitObject.parent;
       if (
         intersectedObject &&
-        intersectedObject.userData.id &&
-        this.planets.has(intersectedObject.userData.id)
+        ((intersectedObject.userData.id &&
+          this.planets.has(intersectedObject.userData.id)) ||
+          intersectedObject.userData.systemName)
       ) {
         isHovering = true;
-        this.hoveredPlanetId = intersectedObject.userData.id;
+        this.hoveredPlanetId = intersectedObject.userData.id ?? null;
+        this.hoveredSystem = intersectedObject.userData.systemName ?? null;
         if (this.renderer.domElement) {
           this.renderer.domElement.style.cursor = 'pointer';
         }
@@ -493,7 +1194,6 @@ export class AxeeVisuals3D extends LitElement {
       }
     }
     if (!isHovering) {
-      this.hoveredPlanetId = null;
       if (this.renderer.domElement) {
         this.renderer.domElement.style.cursor = 'auto';
       }
@@ -501,11 +1201,50 @@ export class AxeeVisuals3D extends LitElement {
         this.tooltipElement.style.display = 'none';
       }
     }
+  }
+
+  private _animate() {
+    this.animationFrameId = requestAnimationFrame(this._animate.bind(this));
+    if (!this.renderer || !this.composer || !this.controls) return;
+    const frameStart = performance.now();
+    this.renderer.info.reset();
+
+    const delta = this.clock.getDelta();
+    const elapsed = this.clock.getElapsedTime();
+    this.simulationDays += delta * this.timeScale * DAYS_PER_SECOND;
+
+    // Animate planets along their Keplerian orbits
+    this.planets.forEach((group) => {
+      group.rotation.y += delta * 0.5 * this.timeScale;
+      this.updatePlanetPosition(group);
+    });
+
+    this.director.update(delta);
+    this.controls.update();
+
+    if (this.comparisonScene) {
+      this.hoveredPlanetId = null;
+      this.hoveredSystem = null;
+      this.renderer.domElement.style.cursor = 'auto';
+      if (this.tooltipElement) this.tooltipElement.style.display = 'none';
+      this.renderComparison(delta);
+      this.updateStats(delta, frameStart);
+      return;
+    }
+
+    if (
+      this.pointerMoved &&
+      elapsed - this.lastHoverTest >= HOVER_INTERVAL_SECONDS
+    ) {
+      this.updateHover();
+      this.lastHoverTest = elapsed;
+    }
 
     // AI Entity animation
     if (this.aiEntity) {
       const material = this.aiEntity.material as THREE.ShaderMaterial;
       material.uniforms.uTime.value = elapsed;
+      this.updateAudioTexture();
 
       let targetState = 0;
       if (this.isListening) targetState = 1;
@@ -525,7 +1264,31 @@ export class AxeeVisuals3D extends LitElement {
       this.aiEntity.scale.set(scale, scale, scale);
     }
 
+    this.updateLevelsOfDetail();
     this.composer.render();
+    this.updateStats(delta, frameStart);
+  }
+
+  private updateStats(delta: number, frameStart: number) {
+    const stats = this.frameStats;
+    stats.frames++;
+    stats.seconds += delta;
+    stats.cpuMs += performance.now() - frameStart;
+    if (stats.seconds < STATS_INTERVAL_SECONDS) return;
+    if (this.showStats && this.statsElement) {
+      const {calls, triangles} = this.renderer.info.render;
+      const count = (level: DetailLevel) => this.detailCounts.get(level) ?? 0;
+      this.statsElement.textContent = [
+        `${((stats.seconds * 1000) / stats.frames).toFixed(1)} ms/frame · ${(
+          stats.frames / stats.seconds
+        ).toFixed(0)} fps · CPU ${(stats.cpuMs / stats.frames).toFixed(1)} ms`,
+        `${calls} draw calls · ${triangles.toLocaleString()} triangles`,
+        `Planets: ${count('high')} high · ${count('medium')} medium · ${count(
+          'low',
+        )} low · ${count('impostor')} impostors`,
+      ].join('\n');
+    }
+    this.frameStats = {frames: 0, seconds: 0, cpuMs: 0};
   }
 
   protected firstUpdated() {
@@ -533,10 +1296,15 @@ export class AxeeVisuals3D extends LitElement {
     this.tooltipElement = this.shadowRoot!.querySelector(
       '.tooltip',
     ) as HTMLDivElement;
+    this.statsElement = this.shadowRoot!.querySelector(
+      '.perf-hud',
+    ) as HTMLDivElement;
   }
 
   protected render() {
-    return html`<canvas></canvas><div class="tooltip"></div>`;
+    return html`<canvas></canvas>
+      <div class="tooltip"></div>
+      <div class="perf-hud" ?hidden=${!this.showStats}></div>`;
   }
 }
 